@@ -0,0 +1,72 @@
+import * as admin from 'firebase-admin';
+
+/** Value written in place of a redacted field. */
+export const REDACTED = '[REDACTED]';
+
+/** Before and after value of one changed field; `null` when the field did not exist. */
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+/** Changed fields keyed by dotted path (e.g. "rentalInventory.kayak"). */
+export type AuditChanges = Record<string, FieldChange>;
+
+type DocumentData = admin.firestore.DocumentData;
+
+/** True for maps that are diffed field by field rather than compared as one value. */
+const isMap = (value: unknown): value is DocumentData =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+/** Deep equality of Firestore values. */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof admin.firestore.Timestamp && b instanceof admin.firestore.Timestamp) return a.isEqual(b);
+  if (a instanceof admin.firestore.GeoPoint && b instanceof admin.firestore.GeoPoint) return a.isEqual(b);
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => valuesEqual(item, b[i]));
+  }
+  if (isMap(a) && isMap(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => valuesEqual(a[key], b[key]));
+  }
+  return a === b;
+}
+
+/**
+ * Field-level diff between two versions of a document. Nested maps are walked so only the changed
+ * leaves are listed; arrays, timestamps and geo points are compared as whole values.
+ * Fields in `ignored` (top-level names) are left out.
+ */
+export function diffDocuments(
+  before: DocumentData | undefined,
+  after: DocumentData | undefined,
+  ignored: readonly string[] = [],
+  prefix = '',
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const key of keys) {
+    if (!prefix && ignored.includes(key)) continue;
+    const path = prefix + key;
+    const a = before?.[key];
+    const b = after?.[key];
+    if (isMap(a) && isMap(b)) {
+      Object.assign(changes, diffDocuments(a, b, ignored, `${path}.`));
+    } else if (!valuesEqual(a, b)) {
+      changes[path] = { before: a ?? null, after: b ?? null };
+    }
+  }
+  return changes;
+}
+
+/** Replaces the values of `fields` (top-level names) and anything nested under them with `REDACTED`. */
+export function redactChanges(changes: AuditChanges, fields: readonly string[]): AuditChanges {
+  const redacted: AuditChanges = {};
+  for (const [path, change] of Object.entries(changes)) {
+    const sensitive = fields.some((field) => path === field || path.startsWith(`${field}.`));
+    redacted[path] = sensitive ?
+      { before: change.before === null ? null : REDACTED, after: change.after === null ? null : REDACTED } :
+      change;
+  }
+  return redacted;
+}
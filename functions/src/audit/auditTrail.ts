@@ -0,0 +1,75 @@
+import * as admin from 'firebase-admin';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { collections, CollectionName } from '../models/collections';
+import { AuditLog, ModificationStamp } from '../models';
+import { diffDocuments, redactChanges, valuesEqual } from './auditDiff';
+
+/** Audit log actions. */
+export enum AuditAction {
+  Create = 'Create',
+  Update = 'Update',
+  Delete = 'Delete',
+}
+
+/** `userId` recorded when a change carries no new `lastModifiedBy` stamp (e.g. a console edit). */
+export const UNKNOWN_ACTOR = 'unknown';
+
+/** Bookkeeping fields rewritten on every change; left out of diffs. */
+const IGNORED_FIELDS = ['updatedAt', 'lastModifiedBy'];
+
+/**
+ * Returns the stamp of the write that produced `after`.
+ * A stamp left over from an earlier write is not trusted: the change is then attributed to nobody.
+ */
+function stampOf(
+  before: admin.firestore.DocumentData | undefined,
+  after: admin.firestore.DocumentData | undefined,
+): ModificationStamp | undefined {
+  const stamp = after?.lastModifiedBy as ModificationStamp | undefined;
+  return stamp && !valuesEqual(stamp, before?.lastModifiedBy) ? stamp : undefined;
+}
+
+/**
+ * Trigger that writes an `AuditLog` entry with a field-level diff for every create, update and
+ * delete in `collection`. Values of `redactedFields` are replaced with a placeholder, as are all
+ * values of the write that sets `anonymizedAt`, so erased personal data does not survive in the log.
+ */
+function auditCollection(collection: string, entityType: string, redactedFields: readonly string[] = []) {
+  return onDocumentWritten(`${collection}/{entityId}`, async (event) => {
+    const before = event.data?.before.exists ? event.data.before.data() : undefined;
+    const after = event.data?.after.exists ? event.data.after.data() : undefined;
+    const action = !before ? AuditAction.Create : !after ? AuditAction.Delete : AuditAction.Update;
+    const diff = diffDocuments(before, after, IGNORED_FIELDS);
+    const erased = after?.anonymizedAt !== undefined && !valuesEqual(after.anonymizedAt, before?.anonymizedAt);
+    const changes = redactChanges(diff, erased ? Object.keys(diff) : redactedFields);
+    if (Object.keys(changes).length === 0) return;
+
+    const stamp = stampOf(before, after);
+    const ref = collections.auditLogs().doc();
+    const log: AuditLog = {
+      logId: ref.id,
+      timestamp: stamp?.timestamp ?? admin.firestore.Timestamp.fromDate(new Date(event.time)),
+      userId: stamp?.userId ?? UNKNOWN_ACTOR,
+      userEmail: stamp?.userEmail,
+      action,
+      entityType,
+      entityId: event.params.entityId,
+      changes,
+      ipAddress: stamp?.ipAddress,
+    };
+    await ref.set(log);
+  });
+}
+
+export const auditUsers = auditCollection(CollectionName.Users, 'User');
+export const auditRoles = auditCollection(CollectionName.Roles, 'Role');
+export const auditBoxes = auditCollection(CollectionName.Boxes, 'Box');
+export const auditProducts = auditCollection(CollectionName.Products, 'Product');
+export const auditPromoCodes = auditCollection(CollectionName.PromoCodes, 'PromoCode');
+export const auditOrders = auditCollection(CollectionName.Orders, 'Order');
+export const auditRentalBookings = auditCollection(CollectionName.RentalBookings, 'RentalBooking');
+export const auditRentalQuarantine = auditCollection(CollectionName.RentalQuarantine, 'QuarantinedUnit');
+export const auditEventBookings = auditCollection(CollectionName.EventBookings, 'EventBooking');
+export const auditShifts = auditCollection(CollectionName.Shifts, 'Shift');
+export const auditMfaConfigs = auditCollection(CollectionName.MfaConfigs, 'MfaConfig', ['secret', 'backupCodes']);
+export const auditOtps = auditCollection(CollectionName.Otps, 'Otp', ['code', 'phoneNumber']);
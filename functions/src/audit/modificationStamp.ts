@@ -0,0 +1,17 @@
+import * as admin from 'firebase-admin';
+import { Actor } from '../common/actor';
+import { ModificationStamp } from '../models';
+
+/**
+ * `lastModifiedBy` value for a write made by `actor`.
+ * Unset fields are left out, so the stamp can also go through `update()`, which bypasses converters.
+ */
+export function modifiedBy(
+  actor: Actor,
+  timestamp: admin.firestore.Timestamp = admin.firestore.Timestamp.now(),
+): ModificationStamp {
+  const stamp: ModificationStamp = { userId: actor.userId, timestamp };
+  if (actor.email) stamp.userEmail = actor.email;
+  if (actor.ipAddress) stamp.ipAddress = actor.ipAddress;
+  return stamp;
+}
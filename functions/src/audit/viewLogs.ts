@@ -0,0 +1,69 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { collections } from '../models/collections';
+import { PermissionKey } from '../models';
+import { dateTime, defineSchema, id, int, oneOf, optional, toTimestamp, validate } from '../models/validation';
+import { toExportValue } from '../privacy/userData';
+import { AuditAction } from './auditTrail';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+interface ViewLogsRequest {
+  entityType?: string;
+  entityId?: string;
+  userId?: string;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+  pageSize?: number;
+  /** `nextPageToken` of the previous page. */
+  pageToken?: string;
+}
+
+const requestSchema = defineSchema<ViewLogsRequest>('ViewLogsRequest', {
+  entityType: optional(id),
+  entityId: optional(id),
+  userId: optional(id),
+  action: optional(oneOf(AuditAction)),
+  from: optional(dateTime),
+  to: optional(dateTime),
+  pageSize: optional(int({ min: 1, max: MAX_PAGE_SIZE })),
+  pageToken: optional(id),
+});
+
+/**
+ * Lists audit log entries, newest first, optionally filtered by entity, user, action and time range.
+ * Timestamps, including those nested in `changes`, are returned as ISO strings.
+ * Pages are chained with `nextPageToken`. Requires `audit:view`.
+ */
+export const viewLogs = onCall(async (request) => {
+  await authorize(request, PermissionKey.AuditView);
+  const input = validate(requestSchema, request.data);
+  const pageSize = input.pageSize ?? DEFAULT_PAGE_SIZE;
+
+  let query = collections.auditLogs().orderBy('timestamp', 'desc');
+  if (input.entityType) query = query.where('entityType', '==', input.entityType);
+  if (input.entityId) query = query.where('entityId', '==', input.entityId);
+  if (input.userId) query = query.where('userId', '==', input.userId);
+  if (input.action) query = query.where('action', '==', input.action);
+  if (input.from) query = query.where('timestamp', '>=', toTimestamp(input.from));
+  if (input.to) query = query.where('timestamp', '<=', toTimestamp(input.to));
+  if (input.pageToken) {
+    const cursor = await collections.auditLogs().doc(input.pageToken).get();
+    if (!cursor.exists) {
+      throw new AppError('invalid-argument', 'error.audit.invalidPageToken');
+    }
+    query = query.startAfter(cursor);
+  }
+
+  const snapshot = await query.limit(pageSize + 1).get();
+  const page = snapshot.docs.slice(0, pageSize);
+  const logs = page.map((doc) => toExportValue(doc.data()));
+  return {
+    success: true,
+    logs,
+    nextPageToken: snapshot.docs.length > pageSize ? page[page.length - 1].id : undefined,
+  };
+});
@@ -0,0 +1,18 @@
+import { logger } from 'firebase-functions/v2';
+import { SmsProvider } from './smsProvider';
+
+/**
+ * Logs that a message would have been sent instead of sending it; for the emulator only. The
+ * message itself is left out of the logs since it may hold a sign-in code, and the provider refuses
+ * to run outside the emulator.
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = 'console';
+
+  async send(phoneNumber: string, message: string): Promise<void> {
+    if (process.env.FUNCTIONS_EMULATOR !== 'true') {
+      throw new Error('The console SMS provider only runs in the emulator.');
+    }
+    logger.info('SMS (not sent)', { phoneNumberEnding: phoneNumber.slice(-4), messageLength: message.length });
+  }
+}
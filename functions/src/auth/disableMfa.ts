@@ -0,0 +1,53 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { resolveActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { getAppConfig } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import { defineSchema, text, validate } from '../models/validation';
+import { checkMfaCode, MFA_REQUIRED_ROLES, MFA_VERIFY_SCOPE } from './mfaService';
+import { consumeRateLimit, resetRateLimit } from './rateLimiter';
+
+interface DisableMfaRequest {
+  code: string;
+}
+
+const requestSchema = defineSchema<DisableMfaRequest>('DisableMfaRequest', {
+  code: text({ minLength: 6, maxLength: 20 }),
+});
+
+/**
+ * Turns MFA off for the caller after checking a current TOTP or backup code.
+ * Admins and managers cannot turn it off, since their roles require it.
+ */
+export const disableMfa = onCall(async (request) => {
+  const actor = await resolveActor(request);
+  if (MFA_REQUIRED_ROLES.includes(actor.role)) {
+    throw new AppError('failed-precondition', 'error.mfa.requiredForRole');
+  }
+  const input = validate(requestSchema, request.data);
+  const settings = await getAppConfig('mfaSettings');
+  await consumeRateLimit(MFA_VERIFY_SCOPE, actor.userId, settings.verifyLimit);
+
+  const configRef = collections.mfaConfigs().doc(actor.userId);
+  const userRef = collections.users().doc(actor.userId);
+  const disabled = await db().runTransaction(async (transaction) => {
+    const config = (await transaction.get(configRef)).data();
+    const user = (await transaction.get(userRef)).data();
+    if (!config?.confirmed || !user) {
+      throw new AppError('failed-precondition', 'error.mfa.notEnrolled');
+    }
+    const now = admin.firestore.Timestamp.now();
+    if (!checkMfaCode(config, input.code, now)) return false;
+    transaction.delete(configRef);
+    transaction.set(userRef, { ...user, mfaEnabled: false, updatedAt: now, lastModifiedBy: modifiedBy(actor, now) });
+    return true;
+  });
+
+  if (!disabled) {
+    throw new AppError('invalid-argument', 'error.mfa.invalidCode');
+  }
+  await resetRateLimit(MFA_VERIFY_SCOPE, actor.userId);
+  return { success: true };
+});
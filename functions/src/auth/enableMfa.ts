@@ -0,0 +1,41 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { resolveActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { getAppConfig } from '../config/appConfig';
+import { collections } from '../models/collections';
+import { generateBackupCodes, hashBackupCode } from './mfaService';
+import { encryptSecret } from './secretEncryption';
+import { generateTotpSecret, totpUri } from './totp';
+
+/**
+ * Starts MFA enrollment for the caller: stores a new, unconfirmed TOTP secret and backup codes.
+ * The secret and codes are only returned here; enrollment completes once `verifyMfaChallenge`
+ * accepts a code from the authenticator app. Calling it again before then starts over.
+ */
+export const enableMfa = onCall(async (request) => {
+  const actor = await resolveActor(request);
+  const settings = await getAppConfig('mfaSettings');
+  const ref = collections.mfaConfigs().doc(actor.userId);
+  if ((await ref.get()).data()?.confirmed) {
+    throw new AppError('failed-precondition', 'error.mfa.alreadyEnabled');
+  }
+
+  const secret = generateTotpSecret();
+  const backupCodes = generateBackupCodes(settings.backupCodeCount);
+  await ref.set({
+    userId: actor.userId,
+    secret: encryptSecret(secret),
+    backupCodes: backupCodes.map((code) => hashBackupCode(actor.userId, code)),
+    confirmed: false,
+    lastModifiedBy: modifiedBy(actor, admin.firestore.Timestamp.now()),
+  });
+
+  return {
+    success: true,
+    secret,
+    otpauthUrl: totpUri(secret, actor.email ?? actor.userId, settings.issuer),
+    backupCodes,
+  };
+});
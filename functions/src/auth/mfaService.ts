@@ -0,0 +1,54 @@
+import * as admin from 'firebase-admin';
+import { randomBytes } from 'crypto';
+import { Actor, ActorRole } from '../common/actor';
+import { collections } from '../models/collections';
+import { MfaConfig, UserRole } from '../models';
+import { decryptSecret, keyedHash } from './secretEncryption';
+import { verifyTotp } from './totp';
+
+/** Rate limit scope of MFA challenges. */
+export const MFA_VERIFY_SCOPE = 'mfaVerify';
+
+/** Roles that must pass an MFA challenge before using sensitive permissions. */
+export const MFA_REQUIRED_ROLES: readonly ActorRole[] = [UserRole.Admin, UserRole.Manager];
+
+/** Random bytes in a backup code, written as 20 hex digits. */
+const BACKUP_CODE_BYTES = 10;
+
+/** New backup codes, e.g. "3f9a-c21e-07b4-d5e8-91aa", shown to the user once. */
+export const generateBackupCodes = (count: number): string[] =>
+  Array.from({ length: count }, () => randomBytes(BACKUP_CODE_BYTES).toString('hex').match(/.{4}/g)!.join('-'));
+
+/** Hash of a backup code as stored on `MfaConfig`, keyed with the server key and salted with the user's ID. */
+export const hashBackupCode = (userId: string, code: string): string =>
+  keyedHash('mfaBackupCode', `${userId}:${code.toLowerCase().replace(/[^0-9a-f]/g, '')}`);
+
+/**
+ * Checks a TOTP or backup code against `config`.
+ * TOTP codes must belong to a later time step than the last one accepted; a backup code is removed
+ * once used. Backup codes are refused until enrollment is confirmed.
+ * @return The changes to save when the code is valid, or undefined.
+ */
+export function checkMfaCode(
+  config: MfaConfig,
+  code: string,
+  now: admin.firestore.Timestamp,
+): Partial<MfaConfig> | undefined {
+  const normalized = code.replace(/\s/g, '');
+  if (/^\d{6}$/.test(normalized)) {
+    const step = verifyTotp(decryptSecret(config.secret), normalized, now.toMillis());
+    if (step === undefined || step <= (config.lastUsedTimeStep ?? -1)) return undefined;
+    return { lastUsedTimeStep: step };
+  }
+  if (!config.confirmed) return undefined;
+  const hash = hashBackupCode(config.userId, normalized);
+  if (!config.backupCodes.includes(hash)) return undefined;
+  return { backupCodes: config.backupCodes.filter((backupCode) => backupCode !== hash) };
+}
+
+/** Returns true when the actor's current sign-in session has passed an MFA challenge. */
+export async function isMfaVerified(actor: Actor): Promise<boolean> {
+  if (actor.authTime === undefined) return false;
+  const config = (await collections.mfaConfigs().doc(actor.userId).get()).data();
+  return config?.confirmed === true && config.verifiedAuthTime === actor.authTime;
+}
@@ -0,0 +1,45 @@
+import { randomInt, timingSafeEqual } from 'crypto';
+import { collections } from '../models/collections';
+import { Otp, OtpType, User } from '../models';
+import { keyedHash } from './secretEncryption';
+
+/** Rate limit scopes of the OTP endpoints. */
+export const OTP_SEND_SCOPE = 'otpSend';
+export const OTP_VERIFY_SCOPE = 'otpVerify';
+
+/** Random numeric code of `length` digits. */
+export const generateOtpCode = (length: number): string =>
+  String(randomInt(0, 10 ** length)).padStart(length, '0');
+
+/** Hash of `code` stored on the OTP, keyed with the server key and salted with the OTP's ID. */
+export const hashOtpCode = (otpId: string, code: string): string =>
+  keyedHash('otp', `${otpId}:${code}`);
+
+/** Compares `code` with the stored hash in constant time. */
+export function otpCodeMatches(otp: Otp, code: string): boolean {
+  const expected = Buffer.from(otp.code, 'hex');
+  const actual = Buffer.from(hashOtpCode(otp.otpId, code), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Active user registered with `phoneNumber`, if any. */
+export async function findUserByPhone(phoneNumber: string): Promise<User | undefined> {
+  const snapshot = await collections.users()
+    .where('phoneNumber', '==', phoneNumber)
+    .where('isActive', '==', true)
+    .limit(1)
+    .get();
+  return snapshot.docs[0]?.data();
+}
+
+/** Most recent unused OTP of `type` sent to `phoneNumber`, if any. */
+export async function findLatestOtp(phoneNumber: string, type: OtpType): Promise<Otp | undefined> {
+  const snapshot = await collections.otps()
+    .where('phoneNumber', '==', phoneNumber)
+    .where('type', '==', type)
+    .where('used', '==', false)
+    .orderBy('createdAt', 'desc')
+    .limit(1)
+    .get();
+  return snapshot.docs[0]?.data();
+}
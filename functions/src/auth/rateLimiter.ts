@@ -0,0 +1,47 @@
+import * as admin from 'firebase-admin';
+import { createHash } from 'crypto';
+import { AppError } from '../common/errors';
+import { RateLimitPolicy } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import { RateLimit } from '../models';
+
+const MINUTE_MS = 60 * 1000;
+
+/** ID of the counter for `key` in `scope`; the key is hashed so phone numbers and IPs are not stored. */
+const rateLimitId = (scope: string, key: string): string =>
+  `${scope}:${createHash('sha256').update(key).digest('hex')}`;
+
+/**
+ * Counts one attempt for `key` in `scope` against `policy`.
+ * Throws `resource-exhausted` while the key is locked out; the attempt that goes over
+ * `maxAttempts` starts the lockout and is refused too.
+ */
+export async function consumeRateLimit(scope: string, key: string, policy: RateLimitPolicy): Promise<void> {
+  const ref = collections.rateLimits().doc(rateLimitId(scope, key));
+  const lockedUntil = await db().runTransaction(async (transaction) => {
+    const current = (await transaction.get(ref)).data();
+    const now = admin.firestore.Timestamp.now();
+    if (current?.lockedUntil && current.lockedUntil.toMillis() > now.toMillis()) {
+      return current.lockedUntil;
+    }
+    const windowOpen = current && now.toMillis() - current.windowStart.toMillis() < policy.windowMinutes * MINUTE_MS;
+    const next: RateLimit = windowOpen ?
+      { ...current, count: current.count + 1, lockedUntil: undefined } :
+      { rateLimitId: ref.id, count: 1, windowStart: now };
+    if (next.count > policy.maxAttempts) {
+      next.lockedUntil = admin.firestore.Timestamp.fromMillis(now.toMillis() + policy.lockoutMinutes * MINUTE_MS);
+    }
+    transaction.set(ref, next);
+    return next.lockedUntil;
+  });
+  if (lockedUntil) {
+    throw new AppError('resource-exhausted', 'error.auth.tooManyAttempts', {
+      retryAfterSeconds: Math.ceil((lockedUntil.toMillis() - Date.now()) / 1000),
+    });
+  }
+}
+
+/** Clears the attempts counted for `key` in `scope`, e.g. after a successful verification. */
+export async function resetRateLimit(scope: string, key: string): Promise<void> {
+  await collections.rateLimits().doc(rateLimitId(scope, key)).delete();
+}
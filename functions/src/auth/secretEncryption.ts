@@ -0,0 +1,64 @@
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+const ENVELOPE_VERSION = 'v1';
+
+/**
+ * Key-encryption key from the `MFA_ENCRYPTION_KEY` environment variable (32 bytes, base64), from
+ * which the `keyedHash` keys are derived as well. Set it in `functions/.env.local` for the
+ * emulator and from a secret in production.
+ */
+function keyEncryptionKey(): Buffer {
+  const key = Buffer.from(process.env.MFA_ENCRYPTION_KEY ?? '', 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error('MFA_ENCRYPTION_KEY must be set to 32 bytes encoded as base64.');
+  }
+  return key;
+}
+
+/** Encrypts with AES-256-GCM; the result holds the IV, auth tag and ciphertext. */
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+/** Reverses `seal`, throwing when the data was tampered with or the key is wrong. */
+function unseal(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64url');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * Envelope-encrypts `plaintext`: it is sealed with a fresh data key, and the data key is sealed
+ * with the key-encryption key. Both are stored together as "v1.<wrapped key>.<ciphertext>".
+ */
+export function encryptSecret(plaintext: string): string {
+  const dataKey = randomBytes(KEY_BYTES);
+  return [ENVELOPE_VERSION, seal(keyEncryptionKey(), dataKey), seal(dataKey, Buffer.from(plaintext, 'utf8'))].join('.');
+}
+
+/** Decrypts a value produced by `encryptSecret`. */
+export function decryptSecret(envelope: string): string {
+  const [version, wrappedKey, ciphertext] = envelope.split('.');
+  if (version !== ENVELOPE_VERSION || !wrappedKey || !ciphertext) {
+    throw new Error('Unsupported secret envelope.');
+  }
+  const dataKey = unseal(keyEncryptionKey(), wrappedKey);
+  return unseal(dataKey, ciphertext).toString('utf8');
+}
+
+/**
+ * HMAC-SHA256 of `value` under a key derived from the key-encryption key for `purpose`, so that
+ * short codes such as OTPs cannot be brute-forced from their stored hashes without the key.
+ */
+export function keyedHash(purpose: string, value: string): string {
+  const key = Buffer.from(hkdfSync('sha256', keyEncryptionKey(), Buffer.alloc(0), purpose, KEY_BYTES));
+  return createHmac('sha256', key).update(value).digest('hex');
+}
@@ -0,0 +1,92 @@
+import * as admin from 'firebase-admin';
+import { logger } from 'firebase-functions/v2';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { resolveActor, systemActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { getAppConfig } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import { Otp, OtpType, User } from '../models';
+import { defineSchema, oneOf, phoneNumber, validate } from '../models/validation';
+import { findUserByPhone, generateOtpCode, hashOtpCode, OTP_SEND_SCOPE } from './otpService';
+import { consumeRateLimit } from './rateLimiter';
+import { getSmsProvider } from './smsProvider';
+
+const MINUTE_MS = 60 * 1000;
+
+interface SendOtpRequest {
+  phoneNumber: string;
+  type: OtpType;
+}
+
+const requestSchema = defineSchema<SendOtpRequest>('SendOtpRequest', {
+  phoneNumber: phoneNumber,
+  type: oneOf(OtpType),
+});
+
+/**
+ * Texts a one-time code to a registered phone number; any earlier unused code of the same type
+ * stops working. Only a hash of the code is stored.
+ * The response is the same whether or not the number is registered. `MfaSetup` codes can only be
+ * sent by a signed-in user to their own number. Sends are rate-limited per phone number and per IP.
+ */
+export const sendOtp = onCall(async (request) => {
+  const input = validate(requestSchema, request.data);
+  const settings = await getAppConfig('otpSettings');
+  const ipAddress = request.rawRequest?.ip;
+  await consumeRateLimit(OTP_SEND_SCOPE, `phone:${input.phoneNumber}`, settings.sendLimitPerPhone);
+  if (ipAddress) {
+    await consumeRateLimit(OTP_SEND_SCOPE, `ip:${ipAddress}`, settings.sendLimitPerIp);
+  }
+
+  let user: User | undefined;
+  if (input.type === OtpType.MfaSetup) {
+    const actor = await resolveActor(request);
+    user = (await collections.users().doc(actor.userId).get()).data();
+    if (user?.phoneNumber !== input.phoneNumber) {
+      throw new AppError('permission-denied', 'error.otp.phoneMismatch');
+    }
+  } else {
+    user = await findUserByPhone(input.phoneNumber);
+  }
+
+  if (user) {
+    const code = generateOtpCode(settings.codeLength);
+    await db().runTransaction(async (transaction) => {
+      const previous = await transaction.get(collections.otps()
+        .where('phoneNumber', '==', input.phoneNumber)
+        .where('type', '==', input.type)
+        .where('used', '==', false));
+      const now = admin.firestore.Timestamp.now();
+      const stamp = modifiedBy({ ...systemActor, ipAddress }, now);
+      for (const doc of previous.docs) {
+        transaction.set(doc.ref, { ...doc.data(), used: true, lastModifiedBy: stamp });
+      }
+      const ref = collections.otps().doc();
+      const otp: Otp = {
+        otpId: ref.id,
+        userId: user!.userId,
+        code: hashOtpCode(ref.id, code),
+        phoneNumber: input.phoneNumber,
+        expiresAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + settings.ttlMinutes * MINUTE_MS),
+        used: false,
+        type: input.type,
+        failedAttempts: 0,
+        createdAt: now,
+        lastModifiedBy: stamp,
+      };
+      transaction.set(ref, otp);
+    });
+    try {
+      await getSmsProvider().send(
+        input.phoneNumber,
+        `Your verification code is ${code}. It expires in ${settings.ttlMinutes} minutes.`,
+      );
+    } catch (error) {
+      logger.error('Failed to send OTP', { userId: user.userId, type: input.type, error });
+      throw new AppError('unavailable', 'error.otp.sendFailed');
+    }
+  }
+
+  return { success: true, expiresInSeconds: settings.ttlMinutes * 60 };
+});
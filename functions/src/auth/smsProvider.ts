@@ -0,0 +1,45 @@
+import { ConsoleSmsProvider } from './consoleSmsProvider';
+
+/** A service that delivers text messages. Implementations throw when a message cannot be sent. */
+export interface SmsProvider {
+  readonly name: string;
+  /** Sends `message` to `phoneNumber` (E.164). */
+  send(phoneNumber: string, message: string): Promise<void>;
+}
+
+const providerFactories = new Map<string, () => SmsProvider>();
+const providerInstances = new Map<string, SmsProvider>();
+
+/** Makes an SMS provider available under `name`. */
+export function registerSmsProvider(name: string, factory: () => SmsProvider): void {
+  providerFactories.set(name, factory);
+  providerInstances.delete(name);
+}
+
+registerSmsProvider('console', () => new ConsoleSmsProvider());
+
+/**
+ * The configured default provider: the `SMS_PROVIDER` environment variable, or "console" when it
+ * is unset in the emulator. Outside the emulator an unset variable is a configuration error, so
+ * sign-in codes are never silently dropped into the logs.
+ */
+function defaultProviderName(): string {
+  const name = process.env.SMS_PROVIDER;
+  if (name) return name;
+  if (process.env.FUNCTIONS_EMULATOR === 'true') return 'console';
+  throw new Error('SMS_PROVIDER must be set outside the emulator.');
+}
+
+/** Returns the provider registered under `name`, or the configured default. */
+export function getSmsProvider(name: string = defaultProviderName()): SmsProvider {
+  let provider = providerInstances.get(name);
+  if (!provider) {
+    const factory = providerFactories.get(name);
+    if (!factory) {
+      throw new Error(`SMS provider "${name}" is not registered.`);
+    }
+    provider = factory();
+    providerInstances.set(name, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,90 @@
+import { createHmac, randomBytes } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/** Seconds each TOTP code is valid for (RFC 6238 default). */
+export const TOTP_PERIOD_SECONDS = 30;
+/** Digits in a TOTP code. */
+export const TOTP_DIGITS = 6;
+
+/** Encodes bytes as unpadded RFC 4648 base32, the format authenticator apps expect. */
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/** Decodes RFC 4648 base32, ignoring case, spaces and padding. */
+export function base32Decode(text: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of text.toUpperCase().replace(/[\s=]/g, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new Error(`Invalid base32 character "${char}".`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** New random 160-bit TOTP secret, base32 encoded. */
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+/** HOTP code (RFC 4226) of `secret` for `counter`. */
+export function hotp(secret: Buffer, counter: number, digits: number = TOTP_DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac('sha1', secret).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/** TOTP time step that `timeMs` falls in. */
+export const totpTimeStep = (timeMs: number): number => Math.floor(timeMs / 1000 / TOTP_PERIOD_SECONDS);
+
+/**
+ * Checks a TOTP code (RFC 6238, HMAC-SHA1) against the steps around `timeMs`, allowing `window`
+ * steps of clock drift either way.
+ * @return The time step the code belongs to, or undefined when it matches none.
+ */
+export function verifyTotp(secretBase32: string, code: string, timeMs: number, window = 1): number | undefined {
+  const secret = base32Decode(secretBase32);
+  const current = totpTimeStep(timeMs);
+  for (let step = current - window; step <= current + window; step++) {
+    if (hotp(secret, step) === code) return step;
+  }
+  return undefined;
+}
+
+/** `otpauth://` URI that authenticator apps import, usually shown as a QR code. */
+export function totpUri(secretBase32: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret: secretBase32,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
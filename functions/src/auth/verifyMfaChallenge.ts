@@ -0,0 +1,61 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { resolveActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { getAppConfig } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import { defineSchema, text, validate } from '../models/validation';
+import { checkMfaCode, MFA_VERIFY_SCOPE } from './mfaService';
+import { consumeRateLimit, resetRateLimit } from './rateLimiter';
+
+interface VerifyMfaChallengeRequest {
+  code: string;
+}
+
+const requestSchema = defineSchema<VerifyMfaChallengeRequest>('VerifyMfaChallengeRequest', {
+  code: text({ minLength: 6, maxLength: 20 }),
+});
+
+/**
+ * Checks a TOTP or backup code for the caller. The first valid TOTP code confirms enrollment and
+ * turns on `User.mfaEnabled`; every valid code marks the caller's current sign-in session as
+ * verified, which unlocks the permissions guarded by MFA. Attempts are rate-limited per user.
+ */
+export const verifyMfaChallenge = onCall(async (request) => {
+  const actor = await resolveActor(request);
+  const input = validate(requestSchema, request.data);
+  const settings = await getAppConfig('mfaSettings');
+  await consumeRateLimit(MFA_VERIFY_SCOPE, actor.userId, settings.verifyLimit);
+
+  const configRef = collections.mfaConfigs().doc(actor.userId);
+  const userRef = collections.users().doc(actor.userId);
+  const backupCodesRemaining = await db().runTransaction(async (transaction) => {
+    const config = (await transaction.get(configRef)).data();
+    const user = (await transaction.get(userRef)).data();
+    if (!config || !user) {
+      throw new AppError('failed-precondition', 'error.mfa.notEnrolled');
+    }
+    const now = admin.firestore.Timestamp.now();
+    const changes = checkMfaCode(config, input.code, now);
+    if (!changes) return undefined;
+
+    transaction.set(configRef, {
+      ...config,
+      ...changes,
+      confirmed: true,
+      verifiedAuthTime: actor.authTime,
+      lastModifiedBy: modifiedBy(actor, now),
+    });
+    if (!user.mfaEnabled) {
+      transaction.set(userRef, { ...user, mfaEnabled: true, updatedAt: now, lastModifiedBy: modifiedBy(actor, now) });
+    }
+    return (changes.backupCodes ?? config.backupCodes).length;
+  });
+
+  if (backupCodesRemaining === undefined) {
+    throw new AppError('invalid-argument', 'error.mfa.invalidCode');
+  }
+  await resetRateLimit(MFA_VERIFY_SCOPE, actor.userId);
+  return { success: true, backupCodesRemaining };
+});
@@ -0,0 +1,82 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { systemActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { getAppConfig } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import { OtpType } from '../models';
+import { defineSchema, oneOf, phoneNumber, text, validate } from '../models/validation';
+import { findLatestOtp, otpCodeMatches, OTP_VERIFY_SCOPE } from './otpService';
+import { consumeRateLimit, resetRateLimit } from './rateLimiter';
+
+interface VerifyOtpRequest {
+  phoneNumber: string;
+  code: string;
+  type: OtpType;
+}
+
+/** Result of checking a code; failures are thrown after the transaction so the attempt is saved. */
+type VerificationOutcome =
+  | { status: 'verified'; userId: string }
+  | { status: 'expired' }
+  | { status: 'invalid'; remainingAttempts: number };
+
+const requestSchema = defineSchema<VerifyOtpRequest>('VerifyOtpRequest', {
+  phoneNumber: phoneNumber,
+  code: text({ pattern: /^\d{4,10}$/ }),
+  type: oneOf(OtpType),
+});
+
+/**
+ * Checks a code sent by `sendOtp`. A code works once and only until it expires; too many wrong
+ * entries use it up. Attempts are rate-limited per phone number and per IP.
+ * A verified `Login` code signs the user in: the response carries a Firebase custom token.
+ */
+export const verifyOtp = onCall(async (request) => {
+  const input = validate(requestSchema, request.data);
+  const settings = await getAppConfig('otpSettings');
+  const ipAddress = request.rawRequest?.ip;
+  await consumeRateLimit(OTP_VERIFY_SCOPE, `phone:${input.phoneNumber}`, settings.verifyLimitPerPhone);
+  if (ipAddress) {
+    await consumeRateLimit(OTP_VERIFY_SCOPE, `ip:${ipAddress}`, settings.verifyLimitPerIp);
+  }
+
+  const latest = await findLatestOtp(input.phoneNumber, input.type);
+  if (!latest) {
+    throw new AppError('invalid-argument', 'error.otp.invalidCode');
+  }
+  const ref = collections.otps().doc(latest.otpId);
+  const outcome = await db().runTransaction(async (transaction): Promise<VerificationOutcome> => {
+    const otp = (await transaction.get(ref)).data();
+    const now = admin.firestore.Timestamp.now();
+    if (!otp || otp.used) return { status: 'invalid', remainingAttempts: 0 };
+    if (otp.expiresAt.toMillis() <= now.toMillis()) return { status: 'expired' };
+    const matches = otpCodeMatches(otp, input.code);
+    const failedAttempts = otp.failedAttempts + (matches ? 0 : 1);
+    const used = matches || failedAttempts >= settings.maxFailedAttemptsPerCode;
+    transaction.set(ref, {
+      ...otp,
+      used,
+      failedAttempts,
+      lastModifiedBy: modifiedBy({ ...systemActor, ipAddress }, now),
+    });
+    return matches ?
+      { status: 'verified', userId: otp.userId } :
+      { status: 'invalid', remainingAttempts: used ? 0 : settings.maxFailedAttemptsPerCode - failedAttempts };
+  });
+
+  if (outcome.status === 'expired') {
+    throw new AppError('deadline-exceeded', 'error.otp.expired');
+  }
+  if (outcome.status === 'invalid') {
+    throw new AppError('invalid-argument', 'error.otp.invalidCode', { remainingAttempts: outcome.remainingAttempts });
+  }
+  await resetRateLimit(OTP_VERIFY_SCOPE, `phone:${input.phoneNumber}`);
+
+  if (input.type === OtpType.Login) {
+    const customToken = await admin.auth().createCustomToken(outcome.userId);
+    return { success: true, customToken };
+  }
+  return { success: true };
+});
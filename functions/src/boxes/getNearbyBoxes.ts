@@ -0,0 +1,73 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { requireAuth } from '../common/actor';
+import { getAppConfig } from '../config/appConfig';
+import { collections } from '../models/collections';
+import { ShiftStatus } from '../models';
+import {
+  defineSchema,
+  LocationInput,
+  locationInputSchema,
+  nested,
+  num,
+  optional,
+  validate,
+} from '../models/validation';
+import { findNearbyBoxes } from './nearbyBoxes';
+import { currentOpeningPeriod } from './operatingHours';
+
+interface GetNearbyBoxesRequest {
+  location: LocationInput;
+  radiusKm?: number;
+}
+
+const requestSchema = defineSchema<GetNearbyBoxesRequest>('GetNearbyBoxesRequest', {
+  location: nested(locationInputSchema),
+  radiusKm: optional(num({ positive: true })),
+});
+
+/** Firestore `in` queries accept at most this many values. */
+const IN_QUERY_LIMIT = 30;
+
+/** IDs of the boxes among `boxIds` where a courier's shift is currently open. */
+async function staffedBoxIds(boxIds: string[]): Promise<Set<string>> {
+  const chunks: string[][] = [];
+  for (let i = 0; i < boxIds.length; i += IN_QUERY_LIMIT) {
+    chunks.push(boxIds.slice(i, i + IN_QUERY_LIMIT));
+  }
+  const snapshots = await Promise.all(chunks.map((chunk) => collections.shifts()
+    .where('status', '==', ShiftStatus.Open)
+    .where('startBoxId', 'in', chunk)
+    .get()));
+  return new Set(snapshots.flatMap((snapshot) => snapshot.docs.map((doc) => doc.data().startBoxId)));
+}
+
+/**
+ * Lists the boxes near `location` a customer can order from right now, nearest first: active,
+ * open according to their operating hours and staffed by a courier on an open shift.
+ */
+export const getNearbyBoxes = onCall(async (request) => {
+  requireAuth(request);
+  const input = validate(requestSchema, request.data);
+  const searchSettings = await getAppConfig('searchSettings');
+  const radiusKm = Math.min(input.radiusKm ?? searchSettings.defaultRadiusKm, searchSettings.maxRadiusKm);
+
+  const now = new Date();
+  const openBoxes = (await findNearbyBoxes(input.location, radiusKm))
+    .map((nearby) => ({ ...nearby, openingPeriod: currentOpeningPeriod(nearby.box.operatingHours, now) }))
+    .filter((nearby) => nearby.openingPeriod !== undefined);
+  const staffed = await staffedBoxIds(openBoxes.map(({ box }) => box.boxId));
+
+  const nearbyBoxes = openBoxes
+    .filter(({ box }) => staffed.has(box.boxId))
+    .map(({ box, distanceKm, openingPeriod }) => ({
+      boxId: box.boxId,
+      name: box.name,
+      location: { latitude: box.location.latitude, longitude: box.location.longitude },
+      address: box.address,
+      currencyCode: box.currencyCode,
+      distanceKm,
+      isOpen: true,
+      closesAt: openingPeriod!.end,
+    }));
+  return { success: true, nearbyBoxes };
+});
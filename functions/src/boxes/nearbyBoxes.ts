@@ -0,0 +1,32 @@
+import { geohashForLocation, geohashQueryBounds } from 'geofire-common';
+import { distanceKm, LatLng } from '../common/geo';
+import { collections } from '../models/collections';
+import { Box } from '../models';
+
+/** A box and its distance from the search center. */
+export interface NearbyBox {
+  box: Box;
+  distanceKm: number;
+}
+
+/** Geohash stored in `Box.geohash` for `location`. */
+export const geohashFor = (location: LatLng): string =>
+  geohashForLocation([location.latitude, location.longitude]);
+
+/**
+ * Active boxes within `radiusKm` of `center`, nearest first.
+ * Queries the geohash ranges covering the circle, then drops the corners outside the radius.
+ * Boxes whose `geohash` has not been filled in yet are not found.
+ */
+export async function findNearbyBoxes(center: LatLng, radiusKm: number): Promise<NearbyBox[]> {
+  const bounds = geohashQueryBounds([center.latitude, center.longitude], radiusKm * 1000);
+  const snapshots = await Promise.all(bounds.map(([start, end]) =>
+    collections.boxes().orderBy('geohash').startAt(start).endAt(end).get()));
+  const boxes = new Map<string, Box>();
+  snapshots.forEach((snapshot) => snapshot.docs.forEach((doc) => boxes.set(doc.id, doc.data())));
+  return [...boxes.values()]
+    .filter((box) => box.isActive)
+    .map((box) => ({ box, distanceKm: distanceKm(center, box.location) }))
+    .filter((nearby) => nearby.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
@@ -0,0 +1,65 @@
+import { OpeningPeriod, OperatingHours, Weekday } from '../models';
+
+/** Date, weekday and time of day of an instant in a time zone. */
+interface LocalTime {
+  /** "YYYY-MM-DD". */
+  date: string;
+  weekday: Weekday;
+  /** "HH:mm". */
+  time: string;
+}
+
+function toLocalTime(instant: Date, timezone: string): LocalTime {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant).map((part) => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: parts.weekday as Weekday,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+/** Date and weekday of the local date before `local`. */
+function previousDay(local: LocalTime): Pick<LocalTime, 'date' | 'weekday'> {
+  const day = new Date(`${local.date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return {
+    date: day.toISOString().slice(0, 10),
+    weekday: day.toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'short' }) as Weekday,
+  };
+}
+
+/** Opening periods that start on the local date of `local`: the date override if any, else the weekly ones. */
+const periodsOn = (hours: OperatingHours, local: Pick<LocalTime, 'date' | 'weekday'>): OpeningPeriod[] =>
+  hours.overrides?.[local.date] ?? hours.weekly[local.weekday] ?? [];
+
+/** True for a period that ends after midnight, on the day after it starts. */
+const crossesMidnight = (period: OpeningPeriod): boolean => period.end < period.start;
+
+/**
+ * Returns the opening period `instant` falls in, or undefined when the box is closed then.
+ * A box without operating hours is always open; the returned period is then 00:00–24:00.
+ * A period that crosses midnight also covers the early hours of the next day, up to its `end`.
+ */
+export function currentOpeningPeriod(
+  hours: OperatingHours | undefined,
+  instant: Date = new Date(),
+): OpeningPeriod | undefined {
+  if (!hours) return { start: '00:00', end: '24:00' };
+  const local = toLocalTime(instant, hours.timezone);
+  return periodsOn(hours, local).find((period) =>
+    period.start <= local.time && (crossesMidnight(period) || local.time < period.end))
+    ?? periodsOn(hours, previousDay(local)).find((period) => crossesMidnight(period) && local.time < period.end);
+}
+
+/** Returns true when a box with `hours` is open at `instant`. */
+export const isOpenAt = (hours: OperatingHours | undefined, instant: Date = new Date()): boolean =>
+  currentOpeningPeriod(hours, instant) !== undefined;
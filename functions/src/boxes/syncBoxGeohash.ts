@@ -0,0 +1,17 @@
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { modifiedBy } from '../audit/modificationStamp';
+import { systemActor } from '../common/actor';
+import { CollectionName, collections } from '../models/collections';
+import { geohashFor } from './nearbyBoxes';
+
+/** Keeps `Box.geohash` in sync with `Box.location` so the box shows up in nearby searches. */
+export const syncBoxGeohash = onDocumentWritten(`${CollectionName.Boxes}/{boxId}`, async (event) => {
+  const after = event.data?.after;
+  const location = after?.get('location');
+  if (!after?.exists || !location) return;
+  const geohash = geohashFor(location);
+  if (after.get('geohash') !== geohash) {
+    await collections.boxes().doc(after.id)
+      .set({ geohash, lastModifiedBy: modifiedBy(systemActor) }, { merge: true });
+  }
+});
@@ -0,0 +1,46 @@
+import * as admin from 'firebase-admin';
+import { AppError } from '../common/errors';
+import { CancellationRule } from '../config/appConfig';
+import { CancellationDetails } from '../models';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * First rule of `rules` that allows cancelling from `status` as `details` describe, or undefined.
+ * Rules with `minHoursBefore` never match when the entity has no scheduled start.
+ */
+export function matchCancellationRule<S extends string>(
+  rules: readonly CancellationRule<S>[],
+  status: S,
+  startsAt: admin.firestore.Timestamp | undefined,
+  details: CancellationDetails,
+): CancellationRule<S> | undefined {
+  const hoursBefore = startsAt ?
+    (startsAt.toMillis() - details.cancellationTimestamp.toMillis()) / HOUR_MS :
+    undefined;
+  return rules.find((rule) =>
+    rule.statuses.includes(status) &&
+    rule.initiators.includes(details.cancelledBy) &&
+    (rule.minHoursBefore === undefined || (hoursBefore !== undefined && hoursBefore >= rule.minHoursBefore)));
+}
+
+/**
+ * Checks a cancellation from `status` against the entity's `rules` and returns `details` with the
+ * refund percentage of the matching rule.
+ * @throws `failed-precondition` when no rule allows the cancellation.
+ */
+export function applyCancellationPolicy<S extends string>(
+  rules: readonly CancellationRule<S>[],
+  status: S,
+  startsAt: admin.firestore.Timestamp | undefined,
+  details: CancellationDetails,
+): CancellationDetails {
+  const rule = matchCancellationRule(rules, status, startsAt, details);
+  if (!rule) {
+    throw new AppError('failed-precondition', 'error.cancellation.notAllowed', {
+      status,
+      cancelledBy: details.cancelledBy,
+    });
+  }
+  return { ...details, refundPercentage: rule.refundPercentage };
+}
@@ -0,0 +1,61 @@
+import { CallableRequest } from 'firebase-functions/v2/https';
+import { collections } from '../models/collections';
+import { UserRole } from '../models';
+import { AppError } from './errors';
+
+/** Role used when the backend itself performs an action (scheduled jobs, triggers). */
+export const SYSTEM_ROLE = 'System';
+
+/** Role of whoever performs an action. */
+export type ActorRole = UserRole | typeof SYSTEM_ROLE;
+
+/** The user (or the system) performing an action. */
+export interface Actor {
+  /** Firebase Auth UID, or "system". */
+  userId: string;
+  /** Role of the actor. */
+  role: ActorRole;
+  /** Email of the actor (optional). */
+  email?: string;
+  /** IP address the request came from (optional). */
+  ipAddress?: string;
+  /** `auth_time` of the caller's sign-in session, from their ID token (optional). */
+  authTime?: number;
+}
+
+/** Actor used for scheduled jobs and triggers. */
+export const systemActor: Actor = { userId: 'system', role: SYSTEM_ROLE };
+
+/** Returns the UID of the authenticated caller, or throws `unauthenticated`. */
+export function requireAuth(request: CallableRequest<unknown>): string {
+  if (!request.auth) {
+    throw new AppError('unauthenticated', 'error.auth.unauthenticated');
+  }
+  return request.auth.uid;
+}
+
+/**
+ * Loads the `User` behind `userId` as an `Actor`.
+ * Unknown and inactive users are rejected with `permission-denied`.
+ */
+export async function loadActor(userId: string, ipAddress?: string, authTime?: number): Promise<Actor> {
+  const user = (await collections.users().doc(userId).get()).data();
+  if (!user) {
+    throw new AppError('permission-denied', 'error.auth.userNotFound');
+  }
+  if (!user.isActive) {
+    throw new AppError('permission-denied', 'error.auth.userInactive');
+  }
+  return {
+    userId,
+    role: user.role,
+    email: user.email || undefined,
+    ipAddress,
+    authTime,
+  };
+}
+
+/** Resolves the caller of a callable function to an `Actor` backed by their `User` document. */
+export async function resolveActor(request: CallableRequest<unknown>): Promise<Actor> {
+  return loadActor(requireAuth(request), request.rawRequest?.ip, request.auth?.token.auth_time);
+}
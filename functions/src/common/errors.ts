@@ -0,0 +1,26 @@
+import { FunctionsErrorCode, HttpsError } from 'firebase-functions/v2/https';
+
+/**
+ * Error thrown by services and callables.
+ * The message is an i18n key (e.g. "error.auth.unauthenticated") and the details always carry a
+ * machine-readable `errorCode`, matching the `ErrorResponse` schema in docs/openapi.yaml.
+ */
+export class AppError extends HttpsError {
+  constructor(code: FunctionsErrorCode, errorKey: string, details?: Record<string, unknown>) {
+    super(code, errorKey, { errorCode: code.toUpperCase().replace(/-/g, '_'), ...details });
+  }
+}
+
+/** Error thrown when data does not match a model or request schema. */
+export class ValidationError extends AppError {
+  /** Name of the schema that failed. */
+  readonly schemaName: string;
+  /** Human-readable list of problems, each prefixed with the offending field path. */
+  readonly issues: string[];
+
+  constructor(schemaName: string, issues: string[], code: FunctionsErrorCode = 'invalid-argument') {
+    super(code, 'error.validation.invalidData', { schemaName, issues });
+    this.schemaName = schemaName;
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,17 @@
+/** A point on Earth in degrees. Both `LocationInput` and Firestore `GeoPoint` fit. */
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+/** Great-circle distance between two points, in kilometres (haversine formula). */
+export function distanceKm(from: LatLng, to: LatLng): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,116 @@
+import * as admin from 'firebase-admin';
+import { CallableRequest, Request } from 'firebase-functions/v2/https';
+import { collections } from '../models/collections';
+import { PermissionKey, UserRole } from '../models';
+import { isMfaVerified, MFA_REQUIRED_ROLES } from '../auth/mfaService';
+import { Actor, loadActor, resolveActor, SYSTEM_ROLE } from './actor';
+import { AppError } from './errors';
+
+const ALL_PERMISSIONS = Object.values(PermissionKey);
+
+/**
+ * Permissions of each role when its `roles/{roleId}` document does not exist.
+ * Also the matrix written by `seedRoles`.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, readonly PermissionKey[]> = {
+  [UserRole.Admin]: ALL_PERMISSIONS,
+  [UserRole.Manager]: ALL_PERMISSIONS.filter((permission) => ![
+    PermissionKey.UserCreate,
+    PermissionKey.UserDelete,
+    PermissionKey.RoleManage,
+    PermissionKey.SystemConfig,
+    PermissionKey.AuditView,
+  ].includes(permission)),
+  [UserRole.Courier]: [
+    PermissionKey.OrderUpdateStatus,
+    PermissionKey.RentalConfirmPickup,
+    PermissionKey.RentalConfirmReturn,
+  ],
+  [UserRole.Customer]: [
+    PermissionKey.OrderCreate,
+    PermissionKey.RentalCreate,
+    PermissionKey.EventCreate,
+  ],
+  [UserRole.EventStaff]: [],
+};
+
+/** Permissions granted to `role`, from its `roles` document or else `DEFAULT_ROLE_PERMISSIONS`. */
+export async function getRolePermissions(role: UserRole): Promise<readonly PermissionKey[]> {
+  const stored = (await collections.roles().doc(role).get()).data();
+  return stored?.permissions ?? DEFAULT_ROLE_PERMISSIONS[role];
+}
+
+/**
+ * Permissions that roles in `MFA_REQUIRED_ROLES` may only use from a sign-in session that passed
+ * an MFA challenge.
+ */
+export const MFA_PROTECTED_PERMISSIONS: readonly PermissionKey[] = [
+  PermissionKey.UserCreate,
+  PermissionKey.UserUpdate,
+  PermissionKey.UserDelete,
+  PermissionKey.RoleManage,
+  PermissionKey.SystemConfig,
+  PermissionKey.AuditView,
+];
+
+/** Returns true when using `permissions` needs the actor to have passed an MFA challenge. */
+const needsMfa = (actor: Actor, permissions: PermissionKey[]): boolean =>
+  MFA_REQUIRED_ROLES.includes(actor.role) &&
+  permissions.some((permission) => MFA_PROTECTED_PERMISSIONS.includes(permission));
+
+/**
+ * Returns true when the actor's role grants every one of `permissions` and, for protected
+ * permissions, MFA was passed. The system actor holds them all.
+ */
+export async function hasPermission(actor: Actor, ...permissions: PermissionKey[]): Promise<boolean> {
+  if (actor.role === SYSTEM_ROLE) return true;
+  const granted = await getRolePermissions(actor.role);
+  if (!permissions.every((permission) => granted.includes(permission))) return false;
+  return !needsMfa(actor, permissions) || isMfaVerified(actor);
+}
+
+/**
+ * Throws `permission-denied` unless the actor's role grants every one of `permissions`.
+ * Admins and managers must also have passed MFA in this session to use `MFA_PROTECTED_PERMISSIONS`.
+ */
+export async function requirePermission(actor: Actor, ...permissions: PermissionKey[]): Promise<void> {
+  if (actor.role === SYSTEM_ROLE) return;
+  const granted = await getRolePermissions(actor.role);
+  const missing = permissions.filter((permission) => !granted.includes(permission));
+  if (missing.length > 0) {
+    throw new AppError('permission-denied', 'error.auth.permissionDenied', { missingPermissions: missing });
+  }
+  if (needsMfa(actor, permissions) && !(await isMfaVerified(actor))) {
+    throw new AppError('permission-denied', 'error.auth.mfaRequired');
+  }
+}
+
+/**
+ * Guard for callable functions: resolves the caller to an active user and checks that their role
+ * grants every one of `permissions`.
+ */
+export async function authorize(request: CallableRequest<unknown>, ...permissions: PermissionKey[]): Promise<Actor> {
+  const actor = await resolveActor(request);
+  await requirePermission(actor, ...permissions);
+  return actor;
+}
+
+/**
+ * Guard for HTTP functions: verifies the Firebase ID token sent as `Authorization: Bearer <token>`,
+ * then applies the same checks as `authorize`.
+ */
+export async function authorizeHttpRequest(request: Request, ...permissions: PermissionKey[]): Promise<Actor> {
+  const token = request.get('Authorization')?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) {
+    throw new AppError('unauthenticated', 'error.auth.unauthenticated');
+  }
+  let decoded: admin.auth.DecodedIdToken;
+  try {
+    decoded = await admin.auth().verifyIdToken(token);
+  } catch {
+    throw new AppError('unauthenticated', 'error.auth.invalidToken');
+  }
+  const actor = await loadActor(decoded.uid, request.ip, decoded.auth_time);
+  await requirePermission(actor, ...permissions);
+  return actor;
+}
@@ -0,0 +1,414 @@
+import { db } from '../models/collections';
+import {
+  CancellationInitiator,
+  EventStatus,
+  NotificationChannel,
+  OrderStatus,
+  RentalBookingStatus,
+} from '../models';
+import {
+  Schema,
+  amount,
+  bool,
+  currencyCode,
+  defineSchema,
+  id,
+  int,
+  listOf,
+  mapOf,
+  nested,
+  num,
+  oneOf,
+  optional,
+  text,
+  validate,
+} from '../models/validation';
+
+/** Settings stored in `appConfig/orderSettings`. */
+export interface OrderSettings {
+  /** Tax rate applied to the discounted subtotal, in basis points (1700 = 17%). */
+  taxRateBasisPoints: number;
+  /** Maximum number of distinct products in one order. */
+  maxItemsPerOrder: number;
+  /** Maximum quantity of a single product in one order. */
+  maxQuantityPerItem: number;
+}
+
+/** Settings stored in `appConfig/tipSettings`. */
+export interface TipSettings {
+  /** Whether tips are accepted at all. */
+  tipEnabled: boolean;
+  /** Tip options offered in the app, as percentages of the subtotal. */
+  tipOptionsPercentage: number[];
+  /** Whether the customer may enter a tip that is not one of the options. */
+  allowCustomTip: boolean;
+}
+
+/** Settings stored in `appConfig/searchSettings`. */
+export interface SearchSettings {
+  /** Radius used when the client does not send one, in kilometres. */
+  defaultRadiusKm: number;
+  /** Largest radius a client may ask for, in kilometres. */
+  maxRadiusKm: number;
+}
+
+/** Settings stored in `appConfig/courierSettings`; amounts are in the currency of the shift's box. */
+export interface CourierSettings {
+  /** Paid to the courier for each order delivered, in the smallest unit. */
+  deliveryFeeSmallestUnit: number;
+  /** Paid to the courier for each rental return confirmed, in the smallest unit. */
+  rentalReturnFeeSmallestUnit: number;
+}
+
+/** Settings stored in `appConfig/dispatchSettings`. */
+export interface DispatchSettings {
+  /** Seconds a courier has to answer an offer before it passes to the next courier. */
+  offerTimeoutSeconds: number;
+  /** Farthest a courier's box may be from the delivery location, in kilometres. */
+  maxDistanceKm: number;
+  /** Distance added to a courier's ranking for each order they are carrying or offered, in kilometres. */
+  loadPenaltyKm: number;
+  /** Most orders one courier carries or is offered at a time. */
+  maxOrdersPerCourier: number;
+}
+
+/** Attempts allowed for one key within a window; going over locks the key out. */
+export interface RateLimitPolicy {
+  maxAttempts: number;
+  windowMinutes: number;
+  lockoutMinutes: number;
+}
+
+/** Settings stored in `appConfig/otpSettings`. */
+export interface OtpSettings {
+  /** Number of digits in a code. */
+  codeLength: number;
+  /** Minutes a code stays valid. */
+  ttlMinutes: number;
+  /** Wrong entries after which a code can no longer be used. */
+  maxFailedAttemptsPerCode: number;
+  sendLimitPerPhone: RateLimitPolicy;
+  sendLimitPerIp: RateLimitPolicy;
+  verifyLimitPerPhone: RateLimitPolicy;
+  verifyLimitPerIp: RateLimitPolicy;
+}
+
+/** Settings stored in `appConfig/mfaSettings`. */
+export interface MfaSettings {
+  /** Issuer shown in authenticator apps. */
+  issuer: string;
+  /** Backup codes issued on enrollment. */
+  backupCodeCount: number;
+  /** Limit on challenge attempts per user. */
+  verifyLimit: RateLimitPolicy;
+}
+
+/** Settings stored in `appConfig/eventSettings`. */
+export interface EventSettings {
+  /** Currency events are priced in. */
+  currencyCode: string;
+  /** Earliest an event can be booked, in days before it starts. */
+  minBookingLeadTimeDays: number;
+  /** Latest an event can be booked, in days before it starts. */
+  maxBookingLeadTimeDays: number;
+  /** Number of events the team can run at the same time. */
+  maxConcurrentEvents: number;
+  /** Guests one event staff member can serve; sets the staff an event needs. */
+  guestsPerStaff: number;
+  /** Price of one event staff member for one hour, in the smallest unit of `currencyCode`. */
+  staffHourlyRateSmallestUnit: number;
+  /** Least an event is charged, in the smallest unit of `currencyCode`; smaller quotes are topped up. */
+  minimumSpendSmallestUnit: number;
+  /** Surcharge on the menu and staffing price per event type, in basis points (1000 = 10%). */
+  eventTypeSurchargeBasisPoints: Record<string, number>;
+  /** Agreement the customer signs before an event is approved (optional). */
+  agreementUrl?: string;
+}
+
+/**
+ * One rule of a cancellation policy: cancelling from one of `statuses` by one of `initiators`, at least
+ * `minHoursBefore` ahead of the start, is allowed and refunds `refundPercentage` of the captured payment.
+ */
+export interface CancellationRule<S extends string = string> {
+  statuses: S[];
+  initiators: CancellationInitiator[];
+  /** Hours ahead of the scheduled pickup or event that the rule needs (optional: any time). */
+  minHoursBefore?: number;
+  refundPercentage: number;
+}
+
+/**
+ * Settings stored in `appConfig/cancellationPolicy`: the rules of each entity, first match wins.
+ * Cancellations that match no rule are refused.
+ */
+export interface CancellationPolicy {
+  orders: CancellationRule<OrderStatus>[];
+  rentalBookings: CancellationRule<RentalBookingStatus>[];
+  eventBookings: CancellationRule<EventStatus>[];
+}
+
+/** Settings stored in `appConfig/vipSettings`. */
+export interface VipSettings {
+  /** Days of spend counted towards a VIP tier. */
+  lookbackDays: number;
+}
+
+/** Settings stored in `appConfig/reportSettings`. */
+export interface ReportSettings {
+  /** Time zone that report days are measured in. */
+  timeZone: string;
+  /** Most days one report query or export may cover. */
+  maxRangeDays: number;
+}
+
+/** Settings stored in `appConfig/privacySettings`. */
+export interface PrivacySettings {
+  /** Limit on `exportMyData` calls per user. */
+  exportLimit: RateLimitPolicy;
+}
+
+/** Settings stored in `appConfig/notificationSettings`, used for users without saved preferences. */
+export interface NotificationSettings {
+  /** Locale notifications are written in. */
+  defaultLocale: string;
+  /** Channels notifications are sent on besides the in-app list. */
+  defaultChannels: NotificationChannel[];
+}
+
+/** All `appConfig` documents with their types. */
+export interface AppConfig {
+  orderSettings: OrderSettings;
+  tipSettings: TipSettings;
+  searchSettings: SearchSettings;
+  courierSettings: CourierSettings;
+  dispatchSettings: DispatchSettings;
+  otpSettings: OtpSettings;
+  mfaSettings: MfaSettings;
+  notificationSettings: NotificationSettings;
+  vipSettings: VipSettings;
+  reportSettings: ReportSettings;
+  privacySettings: PrivacySettings;
+  eventSettings: EventSettings;
+  cancellationPolicy: CancellationPolicy;
+}
+
+/** Defaults used for any document or field missing from Firestore. */
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  orderSettings: {
+    taxRateBasisPoints: 1700,
+    maxItemsPerOrder: 50,
+    maxQuantityPerItem: 20,
+  },
+  tipSettings: {
+    tipEnabled: true,
+    tipOptionsPercentage: [10, 12, 15],
+    allowCustomTip: true,
+  },
+  searchSettings: {
+    defaultRadiusKm: 5,
+    maxRadiusKm: 50,
+  },
+  courierSettings: {
+    deliveryFeeSmallestUnit: 1500,
+    rentalReturnFeeSmallestUnit: 500,
+  },
+  dispatchSettings: {
+    offerTimeoutSeconds: 120,
+    maxDistanceKm: 15,
+    loadPenaltyKm: 2,
+    maxOrdersPerCourier: 3,
+  },
+  otpSettings: {
+    codeLength: 6,
+    ttlMinutes: 5,
+    maxFailedAttemptsPerCode: 5,
+    sendLimitPerPhone: { maxAttempts: 3, windowMinutes: 15, lockoutMinutes: 60 },
+    sendLimitPerIp: { maxAttempts: 10, windowMinutes: 60, lockoutMinutes: 60 },
+    verifyLimitPerPhone: { maxAttempts: 10, windowMinutes: 60, lockoutMinutes: 60 },
+    verifyLimitPerIp: { maxAttempts: 30, windowMinutes: 60, lockoutMinutes: 60 },
+  },
+  mfaSettings: {
+    issuer: 'UC',
+    backupCodeCount: 10,
+    verifyLimit: { maxAttempts: 5, windowMinutes: 15, lockoutMinutes: 30 },
+  },
+  notificationSettings: {
+    defaultLocale: 'en',
+    defaultChannels: [NotificationChannel.Push],
+  },
+  vipSettings: {
+    lookbackDays: 365,
+  },
+  reportSettings: {
+    timeZone: 'Asia/Jerusalem',
+    maxRangeDays: 92,
+  },
+  privacySettings: {
+    exportLimit: { maxAttempts: 3, windowMinutes: 24 * 60, lockoutMinutes: 24 * 60 },
+  },
+  eventSettings: {
+    currencyCode: 'ILS',
+    minBookingLeadTimeDays: 3,
+    maxBookingLeadTimeDays: 365,
+    maxConcurrentEvents: 2,
+    guestsPerStaff: 25,
+    staffHourlyRateSmallestUnit: 8000,
+    minimumSpendSmallestUnit: 200000,
+    eventTypeSurchargeBasisPoints: {},
+  },
+  cancellationPolicy: {
+    orders: [
+      {
+        statuses: [OrderStatus.Pending, OrderStatus.Confirmed],
+        initiators: [CancellationInitiator.Customer],
+        refundPercentage: 100,
+      },
+      {
+        statuses: [OrderStatus.Pending, OrderStatus.Confirmed, OrderStatus.Preparing, OrderStatus.ReadyForPickup],
+        initiators: [CancellationInitiator.Staff, CancellationInitiator.System],
+        refundPercentage: 100,
+      },
+    ],
+    rentalBookings: [
+      {
+        statuses: [RentalBookingStatus.PendingPickup],
+        initiators: [CancellationInitiator.Customer, CancellationInitiator.Staff, CancellationInitiator.System],
+        refundPercentage: 100,
+      },
+    ],
+    eventBookings: [
+      {
+        statuses: [EventStatus.PendingConfirmation, EventStatus.Confirmed],
+        initiators: [CancellationInitiator.Customer],
+        minHoursBefore: 168,
+        refundPercentage: 100,
+      },
+      {
+        statuses: [EventStatus.PendingConfirmation, EventStatus.Confirmed],
+        initiators: [CancellationInitiator.Customer],
+        minHoursBefore: 72,
+        refundPercentage: 50,
+      },
+      {
+        statuses: [EventStatus.PendingConfirmation, EventStatus.Confirmed],
+        initiators: [CancellationInitiator.Customer],
+        refundPercentage: 0,
+      },
+      {
+        statuses: [EventStatus.PendingConfirmation, EventStatus.Confirmed, EventStatus.Preparation],
+        initiators: [CancellationInitiator.Staff, CancellationInitiator.System],
+        refundPercentage: 100,
+      },
+    ],
+  },
+};
+
+const rateLimitPolicySchema = defineSchema<RateLimitPolicy>('RateLimitPolicy', {
+  maxAttempts: int({ positive: true }),
+  windowMinutes: num({ positive: true }),
+  lockoutMinutes: num({ min: 0 }),
+});
+
+const cancellationRuleSchema = <S extends string>(statuses: Record<string, S>) =>
+  defineSchema<CancellationRule<S>>('CancellationRule', {
+    statuses: listOf(oneOf(statuses), { minLength: 1 }),
+    initiators: listOf(oneOf(CancellationInitiator), { minLength: 1 }),
+    minHoursBefore: optional(num({ min: 0 })),
+    refundPercentage: num({ min: 0, max: 100 }),
+  });
+
+/** Schema of each `appConfig` document, checked after the defaults are filled in. */
+const APP_CONFIG_SCHEMAS: { [K in keyof AppConfig]: Schema<AppConfig[K]> } = {
+  orderSettings: defineSchema<OrderSettings>('OrderSettings', {
+    taxRateBasisPoints: int({ min: 0, max: 10000 }),
+    maxItemsPerOrder: int({ positive: true }),
+    maxQuantityPerItem: int({ positive: true }),
+  }),
+  tipSettings: defineSchema<TipSettings>('TipSettings', {
+    tipEnabled: bool,
+    tipOptionsPercentage: listOf(num({ positive: true, max: 100 })),
+    allowCustomTip: bool,
+  }),
+  searchSettings: defineSchema<SearchSettings>('SearchSettings', {
+    defaultRadiusKm: num({ positive: true }),
+    maxRadiusKm: num({ positive: true }),
+  }, (settings, issues) => {
+    if (settings.defaultRadiusKm > settings.maxRadiusKm) {
+      issues.push('defaultRadiusKm must not exceed maxRadiusKm');
+    }
+  }),
+  courierSettings: defineSchema<CourierSettings>('CourierSettings', {
+    deliveryFeeSmallestUnit: amount,
+    rentalReturnFeeSmallestUnit: amount,
+  }),
+  dispatchSettings: defineSchema<DispatchSettings>('DispatchSettings', {
+    offerTimeoutSeconds: int({ positive: true }),
+    maxDistanceKm: num({ positive: true }),
+    loadPenaltyKm: num({ min: 0 }),
+    maxOrdersPerCourier: int({ positive: true }),
+  }),
+  otpSettings: defineSchema<OtpSettings>('OtpSettings', {
+    codeLength: int({ min: 4, max: 10 }),
+    ttlMinutes: num({ positive: true }),
+    maxFailedAttemptsPerCode: int({ positive: true }),
+    sendLimitPerPhone: nested(rateLimitPolicySchema),
+    sendLimitPerIp: nested(rateLimitPolicySchema),
+    verifyLimitPerPhone: nested(rateLimitPolicySchema),
+    verifyLimitPerIp: nested(rateLimitPolicySchema),
+  }),
+  mfaSettings: defineSchema<MfaSettings>('MfaSettings', {
+    issuer: id,
+    backupCodeCount: int({ positive: true }),
+    verifyLimit: nested(rateLimitPolicySchema),
+  }),
+  notificationSettings: defineSchema<NotificationSettings>('NotificationSettings', {
+    defaultLocale: id,
+    defaultChannels: listOf(oneOf(NotificationChannel)),
+  }),
+  vipSettings: defineSchema<VipSettings>('VipSettings', {
+    lookbackDays: int({ positive: true }),
+  }),
+  reportSettings: defineSchema<ReportSettings>('ReportSettings', {
+    timeZone: id,
+    maxRangeDays: int({ positive: true }),
+  }, (settings, issues) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: settings.timeZone });
+    } catch {
+      issues.push(`timeZone: unknown time zone "${settings.timeZone}"`);
+    }
+  }),
+  privacySettings: defineSchema<PrivacySettings>('PrivacySettings', {
+    exportLimit: nested(rateLimitPolicySchema),
+  }),
+  eventSettings: defineSchema<EventSettings>('EventSettings', {
+    currencyCode: currencyCode,
+    minBookingLeadTimeDays: int({ min: 0 }),
+    maxBookingLeadTimeDays: int({ min: 0 }),
+    maxConcurrentEvents: int({ positive: true }),
+    guestsPerStaff: int({ positive: true }),
+    staffHourlyRateSmallestUnit: amount,
+    minimumSpendSmallestUnit: amount,
+    eventTypeSurchargeBasisPoints: mapOf(int({ min: 0 })),
+    agreementUrl: optional(text({ minLength: 1 })),
+  }, (settings, issues) => {
+    if (settings.minBookingLeadTimeDays > settings.maxBookingLeadTimeDays) {
+      issues.push('minBookingLeadTimeDays must not exceed maxBookingLeadTimeDays');
+    }
+  }),
+  cancellationPolicy: defineSchema<CancellationPolicy>('CancellationPolicy', {
+    orders: listOf(nested(cancellationRuleSchema(OrderStatus))),
+    rentalBookings: listOf(nested(cancellationRuleSchema(RentalBookingStatus))),
+    eventBookings: listOf(nested(cancellationRuleSchema(EventStatus))),
+  }),
+};
+
+/**
+ * Reads an `appConfig` document, filling missing top-level fields from `DEFAULT_APP_CONFIG`.
+ * Fails with `data-loss` when the stored document does not match its schema.
+ */
+export async function getAppConfig<K extends keyof AppConfig>(docId: K): Promise<AppConfig[K]> {
+  const snapshot = await db().collection('appConfig').doc(docId).get();
+  const schema: Schema<AppConfig[K]> = APP_CONFIG_SCHEMAS[docId];
+  return validate(schema, { ...DEFAULT_APP_CONFIG[docId], ...snapshot.data() }, { errorCode: 'data-loss' });
+}
@@ -0,0 +1,58 @@
+import * as admin from 'firebase-admin';
+import { logger } from 'firebase-functions/v2';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { systemActor } from '../common/actor';
+import { CollectionName, collections } from '../models/collections';
+import { DispatchStatus, Order } from '../models';
+import {
+  DISPATCH_STATUSES,
+  isDispatchable,
+  loadCourierPool,
+  offerDeliveryOrder,
+  releaseDeliveryOffer,
+} from './dispatchService';
+
+/** Offers a delivery order to a courier as soon as it is placed (or first becomes dispatchable). */
+export const dispatchNewDeliveryOrder = onDocumentWritten(`${CollectionName.Orders}/{orderId}`, async (event) => {
+  const order = event.data?.after?.data() as Order | undefined;
+  if (!order || order.dispatch || !isDispatchable(order)) return;
+  await offerDeliveryOrder(event.params.orderId);
+});
+
+/**
+ * Passes offers that were not answered in time to the next courier, and offers unassigned orders
+ * again as couriers start shifts or free up. Couriers and their loads are read once per run, and
+ * orders are handled one after another so each offer sees the loads of the ones before it. Each
+ * order is handled on its own so one failure does not block the rest.
+ */
+export const dispatchDeliveryOrders = onSchedule('every 1 minutes', async () => {
+  const [expired, unassigned] = await Promise.all([
+    collections.orders()
+      .where('orderStatus', 'in', DISPATCH_STATUSES)
+      .where('dispatch.status', '==', DispatchStatus.Offered)
+      .where('dispatch.offerExpiresAt', '<=', admin.firestore.Timestamp.now())
+      .get(),
+    collections.orders()
+      .where('orderStatus', 'in', DISPATCH_STATUSES)
+      .where('dispatch.status', '==', DispatchStatus.Unassigned)
+      .get(),
+  ]);
+  const pool = await loadCourierPool();
+  const tasks = [
+    ...expired.docs.map((doc) => () =>
+      releaseDeliveryOffer(doc.id, doc.data().dispatch!.courierId!, systemActor, true, pool)),
+    ...unassigned.docs.map((doc) => () => offerDeliveryOrder(doc.id, pool)),
+  ];
+  const results: PromiseSettledResult<unknown>[] = [];
+  for (const task of tasks) {
+    results.push(...await Promise.allSettled([task()]));
+  }
+  const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+  failed.forEach((result) => logger.error('Failed to dispatch delivery order', { reason: result.reason }));
+  logger.info('Delivery orders dispatched', {
+    expired: expired.size,
+    unassigned: unassigned.size,
+    failed: failed.length,
+  });
+});
@@ -0,0 +1,269 @@
+import * as admin from 'firebase-admin';
+import { modifiedBy } from '../audit/modificationStamp';
+import { Actor, systemActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { distanceKm } from '../common/geo';
+import { DispatchSettings, getAppConfig } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import {
+  Box,
+  DeliveryDispatch,
+  DispatchStatus,
+  NotificationType,
+  Order,
+  OrderStatus,
+  Shift,
+  ShiftStatus,
+} from '../models';
+import { createNotification } from '../notifications/notificationService';
+import { isDeliveryOrder } from '../orders/orderStateMachine';
+import { getCourierForUpdate, getCurrentShift } from '../shifts/shiftService';
+
+/** Order statuses in which a delivery order can be offered to a courier. */
+export const DISPATCH_STATUSES: readonly OrderStatus[] = [
+  OrderStatus.Pending,
+  OrderStatus.Confirmed,
+  OrderStatus.Preparing,
+  OrderStatus.ReadyForPickup,
+];
+
+/** Statuses of orders that count towards a courier's load. */
+const LOAD_STATUSES = [...DISPATCH_STATUSES, OrderStatus.OutForDelivery];
+
+/** A courier on an open shift who could take an order. */
+export interface CourierCandidate {
+  courierId: string;
+  /** Box the courier's shift started at. */
+  boxId: string;
+  /** Distance from that box to the delivery location. */
+  distanceKm: number;
+  /** Orders the courier is carrying, has accepted or is being offered. */
+  load: number;
+}
+
+/** Returns true when `order` is a delivery order with a location that still needs a courier. */
+export const isDispatchable = (order: Order): boolean =>
+  isDeliveryOrder(order) &&
+  order.deliveryLocation !== undefined &&
+  DISPATCH_STATUSES.includes(order.orderStatus) &&
+  order.dispatch?.status !== DispatchStatus.Accepted;
+
+/**
+ * Couriers who may be offered an order, best first. Couriers too far away, at their order limit or
+ * in `excludedCourierIds` are left out; the rest are ranked by distance plus `loadPenaltyKm` for
+ * each order they already have.
+ */
+export function rankCouriers(
+  candidates: CourierCandidate[],
+  settings: DispatchSettings,
+  excludedCourierIds: readonly string[] = [],
+): CourierCandidate[] {
+  const score = (candidate: CourierCandidate): number => candidate.distanceKm + candidate.load * settings.loadPenaltyKm;
+  return candidates
+    .filter((candidate) => !excludedCourierIds.includes(candidate.courierId) &&
+      candidate.distanceKm <= settings.maxDistanceKm &&
+      candidate.load < settings.maxOrdersPerCourier)
+    .sort((a, b) => score(a) - score(b) || a.courierId.localeCompare(b.courierId));
+}
+
+/**
+ * Couriers on an open shift, the boxes they started at and the orders each one is handling.
+ * Read once per dispatch run and kept up to date by the offers made and released during it.
+ */
+export interface CourierPool {
+  shifts: Shift[];
+  boxes: Map<string, Box>;
+  /** Orders each courier is carrying, has accepted or is being offered, by courier ID. */
+  ordersByCourier: Map<string, Set<string>>;
+}
+
+/** Reads the couriers who can be offered orders right now. */
+export async function loadCourierPool(): Promise<CourierPool> {
+  const [shifts, activeOrders] = await Promise.all([
+    collections.shifts().where('status', '==', ShiftStatus.Open).get(),
+    collections.orders().where('orderStatus', 'in', LOAD_STATUSES).get(),
+  ]);
+  const boxIds = [...new Set(shifts.docs.map((doc) => doc.data().startBoxId))];
+  const boxSnapshots = boxIds.length > 0 ?
+    await db().getAll(...boxIds.map((boxId) => collections.boxes().doc(boxId))) :
+    [];
+  const boxes = new Map<string, Box>(boxSnapshots
+    .filter((snapshot) => snapshot.exists)
+    .map((snapshot) => [snapshot.id, snapshot.data() as Box]));
+
+  const ordersByCourier = new Map<string, Set<string>>();
+  for (const doc of activeOrders.docs) {
+    const order = doc.data();
+    const courierId = order.dispatch?.courierId ?? order.courierId;
+    if (courierId) setCourierOrder(ordersByCourier, courierId, order.orderId, true);
+  }
+  return { shifts: shifts.docs.map((doc) => doc.data()), boxes, ordersByCourier };
+}
+
+/** Adds `orderId` to the orders of `courierId`, or removes it. */
+function setCourierOrder(
+  ordersByCourier: Map<string, Set<string>>,
+  courierId: string,
+  orderId: string,
+  handling: boolean,
+): void {
+  const orders = ordersByCourier.get(courierId) ?? new Set<string>();
+  if (handling) orders.add(orderId);
+  else orders.delete(orderId);
+  ordersByCourier.set(courierId, orders);
+}
+
+/** Couriers of `pool`, with their distance to the delivery location of `order` and their load. */
+function candidatesFor(order: Order, pool: CourierPool): CourierCandidate[] {
+  return pool.shifts.flatMap((shift) => {
+    const box = pool.boxes.get(shift.startBoxId);
+    if (!box) return [];
+    const orders = pool.ordersByCourier.get(shift.courierId);
+    return [{
+      courierId: shift.courierId,
+      boxId: shift.startBoxId,
+      distanceKm: distanceKm(box.location, order.deliveryLocation!),
+      load: (orders?.size ?? 0) - (orders?.has(order.orderId) ? 1 : 0),
+    }];
+  });
+}
+
+/**
+ * Offers a delivery order to the best ranked courier who has not declined it and notifies them.
+ * Couriers who let an earlier offer expire are only offered it again when nobody else can take it,
+ * which starts a new round for them. When no courier is available the order is left
+ * `Unassigned`, to be offered again by `dispatchDeliveryOrders`. Does nothing for orders that no
+ * longer need a courier or that were offered by someone else in the meantime. Pass the `pool` of a
+ * dispatch run to share its reads; it is updated with the offer made.
+ * @return The new dispatch state, or undefined when nothing changed.
+ */
+export async function offerDeliveryOrder(
+  orderId: string,
+  pool?: CourierPool,
+): Promise<DeliveryDispatch | undefined> {
+  const ref = collections.orders().doc(orderId);
+  const order = (await ref.get()).data();
+  if (!order || !isDispatchable(order) || order.dispatch?.status === DispatchStatus.Offered) return undefined;
+  const settings = await getAppConfig('dispatchSettings');
+  const declinedCourierIds = order.dispatch?.declinedCourierIds ?? [];
+  let expiredCourierIds = order.dispatch?.expiredCourierIds ?? [];
+  const couriers = pool ?? await loadCourierPool();
+  const candidates = candidatesFor(order, couriers);
+  let [chosen] = rankCouriers(candidates, settings, [...declinedCourierIds, ...expiredCourierIds]);
+  if (!chosen && expiredCourierIds.length > 0) {
+    [chosen] = rankCouriers(candidates, settings, declinedCourierIds);
+    expiredCourierIds = [];
+  }
+  if (!chosen && order.dispatch?.status === DispatchStatus.Unassigned) return undefined;
+
+  const offered = await db().runTransaction(async (transaction) => {
+    const latest = (await transaction.get(ref)).data();
+    if (!latest || !isDispatchable(latest) || latest.dispatch?.attempts !== order.dispatch?.attempts) return undefined;
+    const now = admin.firestore.Timestamp.now();
+    const attempts = latest.dispatch?.attempts ?? 0;
+    const dispatch: DeliveryDispatch = chosen ?
+      {
+        status: DispatchStatus.Offered,
+        courierId: chosen.courierId,
+        offeredAt: now,
+        offerExpiresAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + settings.offerTimeoutSeconds * 1000),
+        declinedCourierIds,
+        expiredCourierIds,
+        attempts: attempts + 1,
+      } :
+      { status: DispatchStatus.Unassigned, declinedCourierIds, expiredCourierIds, attempts };
+    transaction.set(ref, { ...latest, dispatch, updatedAt: now, lastModifiedBy: modifiedBy(systemActor, now) });
+    if (chosen) {
+      createNotification(transaction, {
+        userId: chosen.courierId,
+        template: 'dispatch.offered',
+        params: { distanceKm: chosen.distanceKm.toFixed(1) },
+        type: NotificationType.OrderUpdate,
+        relatedEntityId: orderId,
+        relatedEntityType: 'Order',
+      });
+    }
+    return dispatch;
+  });
+  if (offered?.courierId) setCourierOrder(couriers.ordersByCourier, offered.courierId, orderId, true);
+  return offered;
+}
+
+/** Reads an order offered to `courierId`, throwing unless the offer is still open. */
+async function getOfferedOrder(
+  transaction: admin.firestore.Transaction,
+  orderId: string,
+  courierId: string,
+): Promise<Order> {
+  const order = (await transaction.get(collections.orders().doc(orderId))).data();
+  if (!order) {
+    throw new AppError('not-found', 'error.order.notFound');
+  }
+  if (!isDispatchable(order) || order.dispatch?.status !== DispatchStatus.Offered ||
+    order.dispatch.courierId !== courierId) {
+    throw new AppError('failed-precondition', 'error.dispatch.notOffered');
+  }
+  return order;
+}
+
+/**
+ * Accepts an offer on behalf of the courier behind `actor`, who must be on an open shift, and
+ * records them as the order's courier.
+ * @return The updated order.
+ */
+export async function acceptDeliveryOffer(orderId: string, actor: Actor): Promise<Order> {
+  return db().runTransaction(async (transaction) => {
+    const courier = await getCourierForUpdate(transaction, actor);
+    const shift = await getCurrentShift(transaction, courier);
+    const order = await getOfferedOrder(transaction, orderId, actor.userId);
+    const now = admin.firestore.Timestamp.now();
+    if (order.dispatch!.offerExpiresAt && order.dispatch!.offerExpiresAt.toMillis() <= now.toMillis()) {
+      throw new AppError('failed-precondition', 'error.dispatch.offerExpired');
+    }
+    if (shift.status !== ShiftStatus.Open) {
+      throw new AppError('failed-precondition', 'error.dispatch.courierOnBreak');
+    }
+    const accepted: Order = {
+      ...order,
+      courierId: actor.userId,
+      dispatch: { ...order.dispatch!, status: DispatchStatus.Accepted, acceptedAt: now },
+      updatedAt: now,
+      lastModifiedBy: modifiedBy(actor, now),
+    };
+    transaction.set(collections.orders().doc(orderId), accepted);
+    return accepted;
+  });
+}
+
+/**
+ * Takes an offer back from `courierId`, who declined it or, when `expired`, let it run out, and
+ * offers the order to the next courier. `actor` is the courier when they decline and the system on
+ * expiry. A decline is final, while an expired offer only passes the courier over for the current
+ * round. `pool` is shared with `offerDeliveryOrder`.
+ */
+export async function releaseDeliveryOffer(
+  orderId: string,
+  courierId: string,
+  actor: Actor,
+  expired: boolean,
+  pool?: CourierPool,
+): Promise<void> {
+  await db().runTransaction(async (transaction) => {
+    const order = await getOfferedOrder(transaction, orderId, courierId);
+    const { declinedCourierIds, expiredCourierIds = [], attempts } = order.dispatch!;
+    const now = admin.firestore.Timestamp.now();
+    transaction.set(collections.orders().doc(orderId), {
+      ...order,
+      dispatch: {
+        status: DispatchStatus.Unassigned,
+        declinedCourierIds: expired ? declinedCourierIds : [...declinedCourierIds, courierId],
+        expiredCourierIds: expired ? [...expiredCourierIds, courierId] : expiredCourierIds,
+        attempts,
+      },
+      updatedAt: now,
+      lastModifiedBy: modifiedBy(actor, now),
+    });
+  });
+  if (pool) setCourierOrder(pool.ordersByCourier, courierId, orderId, false);
+  await offerDeliveryOrder(orderId, pool);
+}
@@ -0,0 +1,30 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { authorize } from '../common/permissions';
+import { PermissionKey } from '../models';
+import { bool, defineSchema, id, validate } from '../models/validation';
+import { acceptDeliveryOffer, releaseDeliveryOffer } from './dispatchService';
+
+interface RespondToDispatchOfferRequest {
+  orderId: string;
+  accept: boolean;
+}
+
+const requestSchema = defineSchema<RespondToDispatchOfferRequest>('RespondToDispatchOfferRequest', {
+  orderId: id,
+  accept: bool,
+});
+
+/**
+ * Accepts or declines a delivery offered to the calling courier. Accepting makes them the order's
+ * courier; declining passes the order to the next courier. Requires `order:updateStatus`.
+ */
+export const respondToDispatchOffer = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.OrderUpdateStatus);
+  const { orderId, accept } = validate(requestSchema, request.data);
+  if (accept) {
+    await acceptDeliveryOffer(orderId, actor);
+  } else {
+    await releaseDeliveryOffer(orderId, actor.userId, actor, false);
+  }
+  return { success: true, accepted: accept };
+});
@@ -0,0 +1,71 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { getAppConfig } from '../config/appConfig';
+import { CancellationInitiator, EventStatus, PaymentStatus, PermissionKey } from '../models';
+import { defineSchema, id, oneOf, optional, text, validate } from '../models/validation';
+import { eventWindow, findOverlappingEvents } from './eventAvailability';
+import { transitionEvent } from './eventLifecycle';
+
+enum ApprovalStatus {
+  Approved = 'Approved',
+  Rejected = 'Rejected',
+}
+
+interface ApproveEventBookingRequest {
+  bookingId: string;
+  approvalStatus: ApprovalStatus;
+  adminNotes?: string;
+}
+
+const requestSchema = defineSchema<ApproveEventBookingRequest>('ApproveEventBookingRequest', {
+  bookingId: id,
+  approvalStatus: oneOf(ApprovalStatus),
+  adminNotes: optional(text({ maxLength: 1000 })),
+});
+
+const CONFIRMED_STATUSES = [EventStatus.Confirmed, EventStatus.Preparation, EventStatus.Active];
+
+/**
+ * Approves an event request, confirming it and capturing its payment hold, or rejects it.
+ * Approval needs the agreement signed, the price held when there is one, and a slot not already
+ * taken by `maxConcurrentEvents` confirmed events, read in the confirming transaction.
+ * `adminNotes` is recorded as the rejection reason.
+ */
+export const approveEventBooking = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.EventManage);
+  const input = validate(requestSchema, request.data);
+
+  if (input.approvalStatus === ApprovalStatus.Rejected) {
+    await transitionEvent(input.bookingId, EventStatus.Cancelled, actor, (_, now) => ({
+      cancellationDetails: {
+        cancelledBy: CancellationInitiator.Staff,
+        cancellationReason: input.adminNotes ?? 'rejected',
+        cancellationTimestamp: now,
+        refundProcessed: false,
+      },
+    }));
+    return { success: true };
+  }
+
+  const settings = await getAppConfig('eventSettings');
+  await transitionEvent(input.bookingId, EventStatus.Confirmed, actor, async (event, _, transaction) => {
+    if (!event.agreement?.signedByCustomer) {
+      throw new AppError('failed-precondition', 'error.event.agreementNotSigned');
+    }
+    if (event.totalPriceSmallestUnit > 0 && event.paymentStatus !== PaymentStatus.Authorized) {
+      throw new AppError('failed-precondition', 'error.payment.notAuthorized');
+    }
+    const overlapping = await findOverlappingEvents(
+      eventWindow(event.eventDate, event.durationHours),
+      event.eventBookingId,
+      transaction,
+    );
+    const confirmed = overlapping.filter((other) => CONFIRMED_STATUSES.includes(other.eventStatus));
+    if (confirmed.length >= settings.maxConcurrentEvents) {
+      throw new AppError('failed-precondition', 'error.event.slotUnavailable');
+    }
+    return {};
+  });
+  return { success: true };
+});
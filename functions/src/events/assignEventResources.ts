@@ -0,0 +1,73 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { collections, db } from '../models/collections';
+import { EventBooking, EventStatus, NotificationType, PermissionKey } from '../models';
+import { defineSchema, id, listOf, validate } from '../models/validation';
+import { createNotification } from '../notifications/notificationService';
+import { eventWindow, findFreeEventStaff, findOverlappingEvents } from './eventAvailability';
+import { getEventBooking } from './eventLifecycle';
+
+interface AssignEventResourcesRequest {
+  bookingId: string;
+  staffIds: string[];
+}
+
+const requestSchema = defineSchema<AssignEventResourcesRequest>('AssignEventResourcesRequest', {
+  bookingId: id,
+  staffIds: listOf(id, { maxLength: 100 }),
+});
+
+/** Statuses in which the event team can still be changed. */
+const STAFFABLE_STATUSES = [EventStatus.PendingConfirmation, EventStatus.Confirmed, EventStatus.Preparation];
+
+/**
+ * Replaces the staff assigned to an event. Every staff member must be an active `EventStaff` user
+ * who is not working another event at the same time, checked in the transaction that assigns
+ * them so that nobody is booked for two events at once; newly assigned staff are notified.
+ */
+export const assignEventResources = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.EventManage);
+  const input = validate(requestSchema, request.data);
+  const staffIds = [...new Set(input.staffIds)];
+
+  const ref = collections.eventBookings().doc(input.bookingId);
+  await db().runTransaction(async (transaction) => {
+    const current = await getEventBooking(input.bookingId, transaction);
+    if (!STAFFABLE_STATUSES.includes(current.eventStatus)) {
+      throw new AppError('failed-precondition', 'error.event.invalidStatus', { status: current.eventStatus });
+    }
+    const overlapping = await findOverlappingEvents(
+      eventWindow(current.eventDate, current.durationHours),
+      current.eventBookingId,
+      transaction,
+    );
+    const freeStaff = await findFreeEventStaff(overlapping, transaction);
+    const unavailable = staffIds.filter((staffId) => !freeStaff.includes(staffId));
+    if (unavailable.length > 0) {
+      throw new AppError('failed-precondition', 'error.event.staffUnavailable', { staffIds: unavailable });
+    }
+    const now = admin.firestore.Timestamp.now();
+    const next: EventBooking = {
+      ...current,
+      assignedStaffIds: staffIds,
+      updatedAt: now,
+      lastModifiedBy: modifiedBy(actor, now),
+    };
+    transaction.set(ref, next);
+    const previous = current.assignedStaffIds ?? [];
+    for (const staffId of staffIds.filter((staffId) => !previous.includes(staffId))) {
+      createNotification(transaction, {
+        userId: staffId,
+        template: 'event.staffAssigned',
+        params: { eventDate: current.eventDate.toDate().toISOString() },
+        type: NotificationType.EventUpdate,
+        relatedEntityId: current.eventBookingId,
+        relatedEntityType: 'EventBooking',
+      });
+    }
+  });
+  return { success: true, assignedStaffIds: staffIds };
+});
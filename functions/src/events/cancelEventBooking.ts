@@ -0,0 +1,35 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { resolveActor } from '../common/actor';
+import { EventStatus } from '../models';
+import { defineSchema, id, text, validate } from '../models/validation';
+import { cancellationInitiatorFor } from '../orders/orderStateMachine';
+import { transitionEvent } from './eventLifecycle';
+
+interface CancelEventBookingRequest {
+  bookingId: string;
+  reason: string;
+}
+
+const requestSchema = defineSchema<CancelEventBookingRequest>('CancelEventBookingRequest', {
+  bookingId: id,
+  reason: text({ minLength: 1, maxLength: 500 }),
+});
+
+/**
+ * Cancels an event on behalf of its customer or the events team (see `EVENT_TRANSITIONS`).
+ * An uncaptured hold is released; a captured payment is refunded by the `eventBookings` rules of
+ * `appConfig/cancellationPolicy`, which also refuse late cancellations.
+ */
+export const cancelEventBooking = onCall(async (request) => {
+  const actor = await resolveActor(request);
+  const { bookingId, reason } = validate(requestSchema, request.data);
+  await transitionEvent(bookingId, EventStatus.Cancelled, actor, (_, now) => ({
+    cancellationDetails: {
+      cancelledBy: cancellationInitiatorFor(actor.role),
+      cancellationReason: reason,
+      cancellationTimestamp: now,
+      refundProcessed: false,
+    },
+  }));
+  return { success: true };
+});
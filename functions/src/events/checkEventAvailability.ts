@@ -0,0 +1,33 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { requireAuth } from '../common/actor';
+import { getAppConfig } from '../config/appConfig';
+import { dateTime, defineSchema, int, num, toTimestamp, validate } from '../models/validation';
+import { eventWindow, findUnavailabilityReason } from './eventAvailability';
+
+interface CheckEventAvailabilityRequest {
+  eventDate: string;
+  durationHours: number;
+  numberOfGuests: number;
+}
+
+const requestSchema = defineSchema<CheckEventAvailabilityRequest>('CheckEventAvailabilityRequest', {
+  eventDate: dateTime,
+  durationHours: num({ positive: true, max: 72 }),
+  numberOfGuests: int({ positive: true }),
+});
+
+/**
+ * Tells whether an event can be booked for the given time and guest count: the date must be within
+ * the booking lead time, fewer than `maxConcurrentEvents` may overlap it and enough event staff must
+ * be free. `reason` is the i18n key of the first check that failed.
+ */
+export const checkEventAvailability = onCall(async (request) => {
+  requireAuth(request);
+  const input = validate(requestSchema, request.data);
+  const settings = await getAppConfig('eventSettings');
+  const reason = await findUnavailabilityReason({
+    window: eventWindow(toTimestamp(input.eventDate), input.durationHours),
+    numberOfGuests: input.numberOfGuests,
+  }, settings);
+  return { success: true, isAvailable: reason === undefined, reason };
+});
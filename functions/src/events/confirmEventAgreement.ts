@@ -0,0 +1,70 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { collections, db } from '../models/collections';
+import { EventBooking, EventStatus, PaymentStatus, PermissionKey } from '../models';
+import { defineSchema, id, optional, validate } from '../models/validation';
+import { authorizeEntityPayment, PayableType } from '../payments/paymentService';
+import { getEventBooking } from './eventLifecycle';
+
+interface ConfirmEventAgreementRequest {
+  bookingId: string;
+  paymentMethodToken?: string;
+}
+
+const requestSchema = defineSchema<ConfirmEventAgreementRequest>('ConfirmEventAgreementRequest', {
+  bookingId: id,
+  paymentMethodToken: optional(id),
+});
+
+/**
+ * Records the customer's signature on the event agreement and holds the event price on their
+ * payment method; the hold is captured when the event is approved.
+ * Can be called again with another payment method after a declined hold.
+ */
+export const confirmEventAgreement = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.EventCreate);
+  const input = validate(requestSchema, request.data);
+  const ref = collections.eventBookings().doc(input.bookingId);
+
+  const event = await db().runTransaction(async (transaction) => {
+    const current = await getEventBooking(input.bookingId, transaction);
+    if (current.customerId !== actor.userId) {
+      throw new AppError('permission-denied', 'error.event.notOwner');
+    }
+    if (current.eventStatus !== EventStatus.PendingConfirmation) {
+      throw new AppError('failed-precondition', 'error.event.notPendingConfirmation');
+    }
+    if (current.totalPriceSmallestUnit > 0 && !input.paymentMethodToken &&
+      current.paymentStatus !== PaymentStatus.Authorized) {
+      throw new AppError('invalid-argument', 'error.payment.methodRequired');
+    }
+    if (current.agreement?.signedByCustomer) return current;
+    const now = admin.firestore.Timestamp.now();
+    const next: EventBooking = {
+      ...current,
+      agreement: { ...current.agreement, signedByCustomer: true, signedTimestamp: now },
+      updatedAt: now,
+      lastModifiedBy: modifiedBy(actor, now),
+    };
+    transaction.set(ref, next);
+    return next;
+  });
+
+  let paymentStatus = event.paymentStatus;
+  if (event.totalPriceSmallestUnit > 0 && paymentStatus !== PaymentStatus.Authorized) {
+    const payment = await authorizeEntityPayment(PayableType.EventBooking, event.eventBookingId,
+      input.paymentMethodToken!);
+    paymentStatus = payment.status;
+    if (payment.status !== PaymentStatus.Authorized) {
+      throw new AppError('failed-precondition', 'error.payment.authorizationFailed', {
+        bookingId: event.eventBookingId,
+        gatewayErrorCode: payment.errorCode,
+      });
+    }
+  }
+
+  return { success: true, bookingId: event.eventBookingId, paymentStatus };
+});
@@ -0,0 +1,80 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { getAppConfig } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import { EventBooking, EventStatus, PaymentStatus, PermissionKey } from '../models';
+import { dateTime, defineSchema, id, int, num, optional, text, toTimestamp, validate } from '../models/validation';
+import { eventWindow, findUnavailabilityReason } from './eventAvailability';
+import { quoteEvent } from './eventPricing';
+
+interface CreateEventBookingRequest {
+  eventType: string;
+  eventDate: string;
+  durationHours: number;
+  location: string;
+  numberOfGuests: number;
+  menuId?: string;
+  specialRequests?: string;
+}
+
+const requestSchema = defineSchema<CreateEventBookingRequest>('CreateEventBookingRequest', {
+  eventType: id,
+  eventDate: dateTime,
+  durationHours: num({ positive: true, max: 72 }),
+  location: text({ minLength: 1, maxLength: 500 }),
+  numberOfGuests: int({ positive: true }),
+  menuId: optional(id),
+  specialRequests: optional(text({ maxLength: 2000 })),
+});
+
+/**
+ * Requests an event. The slot must be available (see `checkEventAvailability`), checked in the
+ * transaction that creates the booking so that two requests cannot take the same slot. The
+ * booking then waits in `PendingConfirmation` until the customer signs the agreement and the
+ * events team approves it. The price is locked in from the same quote `getEventQuote` returns.
+ */
+export const createEventBooking = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.EventCreate);
+  const input = validate(requestSchema, request.data);
+  const eventDate = toTimestamp(input.eventDate);
+  const settings = await getAppConfig('eventSettings');
+  const quote = await quoteEvent(input, settings);
+
+  const ref = collections.eventBookings().doc();
+  const booking = await db().runTransaction(async (transaction) => {
+    const reason = await findUnavailabilityReason({
+      window: eventWindow(eventDate, input.durationHours),
+      numberOfGuests: input.numberOfGuests,
+    }, settings, transaction);
+    if (reason) {
+      throw new AppError('failed-precondition', reason);
+    }
+    const now = admin.firestore.Timestamp.now();
+    const created: EventBooking = {
+      eventBookingId: ref.id,
+      customerId: actor.userId,
+      eventType: input.eventType,
+      eventDate,
+      durationHours: input.durationHours,
+      location: input.location,
+      numberOfGuests: input.numberOfGuests,
+      menuId: input.menuId,
+      specialRequests: input.specialRequests,
+      totalPriceSmallestUnit: quote.totalSmallestUnit,
+      currencyCode: quote.currencyCode,
+      paymentStatus: PaymentStatus.Pending,
+      eventStatus: EventStatus.PendingConfirmation,
+      createdAt: now,
+      updatedAt: now,
+      agreement: { signedByCustomer: false, agreementUrl: settings.agreementUrl },
+      quote,
+      lastModifiedBy: modifiedBy(actor, now),
+    };
+    transaction.set(ref, created);
+    return created;
+  });
+  return { success: true, bookingId: booking.eventBookingId, quote };
+});
@@ -0,0 +1,101 @@
+import * as admin from 'firebase-admin';
+import { EventSettings } from '../config/appConfig';
+import { collections } from '../models/collections';
+import { EventBooking, EventStatus, UserRole } from '../models';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Longest event allowed by the `EventBooking` schema, in hours. */
+const MAX_DURATION_HOURS = 72;
+
+/** Statuses of events that take up the team's time. */
+export const SCHEDULED_EVENT_STATUSES = [
+  EventStatus.PendingConfirmation,
+  EventStatus.Confirmed,
+  EventStatus.Preparation,
+  EventStatus.Active,
+];
+
+/** Start and end of an event. */
+export interface EventWindow {
+  start: admin.firestore.Timestamp;
+  end: admin.firestore.Timestamp;
+}
+
+/** Window an event occupies, from `eventDate` for `durationHours`. */
+export const eventWindow = (eventDate: admin.firestore.Timestamp, durationHours: number): EventWindow => ({
+  start: eventDate,
+  end: admin.firestore.Timestamp.fromMillis(eventDate.toMillis() + durationHours * HOUR_MS),
+});
+
+/** Number of event staff needed for `numberOfGuests`. */
+export const requiredStaffCount = (numberOfGuests: number, settings: EventSettings): number =>
+  Math.ceil(numberOfGuests / settings.guestsPerStaff);
+
+/** Scheduled events overlapping `window`, other than `excludeId`, read through `transaction` when given. */
+export async function findOverlappingEvents(
+  window: EventWindow,
+  excludeId?: string,
+  transaction?: admin.firestore.Transaction,
+): Promise<EventBooking[]> {
+  const earliestStart = admin.firestore.Timestamp.fromMillis(window.start.toMillis() - MAX_DURATION_HOURS * HOUR_MS);
+  const query = collections.eventBookings()
+    .where('eventDate', '>', earliestStart)
+    .where('eventDate', '<', window.end);
+  const snapshot = await (transaction ? transaction.get(query) : query.get());
+  return snapshot.docs
+    .map((doc) => doc.data())
+    .filter((event) => event.eventBookingId !== excludeId && SCHEDULED_EVENT_STATUSES.includes(event.eventStatus))
+    .filter((event) => eventWindow(event.eventDate, event.durationHours).end.toMillis() > window.start.toMillis());
+}
+
+/** Active `EventStaff` users not assigned to any of `overlapping`, read through `transaction` when given. */
+export async function findFreeEventStaff(
+  overlapping: EventBooking[],
+  transaction?: admin.firestore.Transaction,
+): Promise<string[]> {
+  const busy = new Set(overlapping.flatMap((event) => event.assignedStaffIds ?? []));
+  const query = collections.users()
+    .where('role', '==', UserRole.EventStaff)
+    .where('isActive', '==', true);
+  const snapshot = await (transaction ? transaction.get(query) : query.get());
+  return snapshot.docs.map((doc) => doc.id).filter((userId) => !busy.has(userId));
+}
+
+/** Details of an event that is being checked for availability. */
+export interface EventSlotRequest {
+  window: EventWindow;
+  numberOfGuests: number;
+  /** Booking being rescheduled or approved, left out of the conflict check (optional). */
+  excludeId?: string;
+}
+
+/**
+ * Checks booking lead time, concurrent events and staff for an event.
+ * Staff still needed by overlapping events without a full team count as taken. Pass the
+ * `transaction` that creates or confirms the event so that concurrent requests cannot both take
+ * the last slot.
+ * @return The i18n key of the reason the slot is unavailable, or undefined when it is available.
+ */
+export async function findUnavailabilityReason(
+  request: EventSlotRequest,
+  settings: EventSettings,
+  transaction?: admin.firestore.Transaction,
+  now: admin.firestore.Timestamp = admin.firestore.Timestamp.now(),
+): Promise<string | undefined> {
+  const leadTimeMs = request.window.start.toMillis() - now.toMillis();
+  if (leadTimeMs < settings.minBookingLeadTimeDays * DAY_MS) return 'error.event.tooSoon';
+  if (leadTimeMs > settings.maxBookingLeadTimeDays * DAY_MS) return 'error.event.tooFarAhead';
+
+  const overlapping = await findOverlappingEvents(request.window, request.excludeId, transaction);
+  if (overlapping.length >= settings.maxConcurrentEvents) return 'error.event.slotUnavailable';
+
+  const freeStaff = await findFreeEventStaff(overlapping, transaction);
+  const stillNeeded = overlapping.reduce((sum, event) => sum +
+    Math.max(0, requiredStaffCount(event.numberOfGuests, settings) - (event.assignedStaffIds?.length ?? 0)), 0);
+  if (freeStaff.length - stillNeeded < requiredStaffCount(request.numberOfGuests, settings)) {
+    return 'error.event.insufficientStaff';
+  }
+  return undefined;
+}
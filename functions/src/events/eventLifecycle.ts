@@ -0,0 +1,147 @@
+import * as admin from 'firebase-admin';
+import { modifiedBy } from '../audit/modificationStamp';
+import { Actor, ActorRole, SYSTEM_ROLE } from '../common/actor';
+import { applyCancellationPolicy } from '../cancellations/cancellationPolicy';
+import { AppError } from '../common/errors';
+import { getAppConfig } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import { EventBooking, EventStatus, NotificationType, UserRole } from '../models';
+import { createNotification } from '../notifications/notificationService';
+import { NotificationTemplateId } from '../notifications/notificationTemplates';
+import { cancellationInitiatorFor } from '../orders/orderStateMachine';
+import { settleEventPayment } from './eventPayments';
+
+const { Admin, Manager, Customer, EventStaff } = UserRole;
+const ORGANIZERS: readonly ActorRole[] = [Admin, Manager];
+const CREW: readonly ActorRole[] = [Admin, Manager, EventStaff];
+
+/**
+ * Legal event status transitions and the roles allowed to perform each one.
+ * Statuses without outgoing transitions are terminal.
+ */
+export const EVENT_TRANSITIONS: Record<EventStatus, Partial<Record<EventStatus, readonly ActorRole[]>>> = {
+  [EventStatus.PendingConfirmation]: {
+    [EventStatus.Confirmed]: ORGANIZERS,
+    [EventStatus.Cancelled]: [Admin, Manager, Customer, SYSTEM_ROLE],
+  },
+  [EventStatus.Confirmed]: {
+    [EventStatus.Preparation]: CREW,
+    [EventStatus.Cancelled]: [Admin, Manager, Customer, SYSTEM_ROLE],
+  },
+  [EventStatus.Preparation]: {
+    [EventStatus.Active]: CREW,
+    [EventStatus.Cancelled]: [Admin, Manager, SYSTEM_ROLE],
+  },
+  [EventStatus.Active]: {
+    [EventStatus.Completed]: CREW,
+  },
+  [EventStatus.Completed]: {},
+  [EventStatus.Cancelled]: {},
+};
+
+/** Customer-facing notification template for each status an event can move to. */
+const STATUS_NOTIFICATIONS: Partial<Record<EventStatus, NotificationTemplateId>> = {
+  [EventStatus.Confirmed]: 'event.Confirmed',
+  [EventStatus.Preparation]: 'event.Preparation',
+  [EventStatus.Active]: 'event.Active',
+  [EventStatus.Completed]: 'event.Completed',
+  [EventStatus.Cancelled]: 'event.Cancelled',
+};
+
+/** Throws unless `actor` may move `event` to `newStatus`. Event staff may only move events they are assigned to. */
+export function assertEventTransition(event: EventBooking, newStatus: EventStatus, actor: Actor): void {
+  const allowedRoles = EVENT_TRANSITIONS[event.eventStatus][newStatus];
+  if (!allowedRoles) {
+    throw new AppError('failed-precondition', 'error.event.invalidTransition', {
+      from: event.eventStatus,
+      to: newStatus,
+    });
+  }
+  if (!allowedRoles.includes(actor.role)) {
+    throw new AppError('permission-denied', 'error.event.transitionNotAllowedForRole', {
+      from: event.eventStatus,
+      to: newStatus,
+      role: actor.role,
+    });
+  }
+  if (actor.role === Customer && event.customerId !== actor.userId) {
+    throw new AppError('permission-denied', 'error.event.notOwner');
+  }
+  if (actor.role === EventStaff && !(event.assignedStaffIds ?? []).includes(actor.userId)) {
+    throw new AppError('permission-denied', 'error.event.notAssigned');
+  }
+}
+
+/** Reads an event booking, throwing `not-found` when it does not exist. */
+export async function getEventBooking(
+  eventBookingId: string,
+  transaction?: admin.firestore.Transaction,
+): Promise<EventBooking> {
+  const ref = collections.eventBookings().doc(eventBookingId);
+  const event = (await (transaction ? transaction.get(ref) : ref.get())).data();
+  if (!event) {
+    throw new AppError('not-found', 'error.event.notFound');
+  }
+  return event;
+}
+
+/**
+ * Moves an event to `newStatus` in a transaction, notifies the customer, then captures, voids or
+ * refunds the payment as the new status requires. Cancellations must be allowed by the
+ * `eventBookings` rules of `appConfig/cancellationPolicy`, timed against `eventDate`.
+ * `apply` returns the other fields to change; it runs inside the transaction with the current
+ * event, after the transition has been checked, and may read through `transaction`.
+ * @return The updated event.
+ */
+export async function transitionEvent(
+  eventBookingId: string,
+  newStatus: EventStatus,
+  actor: Actor,
+  apply: (
+    event: EventBooking,
+    now: admin.firestore.Timestamp,
+    transaction: admin.firestore.Transaction,
+  ) => Partial<EventBooking> | Promise<Partial<EventBooking>> = () => ({}),
+): Promise<EventBooking> {
+  const ref = collections.eventBookings().doc(eventBookingId);
+  const policy = newStatus === EventStatus.Cancelled ? await getAppConfig('cancellationPolicy') : undefined;
+  const updated = await db().runTransaction(async (transaction) => {
+    const event = await getEventBooking(eventBookingId, transaction);
+    assertEventTransition(event, newStatus, actor);
+    const now = admin.firestore.Timestamp.now();
+    const changes = await apply(event, now, transaction);
+    const next: EventBooking = {
+      ...event,
+      ...changes,
+      eventStatus: newStatus,
+      updatedAt: now,
+      lastModifiedBy: modifiedBy(actor, now),
+    };
+    if (policy) {
+      next.cancellationDetails = applyCancellationPolicy(
+        policy.eventBookings,
+        event.eventStatus,
+        event.eventDate,
+        next.cancellationDetails ?? {
+          cancelledBy: cancellationInitiatorFor(actor.role),
+          cancellationTimestamp: now,
+          refundProcessed: false,
+        },
+      );
+    }
+    transaction.set(ref, next);
+    const template = STATUS_NOTIFICATIONS[newStatus];
+    if (template) {
+      createNotification(transaction, {
+        userId: event.customerId,
+        template,
+        type: NotificationType.EventUpdate,
+        relatedEntityId: eventBookingId,
+        relatedEntityType: 'EventBooking',
+      });
+    }
+    return next;
+  });
+  await settleEventPayment(updated);
+  return updated;
+}
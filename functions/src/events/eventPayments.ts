@@ -0,0 +1,31 @@
+import { logger } from 'firebase-functions/v2';
+import { EventBooking, EventStatus, PaymentStatus } from '../models';
+import {
+  captureEntityPayment,
+  PayableType,
+  refundCancelledEntity,
+  voidEntityPayment,
+} from '../payments/paymentService';
+
+/**
+ * Moves the event's payment along with its status: the hold placed when the agreement was signed
+ * is captured when the event is confirmed. Cancelling releases a hold that was not captured yet and
+ * refunds a captured payment by the share the cancellation policy set.
+ * Gateway failures are logged and do not undo the status change.
+ */
+export async function settleEventPayment(event: EventBooking): Promise<void> {
+  const { eventStatus, paymentStatus } = event;
+  try {
+    if (eventStatus === EventStatus.Confirmed &&
+      [PaymentStatus.Authorized, PaymentStatus.CaptureFailed].includes(paymentStatus)) {
+      await captureEntityPayment(PayableType.EventBooking, event.eventBookingId);
+    } else if (eventStatus === EventStatus.Cancelled) {
+      if ([PaymentStatus.Authorized, PaymentStatus.VoidFailed].includes(paymentStatus)) {
+        await voidEntityPayment(PayableType.EventBooking, event.eventBookingId);
+      }
+      await refundCancelledEntity(PayableType.EventBooking, event.eventBookingId);
+    }
+  } catch (error) {
+    logger.error('Failed to settle event payment', { eventBookingId: event.eventBookingId, eventStatus, error });
+  }
+}
@@ -0,0 +1,127 @@
+import { AppError } from '../common/errors';
+import { EventSettings } from '../config/appConfig';
+import { collections } from '../models/collections';
+import { EventQuote, EventQuoteLine, EventQuoteLineType, Menu, Product } from '../models';
+import { requiredStaffCount } from './eventAvailability';
+
+/** What an event quote is computed from. */
+export interface EventQuoteRequest {
+  eventType: string;
+  durationHours: number;
+  numberOfGuests: number;
+  menuId?: string;
+}
+
+/** Everything needed to price an event. */
+export interface EventPricingInput extends EventQuoteRequest {
+  /** The requested menu with its products, keyed by product ID (optional). */
+  menu?: { menu: Menu; products: Map<string, Product> };
+  staffCount: number;
+  settings: EventSettings;
+}
+
+/** Prices every product of the menu once per guest, rejecting products that can't be served. */
+function menuLines(input: EventPricingInput): EventQuoteLine[] {
+  if (!input.menu) return [];
+  const { menu, products } = input.menu;
+  return menu.productIds.map((productId) => {
+    const product = products.get(productId);
+    if (!product || !product.isActive) {
+      throw new AppError('failed-precondition', 'error.event.productUnavailable', { productId });
+    }
+    if (product.currencyCode !== input.settings.currencyCode) {
+      throw new AppError('failed-precondition', 'error.event.mixedCurrencies', {
+        productId,
+        productCurrency: product.currencyCode,
+        eventCurrency: input.settings.currencyCode,
+      });
+    }
+    return {
+      type: EventQuoteLineType.MenuItem,
+      description: product.name,
+      productId,
+      quantity: input.numberOfGuests,
+      unitPriceSmallestUnit: product.priceSmallestUnit,
+      totalSmallestUnit: product.priceSmallestUnit * input.numberOfGuests,
+    };
+  });
+}
+
+/**
+ * Itemized event price in `settings.currencyCode`: the menu per guest, staff hours at
+ * `staffHourlyRateSmallestUnit`, the event type's surcharge on both, and a top-up to
+ * `minimumSpendSmallestUnit` when the rest comes to less.
+ */
+export function calculateEventQuote(input: EventPricingInput): EventQuote {
+  const { settings } = input;
+  const lines = menuLines(input);
+
+  const staffHours = input.staffCount * input.durationHours;
+  if (staffHours > 0) {
+    lines.push({
+      type: EventQuoteLineType.Staffing,
+      description: `${input.staffCount} staff for ${input.durationHours}h`,
+      quantity: staffHours,
+      unitPriceSmallestUnit: settings.staffHourlyRateSmallestUnit,
+      totalSmallestUnit: Math.round(staffHours * settings.staffHourlyRateSmallestUnit),
+    });
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.totalSmallestUnit, 0);
+  const surchargeBasisPoints = settings.eventTypeSurchargeBasisPoints[input.eventType] ?? 0;
+  const surcharge = Math.round(subtotal * surchargeBasisPoints / 10000);
+  if (surcharge > 0) {
+    lines.push({
+      type: EventQuoteLineType.Surcharge,
+      description: `${input.eventType} surcharge`,
+      quantity: 1,
+      unitPriceSmallestUnit: surcharge,
+      totalSmallestUnit: surcharge,
+    });
+  }
+
+  const topUp = settings.minimumSpendSmallestUnit - (subtotal + surcharge);
+  if (topUp > 0) {
+    lines.push({
+      type: EventQuoteLineType.MinimumSpend,
+      description: 'Minimum spend',
+      quantity: 1,
+      unitPriceSmallestUnit: topUp,
+      totalSmallestUnit: topUp,
+    });
+  }
+
+  return {
+    lines,
+    currencyCode: settings.currencyCode,
+    totalSmallestUnit: lines.reduce((sum, line) => sum + line.totalSmallestUnit, 0),
+  };
+}
+
+/** Reads an active menu and its products. */
+async function getMenuWithProducts(menuId: string): Promise<{ menu: Menu; products: Map<string, Product> }> {
+  const menu = (await collections.menus().doc(menuId).get()).data();
+  if (!menu || !menu.isActive) {
+    throw new AppError('failed-precondition', 'error.menu.unavailable', { menuId });
+  }
+  const snapshots = await Promise.all(
+    menu.productIds.map((productId) => collections.products().doc(productId).get()),
+  );
+  const products = new Map(snapshots
+    .filter((snapshot) => snapshot.exists)
+    .map((snapshot) => [snapshot.id, snapshot.data()!]));
+  return { menu, products };
+}
+
+/**
+ * Quotes an event from the catalog. Staffing is priced for the team the guest count needs, which
+ * is the team an event must have assigned before preparation starts.
+ */
+export async function quoteEvent(request: EventQuoteRequest, settings: EventSettings): Promise<EventQuote> {
+  return calculateEventQuote({
+    ...request,
+    menu: request.menuId ? await getMenuWithProducts(request.menuId) : undefined,
+    staffCount: requiredStaffCount(request.numberOfGuests, settings),
+    settings,
+  });
+}
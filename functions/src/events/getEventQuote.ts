@@ -0,0 +1,23 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { requireAuth } from '../common/actor';
+import { getAppConfig } from '../config/appConfig';
+import { defineSchema, id, int, num, optional, validate } from '../models/validation';
+import { EventQuoteRequest, quoteEvent } from './eventPricing';
+
+const requestSchema = defineSchema<EventQuoteRequest>('GetEventQuoteRequest', {
+  eventType: id,
+  durationHours: num({ positive: true, max: 72 }),
+  numberOfGuests: int({ positive: true }),
+  menuId: optional(id),
+});
+
+/**
+ * Itemized price of an event, computed the same way `createEventBooking` prices the booking, so
+ * the app and the events team see the same number.
+ */
+export const getEventQuote = onCall(async (request) => {
+  requireAuth(request);
+  const input = validate(requestSchema, request.data);
+  const quote = await quoteEvent(input, await getAppConfig('eventSettings'));
+  return { success: true, quote };
+});
@@ -0,0 +1,41 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { resolveActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { getAppConfig } from '../config/appConfig';
+import { EventStatus } from '../models';
+import { defineSchema, id, oneOf, validate } from '../models/validation';
+import { requiredStaffCount } from './eventAvailability';
+import { transitionEvent } from './eventLifecycle';
+
+/** Statuses set through this function; confirmation and cancellation have their own. */
+const OPERATIONAL_STATUSES = [EventStatus.Preparation, EventStatus.Active, EventStatus.Completed] as const;
+
+interface UpdateEventStatusRequest {
+  bookingId: string;
+  newStatus: typeof OPERATIONAL_STATUSES[number];
+}
+
+const requestSchema = defineSchema<UpdateEventStatusRequest>('UpdateEventStatusRequest', {
+  bookingId: id,
+  newStatus: oneOf(OPERATIONAL_STATUSES),
+});
+
+/**
+ * Moves a confirmed event through preparation to completion (see `EVENT_TRANSITIONS`).
+ * Event staff may only update events they are assigned to. Preparation cannot start before the
+ * event has the staff its guest count needs.
+ */
+export const updateEventStatus = onCall(async (request) => {
+  const actor = await resolveActor(request);
+  const { bookingId, newStatus } = validate(requestSchema, request.data);
+  const settings = await getAppConfig('eventSettings');
+  await transitionEvent(bookingId, newStatus, actor, (event) => {
+    const required = requiredStaffCount(event.numberOfGuests, settings);
+    const assigned = event.assignedStaffIds?.length ?? 0;
+    if (newStatus === EventStatus.Preparation && assigned < required) {
+      throw new AppError('failed-precondition', 'error.event.insufficientStaff', { required, assigned });
+    }
+    return {};
+  });
+  return { success: true };
+});
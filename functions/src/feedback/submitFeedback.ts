@@ -0,0 +1,134 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { resolveActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { collections, db } from '../models/collections';
+import {
+  EventStatus,
+  FeedbackEntityType,
+  OrderStatus,
+  RentalBookingStatus,
+  UserFeedback,
+  UserRole,
+} from '../models';
+import { defineSchema, id, int, listOf, oneOf, optional, text, validate } from '../models/validation';
+
+interface SubmitFeedbackRequest {
+  entityType: FeedbackEntityType;
+  entityId: string;
+  rating: number;
+  comments?: string;
+  tags?: string[];
+  courierRating?: number;
+}
+
+const requestSchema = defineSchema<SubmitFeedbackRequest>('SubmitFeedbackRequest', {
+  entityType: oneOf(FeedbackEntityType),
+  entityId: id,
+  rating: int({ min: 1, max: 5 }),
+  comments: optional(text({ maxLength: 2000 })),
+  tags: optional(listOf(text({ minLength: 1, maxLength: 50 }), { maxLength: 10 })),
+  courierRating: optional(int({ min: 1, max: 5 })),
+});
+
+/** The parts of a rated entity that feedback depends on. */
+interface RatedEntity {
+  customerId: string;
+  completed: boolean;
+  /** Courier who delivered the order or took back the rental. */
+  courierId?: string;
+}
+
+/** Reads the entity being rated in `transaction`. */
+async function getRatedEntity(
+  transaction: admin.firestore.Transaction,
+  entityType: FeedbackEntityType,
+  entityId: string,
+): Promise<RatedEntity | undefined> {
+  switch (entityType) {
+  case FeedbackEntityType.Order: {
+    const order = (await transaction.get(collections.orders().doc(entityId))).data();
+    return order && {
+      customerId: order.customerId,
+      completed: order.orderStatus === OrderStatus.Delivered,
+      courierId: order.courierId,
+    };
+  }
+  case FeedbackEntityType.RentalBooking: {
+    const booking = (await transaction.get(collections.rentalBookings().doc(entityId))).data();
+    return booking && {
+      customerId: booking.customerId,
+      completed: booking.bookingStatus === RentalBookingStatus.Completed,
+      courierId: booking.returnCourierId ?? booking.pickupCourierId,
+    };
+  }
+  case FeedbackEntityType.EventBooking: {
+    const event = (await transaction.get(collections.eventBookings().doc(entityId))).data();
+    return event && { customerId: event.customerId, completed: event.eventStatus === EventStatus.Completed };
+  }
+  }
+}
+
+/** Average after adding `rating` to `count` ratings averaging `average`. */
+const addToAverage = (average: number, count: number, rating: number): number =>
+  (average * count + rating) / (count + 1);
+
+/**
+ * Records the caller's feedback on their own delivered order, completed rental or completed event,
+ * once per entity. A `courierRating` is folded into the courier's `averageRating` in the same
+ * transaction.
+ */
+export const submitFeedback = onCall(async (request) => {
+  const actor = await resolveActor(request);
+  const input = validate(requestSchema, request.data);
+  const feedbackId = `${input.entityType}_${input.entityId}`;
+  const feedback = await db().runTransaction(async (transaction) => {
+    const entity = await getRatedEntity(transaction, input.entityType, input.entityId);
+    if (!entity) {
+      throw new AppError('not-found', 'error.feedback.entityNotFound', { entityType: input.entityType });
+    }
+    if (entity.customerId !== actor.userId) {
+      throw new AppError('permission-denied', 'error.feedback.notOwner');
+    }
+    if (!entity.completed) {
+      throw new AppError('failed-precondition', 'error.feedback.notCompleted');
+    }
+    if (input.courierRating !== undefined && !entity.courierId) {
+      throw new AppError('failed-precondition', 'error.feedback.noCourier');
+    }
+    const ref = collections.userFeedback().doc(feedbackId);
+    if ((await transaction.get(ref)).exists) {
+      throw new AppError('already-exists', 'error.feedback.alreadySubmitted');
+    }
+    const courierRef = input.courierRating !== undefined ? collections.users().doc(entity.courierId!) : undefined;
+    const courier = courierRef && (await transaction.get(courierRef)).data();
+
+    const now = admin.firestore.Timestamp.now();
+    const created: UserFeedback = {
+      feedbackId,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      customerId: actor.userId,
+      rating: input.rating,
+      comments: input.comments,
+      tags: input.tags,
+      courierId: entity.courierId,
+      courierRating: input.courierRating,
+      createdAt: now,
+    };
+    transaction.set(ref, created);
+    if (courierRef && courier?.role === UserRole.Courier) {
+      const count = courier.ratingCount ?? 0;
+      transaction.set(courierRef, {
+        ...courier,
+        averageRating: addToAverage(courier.averageRating ?? 0, count, input.courierRating!),
+        ratingCount: count + 1,
+        updatedAt: now,
+        lastModifiedBy: modifiedBy(actor, now),
+      });
+    }
+    return created;
+  });
+  return { success: true, feedbackId: feedback.feedbackId };
+});
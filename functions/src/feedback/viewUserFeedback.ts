@@ -0,0 +1,75 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { collections } from '../models/collections';
+import { FeedbackEntityType, PermissionKey } from '../models';
+import { dateTime, defineSchema, id, int, oneOf, optional, toTimestamp, validate } from '../models/validation';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+interface ViewUserFeedbackRequest {
+  customerId?: string;
+  courierId?: string;
+  entityType?: FeedbackEntityType;
+  from?: string;
+  to?: string;
+  pageSize?: number;
+  /** `nextPageToken` of the previous page. */
+  pageToken?: string;
+}
+
+const requestSchema = defineSchema<ViewUserFeedbackRequest>('ViewUserFeedbackRequest', {
+  customerId: optional(id),
+  courierId: optional(id),
+  entityType: optional(oneOf(FeedbackEntityType)),
+  from: optional(dateTime),
+  to: optional(dateTime),
+  pageSize: optional(int({ min: 1, max: MAX_PAGE_SIZE })),
+  pageToken: optional(id),
+});
+
+/**
+ * Lists customer feedback, newest first, optionally filtered by customer, courier, entity type and
+ * time range. With `courierId`, also returns the courier's rating average. Pages are chained with
+ * `nextPageToken`. Requires `feedback:view`.
+ */
+export const viewUserFeedback = onCall(async (request) => {
+  await authorize(request, PermissionKey.FeedbackView);
+  const input = validate(requestSchema, request.data);
+  const pageSize = input.pageSize ?? DEFAULT_PAGE_SIZE;
+
+  let query = collections.userFeedback().orderBy('createdAt', 'desc');
+  if (input.customerId) query = query.where('customerId', '==', input.customerId);
+  if (input.courierId) query = query.where('courierId', '==', input.courierId);
+  if (input.entityType) query = query.where('entityType', '==', input.entityType);
+  if (input.from) query = query.where('createdAt', '>=', toTimestamp(input.from));
+  if (input.to) query = query.where('createdAt', '<=', toTimestamp(input.to));
+  if (input.pageToken) {
+    const cursor = await collections.userFeedback().doc(input.pageToken).get();
+    if (!cursor.exists) {
+      throw new AppError('invalid-argument', 'error.feedback.invalidPageToken');
+    }
+    query = query.startAfter(cursor);
+  }
+
+  const [snapshot, courier] = await Promise.all([
+    query.limit(pageSize + 1).get(),
+    input.courierId ? collections.users().doc(input.courierId).get() : undefined,
+  ]);
+  const page = snapshot.docs.slice(0, pageSize);
+  const feedback = page.map((doc) => {
+    const entry = doc.data();
+    return { ...entry, createdAt: entry.createdAt.toDate().toISOString() };
+  });
+  const courierData = courier?.data();
+  return {
+    success: true,
+    feedback,
+    courierRating: courierData && {
+      averageRating: courierData.averageRating,
+      ratingCount: courierData.ratingCount ?? 0,
+    },
+    nextPageToken: snapshot.docs.length > pageSize ? page[page.length - 1].id : undefined,
+  };
+});
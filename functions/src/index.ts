@@ -1,5 +1,102 @@
 import * as admin from 'firebase-admin';
+import { setGlobalOptions } from 'firebase-functions/v2';
 
 admin.initializeApp();
+setGlobalOptions({ region: 'me-west1' });
 
-console.log('Firebase Admin SDK initialized successfully.');
\ No newline at end of file
+console.log('Firebase Admin SDK initialized successfully.');
+
+// --- Auth ---
+export { sendOtp } from './auth/sendOtp';
+export { verifyOtp } from './auth/verifyOtp';
+export { enableMfa } from './auth/enableMfa';
+export { verifyMfaChallenge } from './auth/verifyMfaChallenge';
+export { disableMfa } from './auth/disableMfa';
+
+// --- Boxes ---
+export { getNearbyBoxes } from './boxes/getNearbyBoxes';
+export { syncBoxGeohash } from './boxes/syncBoxGeohash';
+export { getBoxMenus } from './menus/getBoxMenus';
+
+// --- Orders ---
+export { createOrder } from './orders/createOrder';
+export { updateOrderStatus } from './orders/updateOrderStatus';
+
+// --- Shifts ---
+export { startShift } from './shifts/startShift';
+export { endShift } from './shifts/endShift';
+export { startShiftBreak, endShiftBreak } from './shifts/shiftBreaks';
+export { forceEndShift } from './shifts/forceEndShift';
+
+// --- Roles ---
+export { assignRole, listRoles, removeRole, seedRoles } from './roles/manageRoles';
+export { syncRoleClaims } from './roles/syncRoleClaims';
+
+// --- Audit ---
+export {
+  auditBoxes,
+  auditEventBookings,
+  auditMfaConfigs,
+  auditOrders,
+  auditOtps,
+  auditProducts,
+  auditPromoCodes,
+  auditRentalBookings,
+  auditRentalQuarantine,
+  auditRoles,
+  auditShifts,
+  auditUsers,
+} from './audit/auditTrail';
+export { viewLogs } from './audit/viewLogs';
+
+// --- Promotions ---
+export { quotePromoCode } from './promos/quotePromoCode';
+
+// --- Rentals ---
+export { getAvailableRentalItems } from './rentals/getAvailableRentalItems';
+export { createRentalBooking } from './rentals/createRentalBooking';
+export { confirmRentalPickup } from './rentals/confirmRentalPickup';
+export { confirmRentalReturn } from './rentals/confirmRentalReturn';
+export { assessRentalDamage } from './rentals/assessRentalDamage';
+export { cancelRentalBooking } from './rentals/cancelRentalBooking';
+export { markOverdueRentals } from './rentals/overdueRentals';
+
+// --- Events ---
+export { checkEventAvailability } from './events/checkEventAvailability';
+export { getEventQuote } from './events/getEventQuote';
+export { createEventBooking } from './events/createEventBooking';
+export { confirmEventAgreement } from './events/confirmEventAgreement';
+export { approveEventBooking } from './events/approveEventBooking';
+export { assignEventResources } from './events/assignEventResources';
+export { updateEventStatus } from './events/updateEventStatus';
+export { cancelEventBooking } from './events/cancelEventBooking';
+
+// --- Inventory ---
+export { adjustRentalInventory, transferRentalInventoryBetweenBoxes } from './inventory/manageRentalInventory';
+export { reconcileRentalInventory } from './inventory/reconcileRentalInventory';
+export { clearQuarantinedUnit, getCleaningQueue } from './inventory/manageQuarantine';
+
+// --- Feedback ---
+export { submitFeedback } from './feedback/submitFeedback';
+export { viewUserFeedback } from './feedback/viewUserFeedback';
+
+// --- Privacy ---
+export { exportMyData } from './privacy/exportMyData';
+export { deleteMyAccount } from './privacy/deleteMyAccount';
+
+// --- Notifications ---
+export { dispatchNotification } from './notifications/dispatchNotification';
+export { markNotificationRead, markAllNotificationsRead } from './notifications/markNotificationsRead';
+export { getNotificationPreferences, updateNotificationPreferences } from './notifications/notificationPreferences';
+
+// --- VIP ---
+export { recalculateVipTiers, recalculateVipTiersNightly } from './vip/recalculateVipTiers';
+
+// --- Reports ---
+export { generateDailyReport, generateDailyReportNightly } from './reports/generateDailyReport';
+export { getDailyReports } from './reports/getDailyReports';
+export { exportDailyReportsCsv } from './reports/exportDailyReportsCsv';
+
+// --- Dispatch ---
+export { dispatchNewDeliveryOrder, dispatchDeliveryOrders } from './dispatch/dispatchDeliveryOrders';
+export { respondToDispatchOffer } from './dispatch/respondToDispatchOffer';
@@ -0,0 +1,71 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { collections, db } from '../models/collections';
+import { PermissionKey, QuarantinedUnit, QuarantineReason, QuarantineStatus } from '../models';
+import { defineSchema, id, optional, text, validate } from '../models/validation';
+import { getBoxForUpdate, stockOf } from './rentalInventory';
+import { getPendingQuarantine, releaseQuarantinedUnit } from './rentalQuarantine';
+
+interface ClearQuarantinedUnitRequest {
+  quarantineId: string;
+  notes?: string;
+}
+
+interface GetCleaningQueueRequest {
+  boxId?: string;
+}
+
+const clearSchema = defineSchema<ClearQuarantinedUnitRequest>('ClearQuarantinedUnitRequest', {
+  quarantineId: id,
+  notes: optional(text({ maxLength: 1000 })),
+});
+
+const queueSchema = defineSchema<GetCleaningQueueRequest>('GetCleaningQueueRequest', {
+  boxId: optional(id),
+});
+
+/**
+ * Returns a cleaned unit to its box's stock. Damaged units must be assessed first.
+ * Requires `box:manageInventory`.
+ */
+export const clearQuarantinedUnit = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.BoxManageInventory);
+  const input = validate(clearSchema, request.data);
+  const [unit, box] = await db().runTransaction(async (transaction) => {
+    const pending = await getPendingQuarantine(transaction, input.quarantineId);
+    const unitBox = await getBoxForUpdate(transaction, pending.boxId);
+    if (pending.reason === QuarantineReason.Damage) {
+      throw new AppError('failed-precondition', 'error.quarantine.awaitingAssessment');
+    }
+    const now = admin.firestore.Timestamp.now();
+    return [pending, releaseQuarantinedUnit(transaction, unitBox, pending, actor, now, input.notes)] as const;
+  });
+  return { success: true, boxId: box.boxId, quantity: stockOf(box, unit.rentalItemId) };
+});
+
+/**
+ * Lists the units waiting to be cleaned, oldest first, grouped by box; only `boxId` when given.
+ * Requires `box:manageInventory`.
+ */
+export const getCleaningQueue = onCall(async (request) => {
+  await authorize(request, PermissionKey.BoxManageInventory);
+  const { boxId } = validate(queueSchema, request.data);
+  let query = collections.rentalQuarantine()
+    .where('status', '==', QuarantineStatus.Pending)
+    .where('reason', '==', QuarantineReason.Cleaning);
+  if (boxId) query = query.where('boxId', '==', boxId);
+  const units = (await query.get()).docs
+    .map((doc) => doc.data())
+    .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+
+  const boxes = new Map<string, QuarantinedUnit[]>();
+  for (const unit of units) {
+    boxes.set(unit.boxId, [...(boxes.get(unit.boxId) ?? []), unit]);
+  }
+  return {
+    success: true,
+    boxes: [...boxes].map(([queueBoxId, queued]) => ({ boxId: queueBoxId, units: queued })),
+  };
+});
@@ -0,0 +1,105 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { collections, db } from '../models/collections';
+import { InventoryLogAction, PermissionKey } from '../models';
+import { defineSchema, id, int, oneOf, optional, text, validate } from '../models/validation';
+import {
+  getBoxForUpdate,
+  recordRentalInventoryChange,
+  stockOf,
+  transferRentalInventory,
+} from './rentalInventory';
+
+/** Actions staff can record by hand; the others are written by rentals and transfers. */
+const MANUAL_ACTIONS = [InventoryLogAction.StockIn, InventoryLogAction.StockOut, InventoryLogAction.Adjustment] as const;
+
+interface AdjustRentalInventoryRequest {
+  boxId: string;
+  rentalItemId: string;
+  action: typeof MANUAL_ACTIONS[number];
+  quantityChange: number;
+  reason?: string;
+}
+
+interface TransferRentalInventoryRequest {
+  fromBoxId: string;
+  toBoxId: string;
+  rentalItemId: string;
+  quantity: number;
+  reason?: string;
+}
+
+const adjustSchema = defineSchema<AdjustRentalInventoryRequest>('AdjustRentalInventoryRequest', {
+  boxId: id,
+  rentalItemId: id,
+  action: oneOf(MANUAL_ACTIONS),
+  quantityChange: int(),
+  reason: optional(text({ maxLength: 500 })),
+}, (request, issues) => {
+  if (request.quantityChange === 0) {
+    issues.push('quantityChange must not be 0');
+  } else if (request.action === InventoryLogAction.StockIn && request.quantityChange < 0) {
+    issues.push('quantityChange must be positive for StockIn');
+  } else if (request.action === InventoryLogAction.StockOut && request.quantityChange > 0) {
+    issues.push('quantityChange must be negative for StockOut');
+  }
+  if (request.action === InventoryLogAction.Adjustment && !request.reason) {
+    issues.push('reason is required for Adjustment');
+  }
+});
+
+const transferSchema = defineSchema<TransferRentalInventoryRequest>('TransferRentalInventoryRequest', {
+  fromBoxId: id,
+  toBoxId: id,
+  rentalItemId: id,
+  quantity: int({ min: 1 }),
+  reason: optional(text({ maxLength: 500 })),
+});
+
+async function requireRentalItem(rentalItemId: string): Promise<void> {
+  const item = await collections.rentalItems().doc(rentalItemId).get();
+  if (!item.exists) {
+    throw new AppError('not-found', 'error.rental.itemNotFound');
+  }
+}
+
+/** Records stock arriving at, leaving or being corrected at a box. Requires `box:manageInventory`. */
+export const adjustRentalInventory = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.BoxManageInventory);
+  const input = validate(adjustSchema, request.data);
+  await requireRentalItem(input.rentalItemId);
+  const box = await db().runTransaction(async (transaction) =>
+    recordRentalInventoryChange(transaction, await getBoxForUpdate(transaction, input.boxId), {
+      rentalItemId: input.rentalItemId,
+      action: input.action,
+      quantityChange: input.quantityChange,
+      reason: input.reason,
+    }, actor));
+  return { success: true, boxId: box.boxId, quantity: stockOf(box, input.rentalItemId) };
+});
+
+/** Moves rental stock from one box to another. Requires `box:manageInventory`. */
+export const transferRentalInventoryBetweenBoxes = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.BoxManageInventory);
+  const input = validate(transferSchema, request.data);
+  await requireRentalItem(input.rentalItemId);
+  const [from, to] = await db().runTransaction(async (transaction) => {
+    const source = await getBoxForUpdate(transaction, input.fromBoxId);
+    const destination = await getBoxForUpdate(transaction, input.toBoxId);
+    return transferRentalInventory(
+      transaction,
+      source,
+      destination,
+      input.rentalItemId,
+      input.quantity,
+      actor,
+      input.reason,
+    );
+  });
+  return {
+    success: true,
+    fromQuantity: stockOf(from, input.rentalItemId),
+    toQuantity: stockOf(to, input.rentalItemId),
+  };
+});
@@ -0,0 +1,20 @@
+import { logger } from 'firebase-functions/v2';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { collections } from '../models/collections';
+import { findInventoryDrift, InventoryDrift } from './rentalInventory';
+
+/**
+ * Replays the inventory logs of every box and reports rental items whose `rentalInventory` count
+ * no longer matches the sum of their logs. Drift is only reported, never corrected: fixing it is an
+ * `Adjustment` made by staff.
+ */
+export const reconcileRentalInventory = onSchedule('every day 03:00', async () => {
+  const boxes = await collections.boxes().get();
+  const drifts: InventoryDrift[] = [];
+  for (const boxDoc of boxes.docs) {
+    const logs = await collections.inventoryLogs().where('boxId', '==', boxDoc.id).get();
+    drifts.push(...findInventoryDrift(boxDoc.data(), logs.docs.map((doc) => doc.data())));
+  }
+  drifts.forEach((drift) => logger.warn('Rental inventory drift', drift));
+  logger.info('Rental inventory reconciled', { boxes: boxes.size, drifts: drifts.length });
+});
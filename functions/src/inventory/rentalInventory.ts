@@ -0,0 +1,139 @@
+import * as admin from 'firebase-admin';
+import { modifiedBy } from '../audit/modificationStamp';
+import { Actor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { collections } from '../models/collections';
+import { Box, InventoryLog, InventoryLogAction } from '../models';
+
+/** One change to the stock of a rental item at a box. */
+export interface RentalInventoryChange {
+  rentalItemId: string;
+  action: InventoryLogAction;
+  /** Units added (positive) or removed (negative). */
+  quantityChange: number;
+  reason?: string;
+  relatedBookingId?: string;
+}
+
+/** Units of `rentalItemId` on hand at `box`. */
+export const stockOf = (box: Box, rentalItemId: string): number => box.rentalInventory[rentalItemId] ?? 0;
+
+/** Reads a box in `transaction` before changing its stock. */
+export async function getBoxForUpdate(transaction: admin.firestore.Transaction, boxId: string): Promise<Box> {
+  const box = (await transaction.get(collections.boxes().doc(boxId))).data();
+  if (!box) {
+    throw new AppError('not-found', 'error.box.notFound', { boxId });
+  }
+  return box;
+}
+
+/**
+ * Applies `change` to `box.rentalInventory` and writes the matching `InventoryLog`, both in
+ * `transaction`. `box` must have been read in the same transaction; the updated box is returned so
+ * further changes to it in the transaction start from the new stock.
+ * Refuses to take the stock below zero.
+ */
+export function recordRentalInventoryChange(
+  transaction: admin.firestore.Transaction,
+  box: Box,
+  change: RentalInventoryChange,
+  actor: Actor,
+  now: admin.firestore.Timestamp = admin.firestore.Timestamp.now(),
+): Box {
+  if (!Number.isInteger(change.quantityChange) || change.quantityChange === 0) {
+    throw new AppError('invalid-argument', 'error.inventory.invalidQuantity');
+  }
+  const available = stockOf(box, change.rentalItemId);
+  const quantity = available + change.quantityChange;
+  if (quantity < 0) {
+    throw new AppError('failed-precondition', 'error.inventory.insufficientStock', {
+      boxId: box.boxId,
+      rentalItemId: change.rentalItemId,
+      available,
+    });
+  }
+  const updated: Box = {
+    ...box,
+    rentalInventory: { ...box.rentalInventory, [change.rentalItemId]: quantity },
+    updatedAt: now,
+    lastModifiedBy: modifiedBy(actor, now),
+  };
+  transaction.set(collections.boxes().doc(box.boxId), updated);
+
+  const logRef = collections.inventoryLogs().doc();
+  const log: InventoryLog = {
+    logId: logRef.id,
+    timestamp: now,
+    userId: actor.userId,
+    action: change.action,
+    rentalItemId: change.rentalItemId,
+    boxId: box.boxId,
+    quantityChange: change.quantityChange,
+    reason: change.reason,
+    relatedBookingId: change.relatedBookingId,
+  };
+  transaction.set(logRef, log);
+  return updated;
+}
+
+/**
+ * Moves `quantity` units of a rental item from one box to another, writing a `TransferOut` and a
+ * `TransferIn` log. Both boxes must have been read in `transaction`.
+ * @return The updated source and destination boxes.
+ */
+export function transferRentalInventory(
+  transaction: admin.firestore.Transaction,
+  from: Box,
+  to: Box,
+  rentalItemId: string,
+  quantity: number,
+  actor: Actor,
+  reason?: string,
+): [Box, Box] {
+  if (from.boxId === to.boxId) {
+    throw new AppError('invalid-argument', 'error.inventory.sameBox');
+  }
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new AppError('invalid-argument', 'error.inventory.invalidQuantity');
+  }
+  const now = admin.firestore.Timestamp.now();
+  const source = recordRentalInventoryChange(transaction, from, {
+    rentalItemId,
+    action: InventoryLogAction.TransferOut,
+    quantityChange: -quantity,
+    reason,
+  }, actor, now);
+  const destination = recordRentalInventoryChange(transaction, to, {
+    rentalItemId,
+    action: InventoryLogAction.TransferIn,
+    quantityChange: quantity,
+    reason,
+  }, actor, now);
+  return [source, destination];
+}
+
+/** Difference between the stock on a box and the stock its logs add up to. */
+export interface InventoryDrift {
+  boxId: string;
+  rentalItemId: string;
+  recorded: number;
+  expected: number;
+}
+
+/** Replays `logs` of a box and reports every rental item whose stock differs from the sum of its logs. */
+export function findInventoryDrift(box: Box, logs: InventoryLog[]): InventoryDrift[] {
+  const expected = new Map<string, number>();
+  for (const log of logs) {
+    if (log.boxId !== box.boxId || !log.rentalItemId) continue;
+    expected.set(log.rentalItemId, (expected.get(log.rentalItemId) ?? 0) + log.quantityChange);
+  }
+  const itemIds = new Set([...Object.keys(box.rentalInventory), ...expected.keys()]);
+  return [...itemIds]
+    .map((rentalItemId) => ({
+      boxId: box.boxId,
+      rentalItemId,
+      recorded: stockOf(box, rentalItemId),
+      expected: expected.get(rentalItemId) ?? 0,
+    }))
+    .filter((drift) => drift.recorded !== drift.expected);
+}
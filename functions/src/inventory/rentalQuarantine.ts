@@ -0,0 +1,94 @@
+import * as admin from 'firebase-admin';
+import { modifiedBy } from '../audit/modificationStamp';
+import { Actor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { collections } from '../models/collections';
+import { Box, InventoryLogAction, QuarantinedUnit, QuarantineReason, QuarantineStatus, RentalBooking } from '../models';
+import { recordRentalInventoryChange } from './rentalInventory';
+
+/** Reads a quarantine entry in `transaction`, throwing unless it is still pending. */
+export async function getPendingQuarantine(
+  transaction: admin.firestore.Transaction,
+  quarantineId: string,
+): Promise<QuarantinedUnit> {
+  const unit = (await transaction.get(collections.rentalQuarantine().doc(quarantineId))).data();
+  if (!unit) {
+    throw new AppError('not-found', 'error.quarantine.notFound');
+  }
+  if (unit.status !== QuarantineStatus.Pending) {
+    throw new AppError('failed-precondition', 'error.quarantine.notPending', { status: unit.status });
+  }
+  return unit;
+}
+
+/**
+ * Takes the unit just returned from `booking` out of the stock of `box` with an `Adjustment` log and
+ * records it as quarantined for `reason`. `box` must have been read in `transaction` and already
+ * hold the returned unit.
+ * @return The updated box and the new quarantine entry.
+ */
+export function quarantineReturnedUnit(
+  transaction: admin.firestore.Transaction,
+  box: Box,
+  booking: RentalBooking,
+  reason: QuarantineReason,
+  actor: Actor,
+  now: admin.firestore.Timestamp,
+): [Box, QuarantinedUnit] {
+  const updated = recordRentalInventoryChange(transaction, box, {
+    rentalItemId: booking.rentalItemId,
+    action: InventoryLogAction.Adjustment,
+    quantityChange: -1,
+    reason: `Quarantined: ${reason}`,
+    relatedBookingId: booking.bookingId,
+  }, actor, now);
+  const ref = collections.rentalQuarantine().doc();
+  const unit: QuarantinedUnit = {
+    quarantineId: ref.id,
+    boxId: box.boxId,
+    rentalItemId: booking.rentalItemId,
+    bookingId: booking.bookingId,
+    reason,
+    status: QuarantineStatus.Pending,
+    returnedCondition: booking.returnedCondition,
+    returnedConditionPhotoUrl: booking.returnedConditionPhotoUrl,
+    courierNotesOnReturn: booking.courierNotesOnReturn,
+    createdAt: now,
+    updatedAt: now,
+    lastModifiedBy: modifiedBy(actor, now),
+  };
+  transaction.set(ref, unit);
+  return [updated, unit];
+}
+
+/**
+ * Puts a quarantined unit back into the stock of its box with an `Adjustment` log and marks it
+ * cleared. `box` must be the unit's box, read in `transaction`.
+ * @return The updated box.
+ */
+export function releaseQuarantinedUnit(
+  transaction: admin.firestore.Transaction,
+  box: Box,
+  unit: QuarantinedUnit,
+  actor: Actor,
+  now: admin.firestore.Timestamp,
+  notes?: string,
+): Box {
+  const updated = recordRentalInventoryChange(transaction, box, {
+    rentalItemId: unit.rentalItemId,
+    action: InventoryLogAction.Adjustment,
+    quantityChange: 1,
+    reason: 'Cleared from quarantine',
+    relatedBookingId: unit.bookingId,
+  }, actor, now);
+  transaction.set(collections.rentalQuarantine().doc(unit.quarantineId), {
+    ...unit,
+    status: QuarantineStatus.Cleared,
+    resolvedBy: actor.userId,
+    resolvedAt: now,
+    notes: notes ?? unit.notes,
+    updatedAt: now,
+    lastModifiedBy: modifiedBy(actor, now),
+  });
+  return updated;
+}
@@ -0,0 +1,101 @@
+import { currentOpeningPeriod } from '../boxes/operatingHours';
+import { collections, db } from '../models/collections';
+import { Box, Menu, Product } from '../models';
+
+/** A product as listed on a box menu. */
+export interface BoxMenuProduct {
+  productId: string;
+  name: string;
+  description?: string;
+  category: string;
+  imageUrl?: string;
+  priceSmallestUnit: number;
+  allergens: string[];
+}
+
+/** A menu served at a box right now, with the products that can be ordered there. */
+export interface BoxMenu {
+  menuId: string;
+  name: string;
+  description?: string;
+  priority?: number;
+  /** End of the current serving period, "HH:mm" in the menu's schedule time zone; absent when unscheduled. */
+  servedUntil?: string;
+  products: BoxMenuProduct[];
+}
+
+/** Options of `resolveBoxMenus`. */
+export interface BoxMenuOptions {
+  /** Products containing any of these allergens are left out; compared case-insensitively. */
+  excludedAllergens?: string[];
+  now?: Date;
+}
+
+const normalizeAllergen = (allergen: string): string => allergen.trim().toLowerCase();
+
+/** Returns true when `menu` is active, scoped to `box` and served at `now`. */
+export function isMenuServed(menu: Menu, box: Box, now: Date): boolean {
+  if (!menu.isActive) return false;
+  if (menu.applicableBoxIds && !menu.applicableBoxIds.includes(box.boxId)) return false;
+  if (menu.validFrom && now.getTime() < menu.validFrom.toMillis()) return false;
+  if (menu.validUntil && now.getTime() >= menu.validUntil.toMillis()) return false;
+  return currentOpeningPeriod(menu.schedule, now) !== undefined;
+}
+
+/**
+ * Returns true when `product` can be ordered at `box` (see `toOrderItem`) and contains none of
+ * `excludedAllergens`, which must be normalized.
+ */
+export function isProductListed(product: Product | undefined, box: Box, excludedAllergens: Set<string>): boolean {
+  return product !== undefined &&
+    product.isActive &&
+    (product.availableAtBoxes ?? []).includes(box.boxId) &&
+    product.currencyCode === box.currencyCode &&
+    !(product.allergens ?? []).some((allergen) => excludedAllergens.has(normalizeAllergen(allergen)));
+}
+
+const toBoxMenuProduct = (product: Product): BoxMenuProduct => ({
+  productId: product.productId,
+  name: product.name,
+  description: product.description,
+  category: product.category,
+  imageUrl: product.imageUrl,
+  priceSmallestUnit: product.priceSmallestUnit,
+  allergens: product.allergens ?? [],
+});
+
+/**
+ * Menus served at `box` now, by `priority` then name, each with its products in menu order.
+ * Menus scoped to other boxes, outside their schedule or validity, or left without products are
+ * dropped, as are products that can't be ordered at the box or contain an excluded allergen.
+ */
+export async function resolveBoxMenus(box: Box, options: BoxMenuOptions = {}): Promise<BoxMenu[]> {
+  const now = options.now ?? new Date();
+  const excludedAllergens = new Set((options.excludedAllergens ?? []).map(normalizeAllergen));
+  const menus = (await collections.menus().where('isActive', '==', true).get()).docs
+    .map((doc) => doc.data())
+    .filter((menu) => isMenuServed(menu, box, now));
+
+  const productIds = [...new Set(menus.flatMap((menu) => menu.productIds))];
+  const snapshots = productIds.length > 0 ?
+    await db().getAll(...productIds.map((productId) => collections.products().doc(productId))) :
+    [];
+  const products = new Map<string, Product>(snapshots
+    .filter((snapshot) => snapshot.exists)
+    .map((snapshot) => [snapshot.id, snapshot.data() as Product]));
+
+  return menus
+    .map((menu): BoxMenu => ({
+      menuId: menu.menuId,
+      name: menu.name,
+      description: menu.description,
+      priority: menu.priority,
+      servedUntil: menu.schedule ? currentOpeningPeriod(menu.schedule, now)!.end : undefined,
+      products: menu.productIds
+        .map((productId) => products.get(productId))
+        .filter((product): product is Product => isProductListed(product, box, excludedAllergens))
+        .map(toBoxMenuProduct),
+    }))
+    .filter((menu) => menu.products.length > 0)
+    .sort((a, b) => (a.priority ?? Infinity) - (b.priority ?? Infinity) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,29 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { requireAuth } from '../common/actor';
+import { AppError } from '../common/errors';
+import { collections } from '../models/collections';
+import { defineSchema, id, listOf, optional, text, validate } from '../models/validation';
+import { resolveBoxMenus } from './boxMenus';
+
+interface GetBoxMenusRequest {
+  boxId: string;
+  /** Allergens the customer avoids. */
+  excludeAllergens?: string[];
+}
+
+const requestSchema = defineSchema<GetBoxMenusRequest>('GetBoxMenusRequest', {
+  boxId: id,
+  excludeAllergens: optional(listOf(text({ minLength: 1, maxLength: 50 }), { maxLength: 30 })),
+});
+
+/** Lists the menus served at a box right now with the products the customer can order there. */
+export const getBoxMenus = onCall(async (request) => {
+  requireAuth(request);
+  const { boxId, excludeAllergens } = validate(requestSchema, request.data);
+  const box = (await collections.boxes().doc(boxId).get()).data();
+  if (!box || !box.isActive) {
+    throw new AppError('failed-precondition', 'error.order.boxUnavailable');
+  }
+  const boxMenus = await resolveBoxMenus(box, { excludedAllergens: excludeAllergens });
+  return { success: true, boxId, currencyCode: box.currencyCode, boxMenus };
+});
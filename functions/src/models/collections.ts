@@ -0,0 +1,81 @@
+import * as admin from 'firebase-admin';
+import {
+  auditLogConverter,
+  boxConverter,
+  dailyReportConverter,
+  eventBookingConverter,
+  inventoryLogConverter,
+  menuConverter,
+  mfaConfigConverter,
+  notificationConverter,
+  notificationPreferencesConverter,
+  orderConverter,
+  otpConverter,
+  productConverter,
+  promoCodeConverter,
+  quarantinedUnitConverter,
+  rateLimitConverter,
+  rentalBookingConverter,
+  rentalItemConverter,
+  roleConverter,
+  shiftConverter,
+  userConverter,
+  userFeedbackConverter,
+  vipTierConverter,
+} from './converters';
+
+/** Firestore collection names. */
+export const CollectionName = {
+  Users: 'users',
+  Roles: 'roles',
+  Boxes: 'boxes',
+  RentalItems: 'rentalItems',
+  RentalBookings: 'rentalBookings',
+  Orders: 'orders',
+  Products: 'products',
+  Menus: 'menus',
+  EventBookings: 'eventBookings',
+  PromoCodes: 'promoCodes',
+  Shifts: 'shifts',
+  InventoryLogs: 'inventoryLogs',
+  Notifications: 'notifications',
+  NotificationPreferences: 'notificationPreferences',
+  AuditLogs: 'auditLogs',
+  MfaConfigs: 'mfaConfigs',
+  Otps: 'otps',
+  RateLimits: 'rateLimits',
+  VipTiers: 'vipTiers',
+  DailyReports: 'dailyReports',
+  RentalQuarantine: 'rentalQuarantine',
+  UserFeedback: 'userFeedback',
+} as const;
+
+/** Firestore instance; resolved lazily so modules can be imported before `initializeApp`. */
+export const db = (): admin.firestore.Firestore => admin.firestore();
+
+/** Typed collection references. Every read and write through these is validated by the model converters. */
+export const collections = {
+  users: () => db().collection(CollectionName.Users).withConverter(userConverter),
+  roles: () => db().collection(CollectionName.Roles).withConverter(roleConverter),
+  boxes: () => db().collection(CollectionName.Boxes).withConverter(boxConverter),
+  rentalItems: () => db().collection(CollectionName.RentalItems).withConverter(rentalItemConverter),
+  rentalBookings: () => db().collection(CollectionName.RentalBookings).withConverter(rentalBookingConverter),
+  orders: () => db().collection(CollectionName.Orders).withConverter(orderConverter),
+  products: () => db().collection(CollectionName.Products).withConverter(productConverter),
+  menus: () => db().collection(CollectionName.Menus).withConverter(menuConverter),
+  eventBookings: () => db().collection(CollectionName.EventBookings).withConverter(eventBookingConverter),
+  promoCodes: () => db().collection(CollectionName.PromoCodes).withConverter(promoCodeConverter),
+  shifts: () => db().collection(CollectionName.Shifts).withConverter(shiftConverter),
+  inventoryLogs: () => db().collection(CollectionName.InventoryLogs).withConverter(inventoryLogConverter),
+  notifications: () => db().collection(CollectionName.Notifications).withConverter(notificationConverter),
+  notificationPreferences: () =>
+    db().collection(CollectionName.NotificationPreferences).withConverter(notificationPreferencesConverter),
+  auditLogs: () => db().collection(CollectionName.AuditLogs).withConverter(auditLogConverter),
+  mfaConfigs: () => db().collection(CollectionName.MfaConfigs).withConverter(mfaConfigConverter),
+  otps: () => db().collection(CollectionName.Otps).withConverter(otpConverter),
+  rateLimits: () => db().collection(CollectionName.RateLimits).withConverter(rateLimitConverter),
+  vipTiers: () => db().collection(CollectionName.VipTiers).withConverter(vipTierConverter),
+  dailyReports: () => db().collection(CollectionName.DailyReports).withConverter(dailyReportConverter),
+  rentalQuarantine: () => db().collection(CollectionName.RentalQuarantine).withConverter(quarantinedUnitConverter),
+  userFeedback: () => db().collection(CollectionName.UserFeedback).withConverter(userFeedbackConverter),
+};
@@ -0,0 +1,116 @@
+import * as admin from 'firebase-admin';
+import {
+  AuditLog,
+  Box,
+  DailyReport,
+  EventBooking,
+  InventoryLog,
+  Menu,
+  MfaConfig,
+  Notification,
+  NotificationPreferences,
+  Order,
+  Otp,
+  Product,
+  PromoCode,
+  QuarantinedUnit,
+  RateLimit,
+  RentalBooking,
+  RentalItem,
+  Role,
+  Shift,
+  User,
+  UserFeedback,
+  VipTier,
+} from './index';
+import {
+  auditLogSchema,
+  boxSchema,
+  dailyReportSchema,
+  eventBookingSchema,
+  inventoryLogSchema,
+  menuSchema,
+  mfaConfigSchema,
+  notificationPreferencesSchema,
+  notificationSchema,
+  orderSchema,
+  otpSchema,
+  productSchema,
+  promoCodeSchema,
+  quarantinedUnitSchema,
+  rateLimitSchema,
+  rentalBookingSchema,
+  rentalItemSchema,
+  roleSchema,
+  shiftSchema,
+  userFeedbackSchema,
+  userSchema,
+  vipTierSchema,
+} from './schemas';
+import { Schema, validate } from './validation';
+
+/** Removes `undefined` values (Firestore rejects them) from plain objects and arrays, recursively. */
+function stripUndefined(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripUndefined);
+  }
+  if (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, element]) => element !== undefined)
+        .map(([key, element]) => [key, stripUndefined(element)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Creates a converter that validates on write and on read.
+ * Merge writes are validated field by field, so partial changes are written with
+ * `set(changes, { merge: true })`: `update()` bypasses the converter and is not used on these
+ * collections; reads fill `idField` from the document ID when it is
+ * missing and fail with `data-loss` when the stored document is malformed.
+ */
+export function createConverter<T extends object>(
+  schema: Schema<T>,
+  idField: keyof T & string,
+): admin.firestore.FirestoreDataConverter<T> {
+  return {
+    toFirestore(
+      model: admin.firestore.PartialWithFieldValue<T>,
+      options?: admin.firestore.SetOptions,
+    ): admin.firestore.DocumentData {
+      const data = stripUndefined(model);
+      validate(schema, data, { partial: options !== undefined, allowFieldValues: true });
+      return data as admin.firestore.DocumentData;
+    },
+    fromFirestore(snapshot: admin.firestore.QueryDocumentSnapshot): T {
+      const data = { [idField]: snapshot.id, ...snapshot.data() };
+      return validate(schema, data, { errorCode: 'data-loss' });
+    },
+  };
+}
+
+export const userConverter = createConverter<User>(userSchema, 'userId');
+export const roleConverter = createConverter<Role>(roleSchema, 'roleId');
+export const boxConverter = createConverter<Box>(boxSchema, 'boxId');
+export const rentalItemConverter = createConverter<RentalItem>(rentalItemSchema, 'rentalItemId');
+export const rentalBookingConverter = createConverter<RentalBooking>(rentalBookingSchema, 'bookingId');
+export const orderConverter = createConverter<Order>(orderSchema, 'orderId');
+export const productConverter = createConverter<Product>(productSchema, 'productId');
+export const menuConverter = createConverter<Menu>(menuSchema, 'menuId');
+export const eventBookingConverter = createConverter<EventBooking>(eventBookingSchema, 'eventBookingId');
+export const promoCodeConverter = createConverter<PromoCode>(promoCodeSchema, 'code');
+export const shiftConverter = createConverter<Shift>(shiftSchema, 'shiftId');
+export const inventoryLogConverter = createConverter<InventoryLog>(inventoryLogSchema, 'logId');
+export const notificationConverter = createConverter<Notification>(notificationSchema, 'notificationId');
+export const notificationPreferencesConverter =
+  createConverter<NotificationPreferences>(notificationPreferencesSchema, 'userId');
+export const auditLogConverter = createConverter<AuditLog>(auditLogSchema, 'logId');
+export const mfaConfigConverter = createConverter<MfaConfig>(mfaConfigSchema, 'userId');
+export const otpConverter = createConverter<Otp>(otpSchema, 'otpId');
+export const rateLimitConverter = createConverter<RateLimit>(rateLimitSchema, 'rateLimitId');
+export const vipTierConverter = createConverter<VipTier>(vipTierSchema, 'tierId');
+export const dailyReportConverter = createConverter<DailyReport>(dailyReportSchema, 'reportId');
+export const userFeedbackConverter = createConverter<UserFeedback>(userFeedbackSchema, 'feedbackId');
+export const quarantinedUnitConverter = createConverter<QuarantinedUnit>(quarantinedUnitSchema, 'quarantineId');
@@ -23,11 +23,26 @@ export enum PermissionKey {
   RentalManage = 'rental:manage',
   RentalConfirmPickup = 'rental:confirmPickup',
   RentalConfirmReturn = 'rental:confirmReturn',
+  EventCreate = 'event:create',
   EventManage = 'event:manage',
   ReportView = 'report:view',
   SystemConfig = 'system:config',
   CourierManageShifts = 'courier:manageShifts',
   BoxManageInventory = 'box:manageInventory',
+  AuditView = 'audit:view',
+  FeedbackView = 'feedback:view',
+}
+
+/** Who changed an entity, stamped on every write so the audit trail can attribute it. */
+export interface ModificationStamp {
+  /** User who made the change, or "system". */
+  userId: string;
+  /** Email of that user (optional). */
+  userEmail?: string;
+  /** IP address the change was requested from (optional). */
+  ipAddress?: string;
+  /** When the change was made. */
+  timestamp: admin.firestore.Timestamp;
 }
 
 /** Interface representing a user in the system. */
@@ -52,10 +67,24 @@ export interface User {
   updatedAt: admin.firestore.Timestamp;
   /** Payment gateway customer ID (optional). */
   paymentGatewayCustomerId?: string;
-  /** VIP tier (optional). */
+  /** ID of the user's VIP tier, assigned by `recalculateVipTiers` (optional). */
   vipTier?: string;
+  /** Timestamp indicating when the VIP tier last changed (optional). */
+  vipTierUpdatedAt?: admin.firestore.Timestamp;
   /** Indicates if multi-factor authentication is enabled. */
   mfaEnabled: boolean;
+  /** Boxes a courier may work at (optional). */
+  assignedBoxIds?: string[];
+  /** Shift the courier is working, open or on break (optional). */
+  currentShiftId?: string;
+  /** Average of the ratings customers gave the courier, 1 to 5 (optional). */
+  averageRating?: number;
+  /** Number of ratings behind `averageRating` (optional). */
+  ratingCount?: number;
+  /** Timestamp the personal data was erased at the customer's request (optional). */
+  anonymizedAt?: admin.firestore.Timestamp;
+  /** Who made the last change, recorded in the audit trail (optional). */
+  lastModifiedBy?: ModificationStamp;
 }
 
 /** Interface representing a role with associated permissions. */
@@ -66,6 +95,8 @@ export interface Role {
   displayName: string;
   /** Array of permission keys granted to the role. */
   permissions: PermissionKey[];
+  /** Who made the last change, recorded in the audit trail (optional). */
+  lastModifiedBy?: ModificationStamp;
 }
 
 /** Interface representing a box location. */
@@ -84,14 +115,48 @@ export interface Box {
   currencyCode: string;
   /** Rental inventory mapping (rental item ID to quantity). */
   rentalInventory: { [rentalItemId: string]: number };
-  /** Operating hours of the box (optional). */
-  operatingHours?: object;
+  /** Operating hours of the box (optional; a box without them is never closed by schedule). */
+  operatingHours?: OperatingHours;
+  /** Geohash of `location`, kept in sync by a trigger for nearby searches (optional). */
+  geohash?: string;
   /** Notes for the box (optional). */
   notes?: string;
   /** Timestamp indicating when the box was created. */
   createdAt: admin.firestore.Timestamp;
   /** Timestamp indicating when the box was last updated. */
   updatedAt: admin.firestore.Timestamp;
+  /** Who made the last change, recorded in the audit trail (optional). */
+  lastModifiedBy?: ModificationStamp;
+}
+
+/** Days of the week, as used in `OperatingHours.weekly`. */
+export enum Weekday {
+  Sun = 'Sun',
+  Mon = 'Mon',
+  Tue = 'Tue',
+  Wed = 'Wed',
+  Thu = 'Thu',
+  Fri = 'Fri',
+  Sat = 'Sat',
+}
+
+/**
+ * A period a box is open, as "HH:mm" local times. An `end` before `start` means the period crosses
+ * midnight and ends on the next day (e.g. 20:00–02:00).
+ */
+export interface OpeningPeriod {
+  start: string;
+  end: string;
+}
+
+/** Interface representing the opening schedule of a box. */
+export interface OperatingHours {
+  /** IANA time zone the times are in (e.g. "Asia/Jerusalem"). */
+  timezone: string;
+  /** Opening periods for each day of the week; a missing day means closed. */
+  weekly: Partial<Record<Weekday, OpeningPeriod[]>>;
+  /** Opening periods for specific dates ("YYYY-MM-DD") such as holidays; an empty list means closed (optional). */
+  overrides?: { [date: string]: OpeningPeriod[] };
 }
 
 export enum FeeInterval {
@@ -199,6 +264,8 @@ export interface CancellationDetails {
   cancellationTimestamp: admin.firestore.Timestamp;
   refundProcessed: boolean;
   refundDetails?: RefundDetails;
+  /** Share of the captured payment to refund, in percent, set by the cancellation policy (optional). */
+  refundPercentage?: number;
 }
 
 /** Interface representing a rental booking. */
@@ -227,6 +294,16 @@ export interface RentalBooking {
   updatedAt: admin.firestore.Timestamp;
   /** Deposit for the booking (in smallest unit). */
   depositSmallestUnit: number;
+  /** Indicates the item's deposit was waived by the customer's VIP tier (optional). */
+  depositWaived?: boolean;
+  /** Rental fee per interval, copied from the rental item when booked (optional, in smallest unit). */
+  rentalFeeSmallestUnit?: number;
+  /** Fee interval, copied from the rental item when booked (optional). */
+  feeInterval?: FeeInterval;
+  /** Promo code applied to the rental fee (optional). */
+  promoCode?: string;
+  /** Discount on the rental fee granted by the promo code (optional, in smallest unit). */
+  discountSmallestUnit?: number;
   /** Currency code used for the booking. */
   currencyCode: string;
   /** Payment status for this booking. */
@@ -235,6 +312,8 @@ export interface RentalBooking {
   paymentDetails?: PaymentDetails;
   /** Final charge for the booking, after return (optional, in smallest unit) */
   finalChargeSmallestUnit?: number;
+  /** Part of the final charge taken for damage to the item (optional, in smallest unit). */
+  damageChargeSmallestUnit?: number;
   /** Payment details for the final charge (optional) */
   finalChargePaymentDetails?: PaymentDetails;
   /** Cancellation details if the booking is cancelled (optional). */
@@ -249,6 +328,10 @@ export interface RentalBooking {
   returnCourierId?: string;
   /** Url of the returned condition photo */
   returnedConditionPhotoUrl?: string;
+  /** Timestamp the personal data was erased at the customer's request (optional). */
+  anonymizedAt?: admin.firestore.Timestamp;
+  /** Who made the last change, recorded in the audit trail (optional). */
+  lastModifiedBy?: ModificationStamp;
 }
 
 /** Interface representing an order item. */
@@ -277,6 +360,47 @@ export enum OrderStatus {
   Failed = 'Failed',
 }
 
+/** Enum representing payment methods a customer can choose at checkout. */
+export enum PaymentMethod {
+  CreditCardApp = 'CreditCardApp',
+  BitApp = 'BitApp',
+  UcCoinsOnly = 'UC_Coins_Only',
+  CashOnDelivery = 'CashOnDelivery',
+  CreditOnDelivery = 'CreditOnDelivery',
+}
+
+/** Enum representing the state of a delivery order's courier assignment. */
+export enum DispatchStatus {
+  /** Offered to `courierId`, waiting for an answer until `offerExpiresAt`. */
+  Offered = 'Offered',
+  /** Accepted by `courierId`. */
+  Accepted = 'Accepted',
+  /** No courier could take the order; it is offered again later. */
+  Unassigned = 'Unassigned',
+}
+
+/** Interface representing the courier assignment of a delivery order. */
+export interface DeliveryDispatch {
+  status: DispatchStatus;
+  /** Courier the order is offered to or accepted by (optional). */
+  courierId?: string;
+  /** Timestamp of the current offer (optional). */
+  offeredAt?: admin.firestore.Timestamp;
+  /** When an unanswered offer passes to the next courier (optional). */
+  offerExpiresAt?: admin.firestore.Timestamp;
+  /** Timestamp of the acceptance (optional). */
+  acceptedAt?: admin.firestore.Timestamp;
+  /** Couriers who declined the order; it is not offered to them again. */
+  declinedCourierIds: string[];
+  /**
+   * Couriers who let an offer expire (optional). They are passed over while other couriers can
+   * take the order, and the list is cleared when nobody else is left.
+   */
+  expiredCourierIds?: string[];
+  /** Number of offers made so far. */
+  attempts: number;
+}
+
 /** Interface representing an order. */
 export interface Order {
   /** Unique identifier for the order. */
@@ -291,6 +415,12 @@ export interface Order {
   items: OrderItem[];
   /** Subtotal of the order (in smallest unit). */
   subtotalSmallestUnit: number;
+  /** Discount deducted from the subtotal (optional, in smallest unit). */
+  discountSmallestUnit?: number;
+  /** Part of `discountSmallestUnit` given by the customer's VIP tier (optional, in smallest unit). */
+  vipDiscountSmallestUnit?: number;
+  /** Promo code applied to the order (optional). */
+  promoCode?: string;
   /** Tax applied to the order (in smallest unit). */
   taxSmallestUnit: number;
   /** Tip added to the order (optional, in smallest unit). */
@@ -299,10 +429,14 @@ export interface Order {
   totalSmallestUnit: number;
   /** Currency code used for the order. */
   currencyCode: string;
+  /** Payment method chosen by the customer (optional). */
+  paymentMethod?: PaymentMethod;
   /** Payment status for this order. */
   paymentStatus: PaymentStatus;
   /** Payment details for this order. */
   paymentDetails?: PaymentDetails;
+  /** Notes from the customer (optional). */
+  notes?: string;
   /** Delivery address for the order (optional). */
   deliveryAddress?: string;
   /** Delivery location for the order (optional). */
@@ -311,12 +445,22 @@ export interface Order {
   scheduledPickupTime?: admin.firestore.Timestamp;
   /** Actual pickup time for the order (optional). */
   actualPickupTime?: admin.firestore.Timestamp;
+  /** Courier who accepted the delivery, or who took the order out or delivered it (optional). */
+  courierId?: string;
+  /** Courier assignment of a delivery order (optional). */
+  dispatch?: DeliveryDispatch;
+  /** Timestamp indicating when the order was delivered (optional). */
+  deliveredTimestamp?: admin.firestore.Timestamp;
   /** Timestamp indicating when the order was created. */
   createdAt: admin.firestore.Timestamp;
   /** Timestamp indicating when the order was last updated. */
   updatedAt: admin.firestore.Timestamp;
   /** Cancellation details if the order is cancelled (optional). */
   cancellationDetails?: CancellationDetails;
+  /** Timestamp the personal data was erased at the customer's request (optional). */
+  anonymizedAt?: admin.firestore.Timestamp;
+  /** Who made the last change, recorded in the audit trail (optional). */
+  lastModifiedBy?: ModificationStamp;
 }
 
 /** Interface representing a product. */
@@ -345,6 +489,8 @@ export interface Product {
   createdAt: admin.firestore.Timestamp;
   /** Timestamp indicating when the product was last updated. */
   updatedAt: admin.firestore.Timestamp;
+  /** Who made the last change, recorded in the audit trail (optional). */
+  lastModifiedBy?: ModificationStamp;
 }
 
 /** Interface representing a menu. */
@@ -361,6 +507,14 @@ export interface Menu {
   applicableBoxIds?: string[];
   /** Indicates if the menu is active. */
   isActive: boolean;
+  /** Times the menu is served, such as breakfast hours (optional; without them it is always served). */
+  schedule?: OperatingHours;
+  /** First moment the menu is served (optional). */
+  validFrom?: admin.firestore.Timestamp;
+  /** Moment the menu stops being served (optional). */
+  validUntil?: admin.firestore.Timestamp;
+  /** Position among the menus of a box; lower comes first (optional). */
+  priority?: number;
   /** Timestamp indicating when the menu was created. */
   createdAt: admin.firestore.Timestamp;
   /** Timestamp indicating when the menu was last updated. */
@@ -384,6 +538,34 @@ export interface EventAgreement {
   agreementUrl?: string;
 }
 
+/** Enum representing the kinds of line in an event quote. */
+export enum EventQuoteLineType {
+  MenuItem = 'MenuItem',
+  Staffing = 'Staffing',
+  Surcharge = 'Surcharge',
+  MinimumSpend = 'MinimumSpend',
+}
+
+/** Interface representing one line of an event quote. */
+export interface EventQuoteLine {
+  type: EventQuoteLineType;
+  description: string;
+  /** Product priced on a menu item line (optional). */
+  productId?: string;
+  /** Guests for menu items, staff hours for staffing, 1 otherwise. */
+  quantity: number;
+  unitPriceSmallestUnit: number;
+  totalSmallestUnit: number;
+}
+
+/** Interface representing the itemized price of an event. */
+export interface EventQuote {
+  lines: EventQuoteLine[];
+  currencyCode: string;
+  /** Sum of the lines (in smallest unit). */
+  totalSmallestUnit: number;
+}
+
 /** Interface representing an event booking. */
 export interface EventBooking {
   /** Unique identifier for the event booking. */
@@ -424,6 +606,12 @@ export interface EventBooking {
   cancellationDetails?: CancellationDetails;
   /** Event agreement data. */
   agreement?: EventAgreement;
+  /** Quote the price was locked in from (optional). */
+  quote?: EventQuote;
+  /** Timestamp the personal data was erased at the customer's request (optional). */
+  anonymizedAt?: admin.firestore.Timestamp;
+  /** Who made the last change, recorded in the audit trail (optional). */
+  lastModifiedBy?: ModificationStamp;
 }
 
 /** Enum representing discount types for promo codes. */
@@ -462,6 +650,15 @@ export interface PromoCode {
   isActive: boolean;
   /** Timestamp indicating when the promo code was created. */
   createdAt: admin.firestore.Timestamp;
+  /** Who made the last change, recorded in the audit trail (optional). */
+  lastModifiedBy?: ModificationStamp;
+}
+
+/** Enum representing the state of a courier shift. */
+export enum ShiftStatus {
+  Open = 'Open',
+  OnBreak = 'OnBreak',
+  Closed = 'Closed',
 }
 
 /** Interface representing a shift. */
@@ -474,16 +671,52 @@ export interface Shift {
   startTimestamp: admin.firestore.Timestamp;
   /** Timestamp indicating the end of the shift (optional). */
   endTimestamp?: admin.firestore.Timestamp;
+  /** State of the shift. */
+  status: ShiftStatus;
   /** Box where the shift starts. */
   startBoxId: string;
   /** Box where the shift ends (optional). */
   endBoxId?: string;
   /** Total earnings for the shift (optional, in smallest unit). */
   totalEarningsSmallestUnit?: number;
+  /** What the total earnings are made of, computed when the shift ends (optional). */
+  earnings?: ShiftEarnings;
+  /** Breaks taken during the shift, oldest first (optional). */
+  breaks?: ShiftBreak[];
+  /** Cash the courier started with (optional, in smallest unit). */
+  startCashSmallestUnit?: number;
+  /** Cash the courier handed over at the end (optional, in smallest unit). */
+  endCashSmallestUnit?: number;
+  /** Starting cash plus cash collected on delivered orders (optional, in smallest unit). */
+  expectedEndCashSmallestUnit?: number;
+  /** Handed-over cash minus expected cash; negative when cash is missing (optional, in smallest unit). */
+  cashDifferenceSmallestUnit?: number;
+  /** Admin who ended an abandoned shift (optional). */
+  forceEndedBy?: string;
   /** Currency code for the shift. */
   currencyCode: string;
   /** Notes for the shift (optional). */
   notes?: string;
+  /** Who made the last change, recorded in the audit trail (optional). */
+  lastModifiedBy?: ModificationStamp;
+}
+
+/** Interface representing a break within a shift. */
+export interface ShiftBreak {
+  startTimestamp: admin.firestore.Timestamp;
+  /** Missing while the break is still going on. */
+  endTimestamp?: admin.firestore.Timestamp;
+}
+
+/** Interface representing the breakdown of a courier's shift earnings. */
+export interface ShiftEarnings {
+  /** Orders the courier delivered during the shift. */
+  deliveredOrders: number;
+  /** Rentals whose return the courier confirmed during the shift. */
+  completedRentals: number;
+  deliveryEarningsSmallestUnit: number;
+  tipsSmallestUnit: number;
+  rentalEarningsSmallestUnit: number;
 }
 
 /** Enum representing actions for inventory logs. */
@@ -524,6 +757,64 @@ export interface InventoryLog {
   relatedBookingId?: string;
 }
 
+/** Enum representing why a returned rental unit is held out of stock. */
+export enum QuarantineReason {
+  /** Needs cleaning before it can be rented again. */
+  Cleaning = 'Cleaning',
+  /** Reported damaged; waits for a damage assessment. */
+  Damage = 'Damage',
+}
+
+/** Enum representing the state of a quarantined rental unit. */
+export enum QuarantineStatus {
+  /** Held out of stock. */
+  Pending = 'Pending',
+  /** Back in the box's stock. */
+  Cleared = 'Cleared',
+  /** Damaged beyond use; never returns to stock. */
+  WrittenOff = 'WrittenOff',
+}
+
+/** Interface representing a returned rental unit held out of a box's stock. */
+export interface QuarantinedUnit {
+  /** Unique identifier for the quarantine entry. */
+  quarantineId: string;
+  /** Box the unit was returned to. */
+  boxId: string;
+  /** Rental item of the unit. */
+  rentalItemId: string;
+  /** Booking the unit was returned from. */
+  bookingId: string;
+  /** Why the unit is held; a damaged unit moves on to cleaning once assessed. */
+  reason: QuarantineReason;
+  /** State of the entry. */
+  status: QuarantineStatus;
+  /** Condition reported on return, copied from the booking (optional). */
+  returnedCondition?: string;
+  /** Photo of the condition on return, copied from the booking (optional). */
+  returnedConditionPhotoUrl?: string;
+  /** Courier notes on return, copied from the booking (optional). */
+  courierNotesOnReturn?: string;
+  /** Amount charged for the damage (optional, in smallest unit). */
+  damageChargeSmallestUnit?: number;
+  /** Staff member who assessed the damage (optional). */
+  assessedBy?: string;
+  /** Timestamp of the damage assessment (optional). */
+  assessedAt?: admin.firestore.Timestamp;
+  /** Staff member who cleared or wrote off the unit (optional). */
+  resolvedBy?: string;
+  /** Timestamp the unit was cleared or written off (optional). */
+  resolvedAt?: admin.firestore.Timestamp;
+  /** Notes from the assessment or clearance (optional). */
+  notes?: string;
+  /** Timestamp indicating when the unit was quarantined. */
+  createdAt: admin.firestore.Timestamp;
+  /** Timestamp indicating when the entry was last updated. */
+  updatedAt: admin.firestore.Timestamp;
+  /** Who made the last change, recorded in the audit trail (optional). */
+  lastModifiedBy?: ModificationStamp;
+}
+
 /** Enum representing notification types. */
 export enum NotificationType {
   Info = 'Info',
@@ -554,6 +845,54 @@ export interface Notification {
   relatedEntityId?: string;
   /** Type of a related entity, if any. */
   relatedEntityType?: string;
+  /** Template the title and message were rendered from (optional). */
+  templateId?: string;
+  /** Values filled into the template (optional). */
+  templateParams?: Record<string, string>;
+  /** Locale the title and message are written in (optional). */
+  locale?: string;
+  /** Timestamp indicating when the notification was read (optional). */
+  readAt?: admin.firestore.Timestamp;
+  /** Outcome of sending the notification on each channel (optional). */
+  deliveries?: NotificationDelivery[];
+}
+
+/** Enum representing the channels a notification is sent on besides the in-app list. */
+export enum NotificationChannel {
+  Push = 'Push',
+  Sms = 'Sms',
+  Email = 'Email',
+}
+
+/** Enum representing the outcome of sending a notification on a channel. */
+export enum NotificationDeliveryStatus {
+  Sent = 'Sent',
+  Failed = 'Failed',
+}
+
+/** Interface representing one attempt to send a notification on a channel. */
+export interface NotificationDelivery {
+  channel: NotificationChannel;
+  status: NotificationDeliveryStatus;
+  timestamp: admin.firestore.Timestamp;
+  /** Why sending failed (optional). */
+  error?: string;
+}
+
+/** Interface representing how a user wants to be notified. */
+export interface NotificationPreferences {
+  /** Unique identifier of the user. */
+  userId: string;
+  /** Locale notifications are written in, e.g. "he". */
+  locale: string;
+  /** Channels notifications are sent on. */
+  channels: NotificationChannel[];
+  /** Notification types that are only shown in the app. */
+  mutedTypes: NotificationType[];
+  /** Device tokens for push notifications. */
+  pushTokens: string[];
+  /** Timestamp indicating when the preferences were last updated. */
+  updatedAt: admin.firestore.Timestamp;
 }
 
 /** Interface representing an audit log. */
@@ -582,12 +921,18 @@ export interface AuditLog {
 export interface MfaConfig {
     /** Unique identifier of the user. */
     userId: string;
-    /** Encrypted MFA secret. */
+    /** Envelope-encrypted TOTP secret. */
     secret: string;
-    /** Encrypted backup codes. */
+    /** Hashes of the backup codes not used yet. */
     backupCodes: string[];
     /** Indicates whether MFA is confirmed */
     confirmed: boolean;
+    /** Last TOTP time step accepted, so a code cannot be replayed (optional). */
+    lastUsedTimeStep?: number;
+    /** `auth_time` of the sign-in session that last passed a challenge (optional). */
+    verifiedAuthTime?: number;
+    /** Who made the last change, recorded in the audit trail (optional). */
+    lastModifiedBy?: ModificationStamp;
 }
 
 /** Enum representing OTP types. */
@@ -601,10 +946,29 @@ export enum OtpType {
 export interface Otp {
     otpId: string;
     userId: string;
+    /** Salted hash of the code; the code itself is never stored. */
     code: string;
+    /** Phone number the code was sent to. */
+    phoneNumber: string;
     expiresAt: admin.firestore.Timestamp;
     used: boolean;
     type: OtpType;
+    /** Wrong codes entered against this OTP. */
+    failedAttempts: number;
+    createdAt: admin.firestore.Timestamp;
+    /** Who made the last change, recorded in the audit trail (optional). */
+    lastModifiedBy?: ModificationStamp;
+}
+
+/** Interface representing a counter of attempts for a rate-limited key, such as a phone number or IP address. */
+export interface RateLimit {
+    /** Scope and hashed key, e.g. "otpSend:phone:<hash>". */
+    rateLimitId: string;
+    /** Attempts made since `windowStart`. */
+    count: number;
+    windowStart: admin.firestore.Timestamp;
+    /** No attempts are allowed before this time (optional). */
+    lockedUntil?: admin.firestore.Timestamp;
 }
 
 /** Interface representing a VIP Tier. */
@@ -619,4 +983,108 @@ export interface VipTier {
     currencyCode: string;
     /** Description of the benefits of the tier */
     benefitsDescription: string;
+    /**
+     * Position of the tier; a higher rank is a better tier (optional). Tiers without one are
+     * ordered by `minSpendSmallestUnit`.
+     */
+    rank?: number;
+    /** Benefits applied automatically at checkout (optional). */
+    benefits?: VipTierBenefits;
+}
+
+/** Interface representing the benefits of a VIP tier that checkout applies. */
+export interface VipTierBenefits {
+    /** Discount on the order subtotal after promo discounts, in basis points (optional). */
+    discountBasisPoints?: number;
+    /** Rental deposits are not held for customers with a saved payment method (optional). */
+    waiveRentalDeposit?: boolean;
+}
+
+/** Interface representing the amounts of a report in one currency, all in smallest units. */
+export interface ReportAmounts {
+  currencyCode: string;
+  /** Captured payments, plus cash collected on delivered orders. */
+  grossRevenueSmallestUnit: number;
+  /** Refunds of those payments. */
+  refundsSmallestUnit: number;
+  /** Gross revenue less refunds. */
+  netRevenueSmallestUnit: number;
+  /** Discounts granted by promo codes. */
+  promoDiscountsSmallestUnit: number;
+  /** Discounts granted by VIP tiers. */
+  vipDiscountsSmallestUnit: number;
+  /** Earnings of courier shifts that ended. */
+  courierEarningsSmallestUnit: number;
+}
+
+/** Interface representing how much of a rental item's stock at a box was out on rental. */
+export interface RentalUtilization {
+  rentalItemId: string;
+  /** Units on hand at the box at the end of the day. */
+  unitsInStock: number;
+  /** Units picked up at the box that were out at some point of the day. */
+  unitsRented: number;
+  /** Units rented as a share of units in stock plus units out at the end of the day, in basis points. */
+  utilizationBasisPoints: number;
+}
+
+/** Interface representing the figures of one box in a daily report. */
+export interface BoxReport {
+  boxId: string;
+  /** Orders placed at the box, counted by their current status. */
+  ordersByStatus: Partial<Record<OrderStatus, number>>;
+  /** One entry per currency. */
+  amounts: ReportAmounts[];
+  rentalUtilization: RentalUtilization[];
+}
+
+/** Interface representing a daily report, stored under its date. */
+export interface DailyReport {
+  /** Local date of the report, "YYYY-MM-DD". */
+  reportId: string;
+  /** Time zone the day is measured in. */
+  timeZone: string;
+  /** Start of the day, inclusive. */
+  periodStart: admin.firestore.Timestamp;
+  /** Start of the next day, exclusive. */
+  periodEnd: admin.firestore.Timestamp;
+  boxes: BoxReport[];
+  /** Orders of all boxes, counted by their current status. */
+  ordersByStatus: Partial<Record<OrderStatus, number>>;
+  /** Amounts of all boxes plus event bookings, one entry per currency. */
+  totals: ReportAmounts[];
+  generatedAt: admin.firestore.Timestamp;
+  /** User who generated the report, or "system". */
+  generatedBy: string;
+}
+
+/** Enum representing the kinds of entity a customer can give feedback on. */
+export enum FeedbackEntityType {
+  Order = 'Order',
+  RentalBooking = 'RentalBooking',
+  EventBooking = 'EventBooking',
+}
+
+/** Interface representing a customer's feedback on a completed order or booking, one per entity. */
+export interface UserFeedback {
+  /** Unique identifier for the feedback, "{entityType}_{entityId}". */
+  feedbackId: string;
+  /** Kind of entity rated. */
+  entityType: FeedbackEntityType;
+  /** ID of the order or booking rated. */
+  entityId: string;
+  /** Customer of the entity, who gave the feedback. */
+  customerId: string;
+  /** Rating of the order or booking, 1 to 5. */
+  rating: number;
+  /** Free-text comments (optional). */
+  comments?: string;
+  /** Short labels picked by the customer, e.g. "late" or "friendly" (optional). */
+  tags?: string[];
+  /** Courier who handled the entity (optional). */
+  courierId?: string;
+  /** Rating of the courier, 1 to 5 (optional). */
+  courierRating?: number;
+  /** Timestamp indicating when the feedback was given. */
+  createdAt: admin.firestore.Timestamp;
 }
@@ -0,0 +1,732 @@
+import {
+  AuditLog,
+  Box,
+  BoxReport,
+  CancellationDetails,
+  CancellationInitiator,
+  DailyReport,
+  DeliveryDispatch,
+  DiscountType,
+  DispatchStatus,
+  EventAgreement,
+  EventBooking,
+  EventQuote,
+  EventQuoteLine,
+  EventQuoteLineType,
+  EventStatus,
+  FeedbackEntityType,
+  FeeInterval,
+  InventoryLog,
+  InventoryLogAction,
+  Menu,
+  MfaConfig,
+  ModificationStamp,
+  Notification,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationDeliveryStatus,
+  NotificationPreferences,
+  NotificationType,
+  Order,
+  OrderItem,
+  OpeningPeriod,
+  OperatingHours,
+  OrderStatus,
+  Otp,
+  OtpType,
+  PaymentDetails,
+  PaymentMethod,
+  PaymentStatus,
+  PermissionKey,
+  Product,
+  PromoCode,
+  QuarantinedUnit,
+  QuarantineReason,
+  QuarantineStatus,
+  RateLimit,
+  RefundDetails,
+  RentalBooking,
+  RentalBookingStatus,
+  RentalItem,
+  RentalUtilization,
+  ReportAmounts,
+  Role,
+  Shift,
+  ShiftBreak,
+  ShiftEarnings,
+  ShiftStatus,
+  User,
+  UserFeedback,
+  UserRole,
+  VipTier,
+  VipTierBenefits,
+  Weekday,
+} from './index';
+import {
+  amount,
+  bool,
+  checkChronological,
+  checkSameCurrency,
+  currencyCode,
+  defineSchema,
+  email,
+  geoPoint,
+  id,
+  int,
+  listOf,
+  localDate,
+  mapOf,
+  nested,
+  num,
+  oneOf,
+  optional,
+  phoneNumber,
+  plainObject,
+  text,
+  timestamp,
+} from './validation';
+
+/** Checks that a payment attached to an entity uses the entity currency. */
+function checkPaymentCurrency(
+  issues: string[],
+  path: string,
+  expected: string,
+  payment: PaymentDetails | undefined,
+): void {
+  if (!payment) return;
+  checkSameCurrency(issues, path, expected, payment.currencyCode);
+}
+
+/** Checks the refund attached to a cancellation against the entity currency. */
+function checkCancellationCurrency(
+  issues: string[],
+  expected: string,
+  cancellation: CancellationDetails | undefined,
+): void {
+  checkSameCurrency(issues, 'cancellationDetails.refundDetails', expected, cancellation?.refundDetails?.currencyCode);
+}
+
+export const modificationStampSchema = defineSchema<ModificationStamp>('ModificationStamp', {
+  userId: id,
+  userEmail: optional(text()),
+  ipAddress: optional(text()),
+  timestamp: timestamp,
+});
+
+export const userSchema = defineSchema<User>('User', {
+  userId: id,
+  email: email,
+  phoneNumber: optional(phoneNumber),
+  firstName: text(),
+  lastName: text(),
+  role: oneOf(UserRole),
+  isActive: bool,
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  paymentGatewayCustomerId: optional(text()),
+  vipTier: optional(id),
+  vipTierUpdatedAt: optional(timestamp),
+  mfaEnabled: bool,
+  assignedBoxIds: optional(listOf(id)),
+  currentShiftId: optional(id),
+  averageRating: optional(num({ min: 1, max: 5 })),
+  ratingCount: optional(int({ min: 0 })),
+  anonymizedAt: optional(timestamp),
+  lastModifiedBy: optional(nested(modificationStampSchema)),
+});
+
+export const roleSchema = defineSchema<Role>('Role', {
+  roleId: oneOf(UserRole),
+  displayName: id,
+  permissions: listOf(oneOf(PermissionKey)),
+  lastModifiedBy: optional(nested(modificationStampSchema)),
+});
+
+const LOCAL_TIME = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+const LOCAL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const openingPeriodSchema = defineSchema<OpeningPeriod>('OpeningPeriod', {
+  start: text({ pattern: LOCAL_TIME }),
+  end: text({ pattern: LOCAL_TIME }),
+}, (period, issues) => {
+  if (period.end === period.start) {
+    issues.push('end must differ from start');
+  }
+  if (period.start === '24:00') {
+    issues.push('start must be before 24:00');
+  }
+});
+
+const openingPeriods = listOf(nested(openingPeriodSchema));
+
+export const operatingHoursSchema = defineSchema<OperatingHours>('OperatingHours', {
+  timezone: id,
+  weekly: mapOf(openingPeriods),
+  overrides: optional(mapOf(openingPeriods)),
+}, (hours, issues) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: hours.timezone });
+  } catch {
+    issues.push(`timezone: unknown time zone "${hours.timezone}"`);
+  }
+  const weekdays: string[] = Object.values(Weekday);
+  Object.keys(hours.weekly).filter((day) => !weekdays.includes(day))
+    .forEach((day) => issues.push(`weekly.${day}: not a weekday`));
+  Object.keys(hours.overrides ?? {}).filter((date) => !LOCAL_DATE.test(date))
+    .forEach((date) => issues.push(`overrides.${date}: expected YYYY-MM-DD`));
+});
+
+export const boxSchema = defineSchema<Box>('Box', {
+  boxId: id,
+  name: id,
+  location: geoPoint,
+  address: text(),
+  isActive: bool,
+  currencyCode: currencyCode,
+  rentalInventory: mapOf(int({ min: 0 })),
+  operatingHours: optional(nested(operatingHoursSchema)),
+  geohash: optional(text({ pattern: /^[0-9b-hjkmnp-z]{1,12}$/ })),
+  notes: optional(text()),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  lastModifiedBy: optional(nested(modificationStampSchema)),
+});
+
+export const rentalItemSchema = defineSchema<RentalItem>('RentalItem', {
+  rentalItemId: id,
+  name: id,
+  description: optional(text()),
+  category: text(),
+  imageUrl: optional(text()),
+  depositSmallestUnit: amount,
+  rentalFeeSmallestUnit: amount,
+  feeInterval: oneOf(FeeInterval),
+  currencyCode: currencyCode,
+  isActive: bool,
+  requiresCleaning: bool,
+  attributes: optional(plainObject),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const refundDetailsSchema = defineSchema<RefundDetails>('RefundDetails', {
+  refundId: id,
+  amountSmallestUnit: amount,
+  currencyCode: currencyCode,
+  timestamp: timestamp,
+  reason: optional(text()),
+});
+
+export const paymentDetailsSchema = defineSchema<PaymentDetails>('PaymentDetails', {
+  transactionId: id,
+  gateway: id,
+  amountSmallestUnit: amount,
+  currencyCode: currencyCode,
+  status: oneOf(PaymentStatus),
+  timestamp: timestamp,
+  paymentMethodType: text(),
+  last4: optional(text({ pattern: /^\d{4}$/ })),
+  authorizationId: optional(text()),
+  captureId: optional(text()),
+  voidId: optional(text()),
+  refundDetails: optional(listOf(nested(refundDetailsSchema))),
+  errorCode: optional(text()),
+  errorMessage: optional(text()),
+}, (payment, issues) => {
+  const refunds = payment.refundDetails ?? [];
+  refunds.forEach((refund, index) =>
+    checkSameCurrency(issues, `refundDetails[${index}]`, payment.currencyCode, refund.currencyCode));
+  const refunded = refunds.reduce((sum, refund) => sum + refund.amountSmallestUnit, 0);
+  if (refunded > payment.amountSmallestUnit) {
+    issues.push('refundDetails total exceeds amountSmallestUnit');
+  }
+});
+
+export const cancellationDetailsSchema = defineSchema<CancellationDetails>('CancellationDetails', {
+  cancelledBy: oneOf(CancellationInitiator),
+  cancellationReason: optional(text()),
+  cancellationTimestamp: timestamp,
+  refundProcessed: bool,
+  refundDetails: optional(nested(refundDetailsSchema)),
+  refundPercentage: optional(int({ min: 0, max: 100 })),
+});
+
+export const rentalBookingSchema = defineSchema<RentalBooking>('RentalBooking', {
+  bookingId: id,
+  customerId: id,
+  rentalItemId: id,
+  bookingStatus: oneOf(RentalBookingStatus),
+  pickupBoxId: id,
+  returnBoxId: optional(id),
+  pickupTimestamp: optional(timestamp),
+  expectedReturnTimestamp: optional(timestamp),
+  actualReturnTimestamp: optional(timestamp),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  depositSmallestUnit: amount,
+  depositWaived: optional(bool),
+  rentalFeeSmallestUnit: optional(amount),
+  feeInterval: optional(oneOf(FeeInterval)),
+  promoCode: optional(text()),
+  discountSmallestUnit: optional(amount),
+  currencyCode: currencyCode,
+  paymentStatus: oneOf(PaymentStatus),
+  paymentDetails: optional(nested(paymentDetailsSchema)),
+  finalChargeSmallestUnit: optional(amount),
+  damageChargeSmallestUnit: optional(amount),
+  finalChargePaymentDetails: optional(nested(paymentDetailsSchema)),
+  cancellationDetails: optional(nested(cancellationDetailsSchema)),
+  courierNotesOnReturn: optional(text()),
+  returnedCondition: optional(text()),
+  pickupCourierId: optional(id),
+  returnCourierId: optional(id),
+  returnedConditionPhotoUrl: optional(text()),
+  anonymizedAt: optional(timestamp),
+  lastModifiedBy: optional(nested(modificationStampSchema)),
+}, (booking, issues) => {
+  checkPaymentCurrency(issues, 'paymentDetails', booking.currencyCode, booking.paymentDetails);
+  checkPaymentCurrency(issues, 'finalChargePaymentDetails', booking.currencyCode, booking.finalChargePaymentDetails);
+  checkCancellationCurrency(issues, booking.currencyCode, booking.cancellationDetails);
+  checkChronological(issues, 'expectedReturnTimestamp', booking.pickupTimestamp, booking.expectedReturnTimestamp);
+  checkChronological(issues, 'actualReturnTimestamp', booking.pickupTimestamp, booking.actualReturnTimestamp);
+});
+
+export const orderItemSchema = defineSchema<OrderItem>('OrderItem', {
+  productId: id,
+  quantity: int({ positive: true }),
+  unitPriceSmallestUnit: amount,
+  productName: text(),
+  customization: optional(plainObject),
+});
+
+export const deliveryDispatchSchema = defineSchema<DeliveryDispatch>('DeliveryDispatch', {
+  status: oneOf(DispatchStatus),
+  courierId: optional(id),
+  offeredAt: optional(timestamp),
+  offerExpiresAt: optional(timestamp),
+  acceptedAt: optional(timestamp),
+  declinedCourierIds: listOf(id),
+  expiredCourierIds: optional(listOf(id)),
+  attempts: int({ min: 0 }),
+}, (dispatch, issues) => {
+  if (dispatch.status !== DispatchStatus.Unassigned && !dispatch.courierId) {
+    issues.push(`courierId is required when the dispatch is ${dispatch.status}`);
+  }
+  checkChronological(issues, 'offerExpiresAt', dispatch.offeredAt, dispatch.offerExpiresAt);
+});
+
+export const orderSchema = defineSchema<Order>('Order', {
+  orderId: id,
+  customerId: id,
+  boxId: optional(id),
+  orderStatus: oneOf(OrderStatus),
+  items: listOf(nested(orderItemSchema), { minLength: 1 }),
+  subtotalSmallestUnit: amount,
+  discountSmallestUnit: optional(amount),
+  vipDiscountSmallestUnit: optional(amount),
+  promoCode: optional(text()),
+  taxSmallestUnit: amount,
+  tipSmallestUnit: optional(amount),
+  totalSmallestUnit: amount,
+  currencyCode: currencyCode,
+  paymentMethod: optional(oneOf(PaymentMethod)),
+  paymentStatus: oneOf(PaymentStatus),
+  paymentDetails: optional(nested(paymentDetailsSchema)),
+  notes: optional(text()),
+  deliveryAddress: optional(text()),
+  deliveryLocation: optional(geoPoint),
+  scheduledPickupTime: optional(timestamp),
+  actualPickupTime: optional(timestamp),
+  courierId: optional(id),
+  dispatch: optional(nested(deliveryDispatchSchema)),
+  deliveredTimestamp: optional(timestamp),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  cancellationDetails: optional(nested(cancellationDetailsSchema)),
+  anonymizedAt: optional(timestamp),
+  lastModifiedBy: optional(nested(modificationStampSchema)),
+}, (order, issues) => {
+  const discount = order.discountSmallestUnit ?? 0;
+  if (discount > order.subtotalSmallestUnit) {
+    issues.push('discountSmallestUnit must not exceed subtotalSmallestUnit');
+  }
+  if ((order.vipDiscountSmallestUnit ?? 0) > discount) {
+    issues.push('vipDiscountSmallestUnit must not exceed discountSmallestUnit');
+  }
+  const expectedTotal = order.subtotalSmallestUnit - discount + order.taxSmallestUnit + (order.tipSmallestUnit ?? 0);
+  if (order.totalSmallestUnit !== expectedTotal) {
+    issues.push(`totalSmallestUnit must equal ${expectedTotal}`);
+  }
+  checkPaymentCurrency(issues, 'paymentDetails', order.currencyCode, order.paymentDetails);
+  checkCancellationCurrency(issues, order.currencyCode, order.cancellationDetails);
+});
+
+export const productSchema = defineSchema<Product>('Product', {
+  productId: id,
+  name: id,
+  description: optional(text()),
+  priceSmallestUnit: amount,
+  currencyCode: currencyCode,
+  category: text(),
+  imageUrl: optional(text()),
+  isActive: bool,
+  availableAtBoxes: optional(listOf(id)),
+  allergens: optional(listOf(text())),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  lastModifiedBy: optional(nested(modificationStampSchema)),
+});
+
+export const menuSchema = defineSchema<Menu>('Menu', {
+  menuId: id,
+  name: id,
+  description: optional(text()),
+  productIds: listOf(id),
+  applicableBoxIds: optional(listOf(id)),
+  isActive: bool,
+  schedule: optional(nested(operatingHoursSchema)),
+  validFrom: optional(timestamp),
+  validUntil: optional(timestamp),
+  priority: optional(int()),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+}, (menu, issues) => {
+  checkChronological(issues, 'validUntil', menu.validFrom, menu.validUntil);
+});
+
+export const eventAgreementSchema = defineSchema<EventAgreement>('EventAgreement', {
+  signedByCustomer: bool,
+  signedTimestamp: optional(timestamp),
+  agreementUrl: optional(text()),
+}, (agreement, issues) => {
+  if (agreement.signedByCustomer && !agreement.signedTimestamp) {
+    issues.push('signedTimestamp is required once signedByCustomer is true');
+  }
+});
+
+export const eventQuoteLineSchema = defineSchema<EventQuoteLine>('EventQuoteLine', {
+  type: oneOf(EventQuoteLineType),
+  description: text(),
+  productId: optional(id),
+  quantity: num({ positive: true }),
+  unitPriceSmallestUnit: amount,
+  totalSmallestUnit: amount,
+});
+
+export const eventQuoteSchema = defineSchema<EventQuote>('EventQuote', {
+  lines: listOf(nested(eventQuoteLineSchema)),
+  currencyCode: currencyCode,
+  totalSmallestUnit: amount,
+}, (quote, issues) => {
+  const expectedTotal = quote.lines.reduce((sum, line) => sum + line.totalSmallestUnit, 0);
+  if (quote.totalSmallestUnit !== expectedTotal) {
+    issues.push(`totalSmallestUnit must equal ${expectedTotal}`);
+  }
+});
+
+export const eventBookingSchema = defineSchema<EventBooking>('EventBooking', {
+  eventBookingId: id,
+  customerId: id,
+  eventType: id,
+  eventDate: timestamp,
+  durationHours: num({ positive: true, max: 72 }),
+  location: id,
+  numberOfGuests: int({ positive: true }),
+  menuId: optional(id),
+  specialRequests: optional(text()),
+  totalPriceSmallestUnit: amount,
+  currencyCode: currencyCode,
+  paymentStatus: oneOf(PaymentStatus),
+  paymentDetails: optional(nested(paymentDetailsSchema)),
+  eventStatus: oneOf(EventStatus),
+  assignedStaffIds: optional(listOf(id)),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  cancellationDetails: optional(nested(cancellationDetailsSchema)),
+  agreement: optional(nested(eventAgreementSchema)),
+  quote: optional(nested(eventQuoteSchema)),
+  anonymizedAt: optional(timestamp),
+  lastModifiedBy: optional(nested(modificationStampSchema)),
+}, (booking, issues) => {
+  checkPaymentCurrency(issues, 'paymentDetails', booking.currencyCode, booking.paymentDetails);
+  checkCancellationCurrency(issues, booking.currencyCode, booking.cancellationDetails);
+  checkSameCurrency(issues, 'quote', booking.currencyCode, booking.quote?.currencyCode);
+  if (booking.quote && booking.quote.totalSmallestUnit !== booking.totalPriceSmallestUnit) {
+    issues.push('totalPriceSmallestUnit must equal quote.totalSmallestUnit');
+  }
+});
+
+export const promoCodeSchema = defineSchema<PromoCode>('PromoCode', {
+  code: text({ pattern: /^[A-Z0-9_-]{3,32}$/ }),
+  description: text(),
+  discountType: oneOf(DiscountType),
+  discountValue: num({ positive: true }),
+  currencyCode: optional(currencyCode),
+  applicableProductIds: optional(listOf(id)),
+  applicableRentalItemIds: optional(listOf(id)),
+  minOrderValueSmallestUnit: optional(amount),
+  maxUses: optional(int({ positive: true })),
+  usesCount: int({ min: 0 }),
+  validFrom: timestamp,
+  validUntil: timestamp,
+  isActive: bool,
+  createdAt: timestamp,
+  lastModifiedBy: optional(nested(modificationStampSchema)),
+}, (promo, issues) => {
+  if (promo.discountType === DiscountType.Percentage && promo.discountValue > 100) {
+    issues.push('discountValue must be at most 100 for Percentage discounts');
+  }
+  if (promo.discountType === DiscountType.FixedAmount) {
+    if (!Number.isInteger(promo.discountValue)) {
+      issues.push('discountValue must be an integer amount in the smallest unit for FixedAmount discounts');
+    }
+    if (!promo.currencyCode) {
+      issues.push('currencyCode is required for FixedAmount discounts');
+    }
+  }
+  checkChronological(issues, 'validUntil', promo.validFrom, promo.validUntil);
+});
+
+export const shiftBreakSchema = defineSchema<ShiftBreak>('ShiftBreak', {
+  startTimestamp: timestamp,
+  endTimestamp: optional(timestamp),
+}, (shiftBreak, issues) => {
+  checkChronological(issues, 'endTimestamp', shiftBreak.startTimestamp, shiftBreak.endTimestamp);
+});
+
+export const shiftEarningsSchema = defineSchema<ShiftEarnings>('ShiftEarnings', {
+  deliveredOrders: int({ min: 0 }),
+  completedRentals: int({ min: 0 }),
+  deliveryEarningsSmallestUnit: amount,
+  tipsSmallestUnit: amount,
+  rentalEarningsSmallestUnit: amount,
+});
+
+export const shiftSchema = defineSchema<Shift>('Shift', {
+  shiftId: id,
+  courierId: id,
+  startTimestamp: timestamp,
+  endTimestamp: optional(timestamp),
+  status: oneOf(ShiftStatus),
+  startBoxId: id,
+  endBoxId: optional(id),
+  totalEarningsSmallestUnit: optional(amount),
+  earnings: optional(nested(shiftEarningsSchema)),
+  breaks: optional(listOf(nested(shiftBreakSchema))),
+  startCashSmallestUnit: optional(amount),
+  endCashSmallestUnit: optional(amount),
+  expectedEndCashSmallestUnit: optional(amount),
+  cashDifferenceSmallestUnit: optional(int()),
+  forceEndedBy: optional(id),
+  currencyCode: currencyCode,
+  notes: optional(text()),
+  lastModifiedBy: optional(nested(modificationStampSchema)),
+}, (shift, issues) => {
+  checkChronological(issues, 'endTimestamp', shift.startTimestamp, shift.endTimestamp);
+  if ((shift.status === ShiftStatus.Closed) !== (shift.endTimestamp !== undefined)) {
+    issues.push('endTimestamp is required exactly when status is Closed');
+  }
+  const onBreak = shift.breaks?.some((shiftBreak) => shiftBreak.endTimestamp === undefined) ?? false;
+  if ((shift.status === ShiftStatus.OnBreak) !== onBreak) {
+    issues.push('a break must be open exactly when status is OnBreak');
+  }
+  if (shift.earnings) {
+    const { deliveryEarningsSmallestUnit, tipsSmallestUnit, rentalEarningsSmallestUnit } = shift.earnings;
+    const expectedTotal = deliveryEarningsSmallestUnit + tipsSmallestUnit + rentalEarningsSmallestUnit;
+    if (shift.totalEarningsSmallestUnit !== expectedTotal) {
+      issues.push('totalEarningsSmallestUnit must equal the sum of earnings');
+    }
+  }
+});
+
+export const inventoryLogSchema = defineSchema<InventoryLog>('InventoryLog', {
+  logId: id,
+  timestamp: timestamp,
+  userId: id,
+  action: oneOf(InventoryLogAction),
+  productId: optional(id),
+  rentalItemId: optional(id),
+  boxId: id,
+  quantityChange: int(),
+  reason: optional(text()),
+  relatedOrderId: optional(id),
+  relatedBookingId: optional(id),
+}, (log, issues) => {
+  if (!log.productId === !log.rentalItemId) {
+    issues.push('exactly one of productId or rentalItemId is required');
+  }
+});
+
+export const quarantinedUnitSchema = defineSchema<QuarantinedUnit>('QuarantinedUnit', {
+  quarantineId: id,
+  boxId: id,
+  rentalItemId: id,
+  bookingId: id,
+  reason: oneOf(QuarantineReason),
+  status: oneOf(QuarantineStatus),
+  returnedCondition: optional(text()),
+  returnedConditionPhotoUrl: optional(text()),
+  courierNotesOnReturn: optional(text()),
+  damageChargeSmallestUnit: optional(amount),
+  assessedBy: optional(id),
+  assessedAt: optional(timestamp),
+  resolvedBy: optional(id),
+  resolvedAt: optional(timestamp),
+  notes: optional(text()),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  lastModifiedBy: optional(nested(modificationStampSchema)),
+}, (unit, issues) => {
+  if (unit.status !== QuarantineStatus.Pending && !unit.resolvedAt) {
+    issues.push(`resolvedAt is required when the unit is ${unit.status}`);
+  }
+});
+
+export const notificationDeliverySchema = defineSchema<NotificationDelivery>('NotificationDelivery', {
+  channel: oneOf(NotificationChannel),
+  status: oneOf(NotificationDeliveryStatus),
+  timestamp: timestamp,
+  error: optional(text()),
+});
+
+export const notificationSchema = defineSchema<Notification>('Notification', {
+  notificationId: id,
+  userId: id,
+  title: text(),
+  message: text(),
+  type: oneOf(NotificationType),
+  read: bool,
+  createdAt: timestamp,
+  relatedEntityId: optional(id),
+  relatedEntityType: optional(text()),
+  templateId: optional(id),
+  templateParams: optional(mapOf(text())),
+  locale: optional(id),
+  readAt: optional(timestamp),
+  deliveries: optional(listOf(nested(notificationDeliverySchema))),
+});
+
+export const notificationPreferencesSchema = defineSchema<NotificationPreferences>('NotificationPreferences', {
+  userId: id,
+  locale: id,
+  channels: listOf(oneOf(NotificationChannel)),
+  mutedTypes: listOf(oneOf(NotificationType)),
+  pushTokens: listOf(id),
+  updatedAt: timestamp,
+});
+
+export const auditLogSchema = defineSchema<AuditLog>('AuditLog', {
+  logId: id,
+  timestamp: timestamp,
+  userId: id,
+  userEmail: optional(text()),
+  action: id,
+  entityType: id,
+  entityId: id,
+  changes: plainObject,
+  ipAddress: optional(text()),
+});
+
+export const mfaConfigSchema = defineSchema<MfaConfig>('MfaConfig', {
+  userId: id,
+  secret: id,
+  backupCodes: listOf(id),
+  confirmed: bool,
+  lastUsedTimeStep: optional(int({ min: 0 })),
+  verifiedAuthTime: optional(int({ min: 0 })),
+  lastModifiedBy: optional(nested(modificationStampSchema)),
+});
+
+export const otpSchema = defineSchema<Otp>('Otp', {
+  otpId: id,
+  userId: id,
+  code: id,
+  phoneNumber: id,
+  expiresAt: timestamp,
+  used: bool,
+  type: oneOf(OtpType),
+  failedAttempts: int({ min: 0 }),
+  createdAt: timestamp,
+  lastModifiedBy: optional(nested(modificationStampSchema)),
+});
+
+export const rateLimitSchema = defineSchema<RateLimit>('RateLimit', {
+  rateLimitId: id,
+  count: int({ min: 0 }),
+  windowStart: timestamp,
+  lockedUntil: optional(timestamp),
+});
+
+export const vipTierBenefitsSchema = defineSchema<VipTierBenefits>('VipTierBenefits', {
+  discountBasisPoints: optional(int({ min: 0, max: 10000 })),
+  waiveRentalDeposit: optional(bool),
+});
+
+export const vipTierSchema = defineSchema<VipTier>('VipTier', {
+  tierId: id,
+  name: id,
+  minSpendSmallestUnit: amount,
+  currencyCode: currencyCode,
+  benefitsDescription: text(),
+  rank: optional(int({ min: 0 })),
+  benefits: optional(nested(vipTierBenefitsSchema)),
+});
+
+export const reportAmountsSchema = defineSchema<ReportAmounts>('ReportAmounts', {
+  currencyCode: currencyCode,
+  grossRevenueSmallestUnit: amount,
+  refundsSmallestUnit: amount,
+  netRevenueSmallestUnit: int(),
+  promoDiscountsSmallestUnit: amount,
+  vipDiscountsSmallestUnit: amount,
+  courierEarningsSmallestUnit: amount,
+}, (amounts, issues) => {
+  if (amounts.netRevenueSmallestUnit !== amounts.grossRevenueSmallestUnit - amounts.refundsSmallestUnit) {
+    issues.push('netRevenueSmallestUnit must equal grossRevenueSmallestUnit - refundsSmallestUnit');
+  }
+});
+
+export const rentalUtilizationSchema = defineSchema<RentalUtilization>('RentalUtilization', {
+  rentalItemId: id,
+  unitsInStock: int({ min: 0 }),
+  unitsRented: int({ min: 0 }),
+  utilizationBasisPoints: int({ min: 0, max: 10000 }),
+});
+
+const ordersByStatus = mapOf(int({ min: 0 }));
+
+export const boxReportSchema = defineSchema<BoxReport>('BoxReport', {
+  boxId: id,
+  ordersByStatus,
+  amounts: listOf(nested(reportAmountsSchema)),
+  rentalUtilization: listOf(nested(rentalUtilizationSchema)),
+});
+
+export const dailyReportSchema = defineSchema<DailyReport>('DailyReport', {
+  reportId: localDate,
+  timeZone: id,
+  periodStart: timestamp,
+  periodEnd: timestamp,
+  boxes: listOf(nested(boxReportSchema)),
+  ordersByStatus,
+  totals: listOf(nested(reportAmountsSchema)),
+  generatedAt: timestamp,
+  generatedBy: id,
+}, (report, issues) => checkChronological(issues, 'periodEnd', report.periodStart, report.periodEnd));
+
+export const userFeedbackSchema = defineSchema<UserFeedback>('UserFeedback', {
+  feedbackId: id,
+  entityType: oneOf(FeedbackEntityType),
+  entityId: id,
+  customerId: id,
+  rating: int({ min: 1, max: 5 }),
+  comments: optional(text({ maxLength: 2000 })),
+  tags: optional(listOf(text({ minLength: 1, maxLength: 50 }), { maxLength: 10 })),
+  courierId: optional(id),
+  courierRating: optional(int({ min: 1, max: 5 })),
+  createdAt: timestamp,
+}, (feedback, issues) => {
+  if (feedback.courierRating !== undefined && !feedback.courierId) {
+    issues.push('courierId is required with courierRating');
+  }
+});
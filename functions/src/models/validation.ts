@@ -0,0 +1,298 @@
+import * as admin from 'firebase-admin';
+import { FunctionsErrorCode } from 'firebase-functions/v2/https';
+import { ValidationError } from '../common/errors';
+
+/** A rule checks a single value and appends any problems found at `path` to `issues`. */
+export type Rule = (value: unknown, path: string, issues: string[]) => void;
+
+/** One rule per field of `T`; optional fields must still be listed (wrapped in `optional`). */
+export type FieldRules<T> = { [K in keyof T]-?: Rule };
+
+/** Schema describing a model or request payload. */
+export interface Schema<T> {
+  /** Name used in error messages (usually the interface name). */
+  name: string;
+  /** Rules for each field. */
+  fields: FieldRules<T>;
+  /** Cross-field checks, run only when every field rule passed on a full (non-partial) validation. */
+  refine?: (value: T, issues: string[]) => void;
+}
+
+/** Options for `validate`. */
+export interface ValidateOptions {
+  /** Only validate the fields present in the data (merge writes, patches). */
+  partial?: boolean;
+  /** Accept Firestore sentinels such as `FieldValue.serverTimestamp()` in place of field values. */
+  allowFieldValues?: boolean;
+  /** Error code used when validation fails. Defaults to `invalid-argument`. */
+  errorCode?: FunctionsErrorCode;
+}
+
+/** Creates a schema. */
+export function defineSchema<T>(
+  name: string,
+  fields: FieldRules<T>,
+  refine?: (value: T, issues: string[]) => void,
+): Schema<T> {
+  return { name, fields, refine };
+}
+
+const joinPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+const isMissing = (value: unknown): boolean => value === undefined || value === null;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+/** Returns the problems found in `data`, without throwing. */
+export function collectIssues<T>(
+  schema: Schema<T>,
+  data: unknown,
+  options: ValidateOptions = {},
+  path = '',
+): string[] {
+  const issues: string[] = [];
+  if (!isPlainObject(data)) {
+    issues.push(`${path || schema.name} must be an object`);
+    return issues;
+  }
+  for (const key of Object.keys(schema.fields) as (keyof T & string)[]) {
+    const value = data[key];
+    if (options.partial && !(key in data)) continue;
+    if (options.allowFieldValues && value instanceof admin.firestore.FieldValue) continue;
+    schema.fields[key](value, joinPath(path, key), issues);
+  }
+  if (issues.length === 0 && !options.partial && schema.refine) {
+    const refineIssues: string[] = [];
+    schema.refine(data as T, refineIssues);
+    issues.push(...refineIssues.map((issue) => (path ? `${path}: ${issue}` : issue)));
+  }
+  return issues;
+}
+
+/** Validates `data` against `schema` and returns it typed, or throws a `ValidationError`. */
+export function validate<T>(schema: Schema<T>, data: unknown, options: ValidateOptions = {}): T {
+  const issues = collectIssues(schema, data, options);
+  if (issues.length > 0) {
+    throw new ValidationError(schema.name, issues, options.errorCode);
+  }
+  return data as T;
+}
+
+/** Validates only the fields present in `patch`. */
+export function validatePartial<T>(schema: Schema<T>, patch: unknown): Partial<T> {
+  return validate(schema, patch, { partial: true, allowFieldValues: true }) as Partial<T>;
+}
+
+// --- Rules ---
+
+/** Allows `undefined`/`null`, otherwise applies `rule`. */
+export const optional = (rule: Rule): Rule => (value, path, issues) => {
+  if (isMissing(value)) return;
+  rule(value, path, issues);
+};
+
+/** Accepts any value, including none. */
+export const any: Rule = () => undefined;
+
+/** String rule; empty strings are allowed unless `minLength` says otherwise. */
+export const text = (opts: { minLength?: number; maxLength?: number; pattern?: RegExp } = {}): Rule =>
+  (value, path, issues) => {
+    if (isMissing(value)) {
+      issues.push(`${path} is required`);
+    } else if (typeof value !== 'string') {
+      issues.push(`${path} must be a string`);
+    } else if (opts.minLength !== undefined && value.length < opts.minLength) {
+      issues.push(`${path} must be at least ${opts.minLength} characters`);
+    } else if (opts.maxLength !== undefined && value.length > opts.maxLength) {
+      issues.push(`${path} must be at most ${opts.maxLength} characters`);
+    } else if (opts.pattern && !opts.pattern.test(value)) {
+      issues.push(`${path} has an invalid format`);
+    }
+  };
+
+/** Non-empty string, used for identifiers and names. */
+export const id: Rule = text({ minLength: 1 });
+
+/** ISO 4217 currency code, e.g. "ILS". */
+export const currencyCode: Rule = text({ pattern: /^[A-Z]{3}$/ });
+
+/** Email address; an empty string is treated as "not collected". */
+export const email: Rule = text({ pattern: /^$|^[^\s@]+@[^\s@]+\.[^\s@]+$/ });
+
+/** Phone number in E.164 format, e.g. "+972501234567". */
+export const phoneNumber: Rule = text({ pattern: /^\+[1-9]\d{7,14}$/ });
+
+/** Calendar date "YYYY-MM-DD". */
+export const localDate: Rule = (value, path, issues) => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+    new Date(`${value}T00:00:00Z`).toISOString().slice(0, 10) !== value) {
+    issues.push(`${path} must be a date (YYYY-MM-DD)`);
+  }
+};
+
+/** Boolean rule. */
+export const bool: Rule = (value, path, issues) => {
+  if (isMissing(value)) {
+    issues.push(`${path} is required`);
+  } else if (typeof value !== 'boolean') {
+    issues.push(`${path} must be a boolean`);
+  }
+};
+
+/** Finite number rule with optional bounds. */
+export const num = (opts: { min?: number; max?: number; integer?: boolean; positive?: boolean } = {}): Rule =>
+  (value, path, issues) => {
+    if (isMissing(value)) {
+      issues.push(`${path} is required`);
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`${path} must be a number`);
+    } else if (opts.integer && !Number.isInteger(value)) {
+      issues.push(`${path} must be an integer`);
+    } else if (opts.positive && value <= 0) {
+      issues.push(`${path} must be greater than 0`);
+    } else if (opts.min !== undefined && value < opts.min) {
+      issues.push(`${path} must be at least ${opts.min}`);
+    } else if (opts.max !== undefined && value > opts.max) {
+      issues.push(`${path} must be at most ${opts.max}`);
+    }
+  };
+
+/** Integer rule with optional bounds. */
+export const int = (opts: { min?: number; max?: number; positive?: boolean } = {}): Rule =>
+  num({ ...opts, integer: true });
+
+/** Money amount in the currency's smallest unit: a non-negative integer. */
+export const amount: Rule = int({ min: 0 });
+
+/** Value of a string enum. */
+export const oneOf = (values: Record<string, string> | readonly string[]): Rule => {
+  const allowed = Array.isArray(values) ? values : Object.values(values);
+  return (value, path, issues) => {
+    if (isMissing(value)) {
+      issues.push(`${path} is required`);
+    } else if (typeof value !== 'string' || !allowed.includes(value)) {
+      issues.push(`${path} must be one of ${allowed.join(', ')}`);
+    }
+  };
+};
+
+/** Firestore Timestamp rule. */
+export const timestamp: Rule = (value, path, issues) => {
+  if (isMissing(value)) {
+    issues.push(`${path} is required`);
+  } else if (!(value instanceof admin.firestore.Timestamp)) {
+    issues.push(`${path} must be a Timestamp`);
+  }
+};
+
+/** ISO 8601 date-time string, as sent by clients (see `toTimestamp`). */
+export const dateTime: Rule = (value, path, issues) => {
+  if (isMissing(value)) {
+    issues.push(`${path} is required`);
+  } else if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    issues.push(`${path} must be an ISO 8601 date-time string`);
+  }
+};
+
+/** Converts a string accepted by `dateTime` to a Firestore Timestamp. */
+export const toTimestamp = (value: string): admin.firestore.Timestamp =>
+  admin.firestore.Timestamp.fromMillis(Date.parse(value));
+
+/** Firestore GeoPoint rule. */
+export const geoPoint: Rule = (value, path, issues) => {
+  if (isMissing(value)) {
+    issues.push(`${path} is required`);
+  } else if (!(value instanceof admin.firestore.GeoPoint)) {
+    issues.push(`${path} must be a GeoPoint`);
+  }
+};
+
+/** Plain object with arbitrary content. */
+export const plainObject: Rule = (value, path, issues) => {
+  if (isMissing(value)) {
+    issues.push(`${path} is required`);
+  } else if (!isPlainObject(value)) {
+    issues.push(`${path} must be an object`);
+  }
+};
+
+/** Array whose elements all satisfy `rule`. */
+export const listOf = (rule: Rule, opts: { minLength?: number; maxLength?: number } = {}): Rule =>
+  (value, path, issues) => {
+    if (isMissing(value)) {
+      issues.push(`${path} is required`);
+    } else if (!Array.isArray(value)) {
+      issues.push(`${path} must be an array`);
+    } else if (opts.minLength !== undefined && value.length < opts.minLength) {
+      issues.push(`${path} must contain at least ${opts.minLength} item(s)`);
+    } else if (opts.maxLength !== undefined && value.length > opts.maxLength) {
+      issues.push(`${path} must contain at most ${opts.maxLength} item(s)`);
+    } else {
+      value.forEach((element, index) => rule(element, `${path}[${index}]`, issues));
+    }
+  };
+
+/** Object used as a map, whose values all satisfy `rule`. */
+export const mapOf = (rule: Rule): Rule => (value, path, issues) => {
+  if (isMissing(value)) {
+    issues.push(`${path} is required`);
+  } else if (!isPlainObject(value)) {
+    issues.push(`${path} must be an object`);
+  } else {
+    Object.entries(value).forEach(([key, element]) => rule(element, joinPath(path, key), issues));
+  }
+};
+
+/** Nested object validated against another schema. */
+export const nested = <T>(schema: Schema<T>): Rule => (value, path, issues) => {
+  if (isMissing(value)) {
+    issues.push(`${path} is required`);
+    return;
+  }
+  issues.push(...collectIssues(schema, value, {}, path));
+};
+
+// --- Shared request schemas ---
+
+/** Location sent by clients (`LocationInput` in docs/openapi.yaml). */
+export interface LocationInput {
+  latitude: number;
+  longitude: number;
+}
+
+export const locationInputSchema = defineSchema<LocationInput>('LocationInput', {
+  latitude: num({ min: -90, max: 90 }),
+  longitude: num({ min: -180, max: 180 }),
+});
+
+/** Converts a `LocationInput` to a Firestore GeoPoint. */
+export const toGeoPoint = (location: LocationInput): admin.firestore.GeoPoint =>
+  new admin.firestore.GeoPoint(location.latitude, location.longitude);
+
+// --- Refinement helpers ---
+
+/** Reports an issue when `actual` is set and differs from `expected`. */
+export function checkSameCurrency(
+  issues: string[],
+  path: string,
+  expected: string,
+  actual: string | undefined,
+): void {
+  if (actual !== undefined && actual !== expected) {
+    issues.push(`${path} currency ${actual} does not match ${expected}`);
+  }
+}
+
+/** Reports an issue when `later` is before `earlier`. */
+export function checkChronological(
+  issues: string[],
+  path: string,
+  earlier: admin.firestore.Timestamp | undefined,
+  later: admin.firestore.Timestamp | undefined,
+): void {
+  if (earlier && later && later.toMillis() < earlier.toMillis()) {
+    issues.push(`${path} must not be before the start time`);
+  }
+}
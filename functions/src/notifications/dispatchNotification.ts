@@ -0,0 +1,14 @@
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { collections, CollectionName } from '../models/collections';
+import { deliverNotification } from './notificationService';
+
+/** Localizes each new notification for its recipient and sends it on their push, SMS and email channels. */
+export const dispatchNotification = onDocumentCreated(
+  `${CollectionName.Notifications}/{notificationId}`,
+  async (event) => {
+    const notification = (await collections.notifications().doc(event.params.notificationId).get()).data();
+    if (notification) {
+      await deliverNotification(notification);
+    }
+  },
+);
@@ -0,0 +1,30 @@
+import { logger } from 'firebase-functions/v2';
+import { getSmsProvider } from '../auth/smsProvider';
+import { NotificationChannel } from '../models';
+import { NotificationContent } from './notificationTemplates';
+import { NotificationTransport } from './notificationTransport';
+
+/**
+ * Logs that a notification would have been sent on `channel` instead of sending it; for the
+ * emulator only. Addresses and content are left out of the logs, and the transport refuses to run
+ * outside the emulator so that nothing is recorded as sent when it was not.
+ */
+export class ConsoleTransport implements NotificationTransport {
+  constructor(readonly channel: NotificationChannel) {}
+
+  async send(_address: string, content: NotificationContent): Promise<void> {
+    if (process.env.FUNCTIONS_EMULATOR !== 'true') {
+      throw new Error(`The console ${this.channel} transport only runs in the emulator.`);
+    }
+    logger.info('Notification (not sent)', { channel: this.channel, messageLength: content.message.length });
+  }
+}
+
+/** Sends notifications as text messages through the configured `SmsProvider`. */
+export class SmsNotificationTransport implements NotificationTransport {
+  readonly channel = NotificationChannel.Sms;
+
+  async send(phoneNumber: string, content: NotificationContent): Promise<void> {
+    await getSmsProvider().send(phoneNumber, `${content.title}: ${content.message}`);
+  }
+}
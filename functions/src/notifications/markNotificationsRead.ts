@@ -0,0 +1,49 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { requireAuth } from '../common/actor';
+import { AppError } from '../common/errors';
+import { collections, db } from '../models/collections';
+import { defineSchema, id, validate } from '../models/validation';
+
+/** Most writes Firestore accepts in one batch. */
+const MAX_BATCH_WRITES = 500;
+
+interface MarkNotificationReadRequest {
+  notificationId: string;
+}
+
+const markReadSchema = defineSchema<MarkNotificationReadRequest>('MarkNotificationReadRequest', {
+  notificationId: id,
+});
+
+/** Marks one of the caller's notifications as read. */
+export const markNotificationRead = onCall(async (request) => {
+  const userId = requireAuth(request);
+  const { notificationId } = validate(markReadSchema, request.data);
+  const ref = collections.notifications().doc(notificationId);
+  const notification = (await ref.get()).data();
+  if (!notification || notification.userId !== userId) {
+    throw new AppError('not-found', 'error.notification.notFound', { notificationId });
+  }
+  if (!notification.read) {
+    await ref.set({ read: true, readAt: admin.firestore.Timestamp.now() }, { merge: true });
+  }
+  return { success: true };
+});
+
+/** Marks every unread notification of the caller as read. */
+export const markAllNotificationsRead = onCall(async (request) => {
+  const userId = requireAuth(request);
+  const unread = await collections.notifications()
+    .where('userId', '==', userId)
+    .where('read', '==', false)
+    .get();
+  const readAt = admin.firestore.Timestamp.now();
+  for (let start = 0; start < unread.docs.length; start += MAX_BATCH_WRITES) {
+    const batch = db().batch();
+    unread.docs.slice(start, start + MAX_BATCH_WRITES)
+      .forEach((doc) => batch.set(doc.ref, { read: true, readAt }, { merge: true }));
+    await batch.commit();
+  }
+  return { success: true, markedCount: unread.size };
+});
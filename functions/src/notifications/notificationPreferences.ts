@@ -0,0 +1,45 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { requireAuth } from '../common/actor';
+import { collections } from '../models/collections';
+import { NotificationChannel, NotificationType } from '../models';
+import { defineSchema, id, listOf, oneOf, optional, validate } from '../models/validation';
+import { loadNotificationPreferences } from './notificationService';
+import { SUPPORTED_LOCALES } from './notificationTemplates';
+
+interface UpdateNotificationPreferencesRequest {
+  locale?: string;
+  channels?: NotificationChannel[];
+  mutedTypes?: NotificationType[];
+  pushTokens?: string[];
+}
+
+const updateSchema = defineSchema<UpdateNotificationPreferencesRequest>('UpdateNotificationPreferencesRequest', {
+  locale: optional(oneOf(SUPPORTED_LOCALES)),
+  channels: optional(listOf(oneOf(NotificationChannel))),
+  mutedTypes: optional(listOf(oneOf(NotificationType))),
+  pushTokens: optional(listOf(id, { maxLength: 20 })),
+});
+
+/** Returns the caller's notification preferences, or the defaults when they never saved any. */
+export const getNotificationPreferences = onCall(async (request) => {
+  const preferences = await loadNotificationPreferences(requireAuth(request));
+  return { success: true, preferences };
+});
+
+/** Changes the fields given of the caller's notification preferences and returns the result. */
+export const updateNotificationPreferences = onCall(async (request) => {
+  const userId = requireAuth(request);
+  const input = validate(updateSchema, request.data);
+  const current = await loadNotificationPreferences(userId);
+  const preferences = {
+    ...current,
+    ...input,
+    channels: input.channels ? [...new Set(input.channels)] : current.channels,
+    mutedTypes: input.mutedTypes ? [...new Set(input.mutedTypes)] : current.mutedTypes,
+    pushTokens: input.pushTokens ? [...new Set(input.pushTokens)] : current.pushTokens,
+    updatedAt: admin.firestore.Timestamp.now(),
+  };
+  await collections.notificationPreferences().doc(userId).set(preferences);
+  return { success: true, preferences };
+});
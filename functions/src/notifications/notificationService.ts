@@ -0,0 +1,122 @@
+import * as admin from 'firebase-admin';
+import { getAppConfig } from '../config/appConfig';
+import { collections } from '../models/collections';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationDeliveryStatus,
+  NotificationPreferences,
+  NotificationType,
+  User,
+} from '../models';
+import { ConsoleTransport, SmsNotificationTransport } from './localTransports';
+import { isNotificationTemplateId, NotificationTemplateId, renderNotification } from './notificationTemplates';
+import { getNotificationTransport, registerNotificationTransport } from './notificationTransport';
+
+registerNotificationTransport(NotificationChannel.Sms, () => new SmsNotificationTransport());
+if (process.env.FUNCTIONS_EMULATOR === 'true') {
+  registerNotificationTransport(NotificationChannel.Push, () => new ConsoleTransport(NotificationChannel.Push));
+  registerNotificationTransport(NotificationChannel.Email, () => new ConsoleTransport(NotificationChannel.Email));
+}
+
+/** Data needed to create a notification. */
+export interface NotificationInput {
+  userId: string;
+  template: NotificationTemplateId;
+  /** Values for the template's placeholders. */
+  params?: Record<string, string>;
+  type: NotificationType;
+  relatedEntityId?: string;
+  relatedEntityType?: string;
+}
+
+/**
+ * Writes an unread in-app notification as part of `transaction` and returns it.
+ * The text is rendered in the fallback locale; `dispatchNotification` rewrites it in the
+ * recipient's locale and sends it on their channels once the transaction commits.
+ */
+export function createNotification(
+  transaction: admin.firestore.Transaction,
+  input: NotificationInput,
+): Notification {
+  const ref = collections.notifications().doc();
+  const { template, params, ...rest } = input;
+  const notification: Notification = {
+    ...rest,
+    ...renderNotification(template, params),
+    notificationId: ref.id,
+    read: false,
+    createdAt: admin.firestore.Timestamp.now(),
+    templateId: template,
+    templateParams: params,
+  };
+  transaction.set(ref, notification);
+  return notification;
+}
+
+/** Saved preferences of `userId`, or the defaults from `appConfig/notificationSettings`. */
+export async function loadNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const stored = (await collections.notificationPreferences().doc(userId).get()).data();
+  if (stored) return stored;
+  const settings = await getAppConfig('notificationSettings');
+  return {
+    userId,
+    locale: settings.defaultLocale,
+    channels: [...settings.defaultChannels],
+    mutedTypes: [],
+    pushTokens: [],
+    updatedAt: admin.firestore.Timestamp.now(),
+  };
+}
+
+/** Where `user` receives notifications on `channel`. */
+function addressesFor(channel: NotificationChannel, user: User, preferences: NotificationPreferences): string[] {
+  switch (channel) {
+  case NotificationChannel.Push:
+    return preferences.pushTokens;
+  case NotificationChannel.Sms:
+    return user.phoneNumber ? [user.phoneNumber] : [];
+  case NotificationChannel.Email:
+    return user.email ? [user.email] : [];
+  }
+}
+
+/**
+ * Localizes `notification` for its recipient and sends it on each channel they enabled, unless
+ * they muted its type. Channels the user has no address for are skipped; every attempt made is
+ * recorded in `deliveries`, as `Failed` when the channel has no transport or sending failed. Notifications that already have deliveries are left alone.
+ */
+export async function deliverNotification(notification: Notification): Promise<void> {
+  if (notification.deliveries) return;
+  const [user, preferences] = await Promise.all([
+    collections.users().doc(notification.userId).get().then((snapshot) => snapshot.data()),
+    loadNotificationPreferences(notification.userId),
+  ]);
+  if (!user) return;
+
+  const content = notification.templateId && isNotificationTemplateId(notification.templateId) ?
+    renderNotification(notification.templateId, notification.templateParams, preferences.locale) :
+    { title: notification.title, message: notification.message };
+  const channels = preferences.mutedTypes.includes(notification.type) ? [] : preferences.channels;
+
+  const deliveries: NotificationDelivery[] = [];
+  for (const channel of channels) {
+    const addresses = addressesFor(channel, user, preferences);
+    if (addresses.length === 0) continue;
+    const results = await Promise.allSettled(
+      addresses.map(async (address) => getNotificationTransport(channel).send(address, content)),
+    );
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    const timestamp = admin.firestore.Timestamp.now();
+    deliveries.push(failure ?
+      { channel, status: NotificationDeliveryStatus.Failed, timestamp, error: String(failure.reason) } :
+      { channel, status: NotificationDeliveryStatus.Sent, timestamp });
+  }
+
+  await collections.notifications().doc(notification.notificationId).set({
+    ...content,
+    locale: preferences.locale,
+    deliveries,
+  }, { merge: true });
+}
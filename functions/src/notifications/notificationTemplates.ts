@@ -0,0 +1,153 @@
+/** Title and message of a notification in one locale. */
+export interface NotificationContent {
+  title: string;
+  message: string;
+}
+
+/** Locales templates are written in. */
+export const SUPPORTED_LOCALES = ['en', 'he'] as const;
+
+/** Locale used when a template has no translation for the requested one. */
+export const FALLBACK_LOCALE = 'en';
+
+type LocalizedTemplate = { en: NotificationContent } & Partial<Record<string, NotificationContent>>;
+
+/**
+ * Notification texts by template ID and locale. `{name}` placeholders are filled from the
+ * parameters passed when the notification is created.
+ */
+const NOTIFICATION_TEMPLATES = {
+  'order.Pending': {
+    en: { title: 'Order received', message: 'We received your order.' },
+    he: { title: 'ההזמנה התקבלה', message: 'קיבלנו את ההזמנה שלך.' },
+  },
+  'order.Confirmed': {
+    en: { title: 'Order confirmed', message: 'Your order has been confirmed.' },
+    he: { title: 'ההזמנה אושרה', message: 'ההזמנה שלך אושרה.' },
+  },
+  'order.Preparing': {
+    en: { title: 'Order in preparation', message: 'Your order is being prepared.' },
+    he: { title: 'ההזמנה בהכנה', message: 'ההזמנה שלך בהכנה.' },
+  },
+  'order.ReadyForPickup': {
+    en: { title: 'Order ready', message: 'Your order is ready for pickup.' },
+    he: { title: 'ההזמנה מוכנה', message: 'ההזמנה שלך מוכנה לאיסוף.' },
+  },
+  'order.OutForDelivery': {
+    en: { title: 'Order on its way', message: 'Your order is out for delivery.' },
+    he: { title: 'ההזמנה בדרך', message: 'ההזמנה שלך יצאה למשלוח.' },
+  },
+  'order.Delivered': {
+    en: { title: 'Order delivered', message: 'Your order has been delivered. Enjoy!' },
+    he: { title: 'ההזמנה נמסרה', message: 'ההזמנה שלך נמסרה. בתיאבון!' },
+  },
+  'order.Cancelled': {
+    en: { title: 'Order cancelled', message: 'Your order has been cancelled.' },
+    he: { title: 'ההזמנה בוטלה', message: 'ההזמנה שלך בוטלה.' },
+  },
+  'order.Failed': {
+    en: { title: 'Order failed', message: 'We could not complete your order.' },
+    he: { title: 'ההזמנה נכשלה', message: 'לא הצלחנו להשלים את ההזמנה שלך.' },
+  },
+  'rental.Active': {
+    en: { title: 'Rental started', message: 'Enjoy! Remember to return the item on time.' },
+    he: { title: 'ההשכרה התחילה', message: 'תיהנו! אל תשכחו להחזיר את הפריט בזמן.' },
+  },
+  'rental.Completed': {
+    en: { title: 'Rental returned', message: 'Thanks for returning your rental.' },
+    he: { title: 'ההשכרה הוחזרה', message: 'תודה שהחזרתם את הפריט.' },
+  },
+  'rental.PendingReturn': {
+    en: {
+      title: 'Rental under inspection',
+      message: 'We received your rental and are checking it for damage. We will settle your deposit once done.',
+    },
+    he: { title: 'ההשכרה בבדיקה', message: 'קיבלנו את הפריט ובודקים אותו לנזקים. נסגור את הפיקדון בסיום הבדיקה.' },
+  },
+  'rental.Cancelled': {
+    en: { title: 'Rental cancelled', message: 'Your rental booking has been cancelled.' },
+    he: { title: 'ההשכרה בוטלה', message: 'הזמנת ההשכרה שלך בוטלה.' },
+  },
+  'rental.Overdue': {
+    en: {
+      title: 'Rental overdue',
+      message: 'Your rental is past its return time. Please return it as soon as possible; extra fees apply.',
+    },
+    he: { title: 'איחור בהחזרה', message: 'מועד ההחזרה של ההשכרה עבר. נא להחזיר בהקדם; יחולו חיובים נוספים.' },
+  },
+  'event.Confirmed': {
+    en: { title: 'Event confirmed', message: 'Your event is confirmed. We will be in touch.' },
+    he: { title: 'האירוע אושר', message: 'האירוע שלך אושר. ניצור איתך קשר.' },
+  },
+  'event.Preparation': {
+    en: { title: 'Event in preparation', message: 'We are getting ready for your event.' },
+    he: { title: 'האירוע בהכנה', message: 'אנחנו מתכוננים לאירוע שלך.' },
+  },
+  'event.Active': {
+    en: { title: 'Event started', message: 'Your event has started. Enjoy!' },
+    he: { title: 'האירוע התחיל', message: 'האירוע שלך התחיל. תיהנו!' },
+  },
+  'event.Completed': {
+    en: { title: 'Event completed', message: 'Thanks for celebrating with us.' },
+    he: { title: 'האירוע הסתיים', message: 'תודה שחגגתם איתנו.' },
+  },
+  'event.Cancelled': {
+    en: { title: 'Event cancelled', message: 'Your event booking has been cancelled.' },
+    he: { title: 'האירוע בוטל', message: 'הזמנת האירוע שלך בוטלה.' },
+  },
+  'event.staffAssigned': {
+    en: { title: 'New event assignment', message: 'You have been assigned to an event on {eventDate}.' },
+    he: { title: 'שיבוץ לאירוע', message: 'שובצת לאירוע בתאריך {eventDate}.' },
+  },
+  'dispatch.offered': {
+    en: {
+      title: 'New delivery',
+      message: 'A delivery {distanceKm} km from your box is waiting for you. Please accept or decline it.',
+    },
+    he: { title: 'משלוח חדש', message: 'משלוח במרחק {distanceKm} ק"מ מהעמדה שלך ממתין לך. נא לאשר או לדחות.' },
+  },
+  'shift.forceEnded': {
+    en: {
+      title: 'Shift ended',
+      message: 'Your shift was ended by a manager. Please hand over any cash at your box.',
+    },
+    he: { title: 'המשמרת הסתיימה', message: 'המשמרת שלך הסתיימה על ידי מנהל. נא למסור את המזומן בעמדה.' },
+  },
+  'vip.promoted': {
+    en: {
+      title: 'Welcome to {tierName}',
+      message: 'Your spending moved you up to the {tierName} tier. Enjoy the perks!',
+    },
+    he: { title: 'ברוכים הבאים ל-{tierName}', message: 'בזכות הרכישות שלך עלית לדרגת {tierName}. תיהנו מההטבות!' },
+  },
+  'vip.demoted': {
+    en: { title: 'Your VIP tier changed', message: 'Your tier is now {tierName}, based on your recent spending.' },
+    he: { title: 'דרגת ה-VIP שלך השתנתה', message: 'הדרגה שלך היא כעת {tierName}, לפי הרכישות האחרונות שלך.' },
+  },
+  'vip.removed': {
+    en: { title: 'Your VIP tier ended', message: 'Your recent spending is below the first VIP tier.' },
+    he: { title: 'דרגת ה-VIP שלך הסתיימה', message: 'הרכישות האחרונות שלך נמוכות מסף דרגת ה-VIP הראשונה.' },
+  },
+} satisfies Record<string, LocalizedTemplate>;
+
+/** ID of a notification template. */
+export type NotificationTemplateId = keyof typeof NOTIFICATION_TEMPLATES;
+
+/** Returns true when `templateId` names a known template. */
+export const isNotificationTemplateId = (templateId: string): templateId is NotificationTemplateId =>
+  templateId in NOTIFICATION_TEMPLATES;
+
+/**
+ * Renders a template in `locale`, falling back to `FALLBACK_LOCALE` when it has no translation.
+ * Placeholders without a matching parameter are left as they are.
+ */
+export function renderNotification(
+  templateId: NotificationTemplateId,
+  params: Record<string, string> = {},
+  locale: string = FALLBACK_LOCALE,
+): NotificationContent {
+  const template: LocalizedTemplate = NOTIFICATION_TEMPLATES[templateId];
+  const content = template[locale] ?? template[FALLBACK_LOCALE];
+  const fill = (text: string): string => text.replace(/\{(\w+)\}/g, (placeholder, name) => params[name] ?? placeholder);
+  return { title: fill(content.title), message: fill(content.message) };
+}
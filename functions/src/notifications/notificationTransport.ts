@@ -0,0 +1,35 @@
+import { NotificationChannel } from '../models';
+import { NotificationContent } from './notificationTemplates';
+
+/** Sends notifications on one channel. Implementations throw when a notification cannot be sent. */
+export interface NotificationTransport {
+  readonly channel: NotificationChannel;
+  /** Sends `content` to `address`: a device token, phone number (E.164) or email address. */
+  send(address: string, content: NotificationContent): Promise<void>;
+}
+
+const transportFactories = new Map<NotificationChannel, () => NotificationTransport>();
+const transportInstances = new Map<NotificationChannel, NotificationTransport>();
+
+/** Makes `factory` the transport for `channel`, replacing any registered before. */
+export function registerNotificationTransport(
+  channel: NotificationChannel,
+  factory: () => NotificationTransport,
+): void {
+  transportFactories.set(channel, factory);
+  transportInstances.delete(channel);
+}
+
+/** Returns the transport registered for `channel`. */
+export function getNotificationTransport(channel: NotificationChannel): NotificationTransport {
+  let transport = transportInstances.get(channel);
+  if (!transport) {
+    const factory = transportFactories.get(channel);
+    if (!factory) {
+      throw new Error(`No notification transport is registered for "${channel}".`);
+    }
+    transport = factory();
+    transportInstances.set(channel, transport);
+  }
+  return transport;
+}
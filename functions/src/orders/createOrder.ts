@@ -0,0 +1,161 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { systemActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { getAppConfig } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import { Order, OrderStatus, PaymentMethod, PaymentStatus, PermissionKey } from '../models';
+import {
+  amount,
+  dateTime,
+  defineSchema,
+  id,
+  listOf,
+  LocationInput,
+  locationInputSchema,
+  nested,
+  oneOf,
+  optional,
+  text,
+  toGeoPoint,
+  toTimestamp,
+  validate,
+} from '../models/validation';
+import { authorizeEntityPayment, PayableType } from '../payments/paymentService';
+import { getPromoForRedemption, recordPromoRedemption } from '../promos/promoService';
+import { getVipBenefits } from '../vip/vipTiers';
+import { isOnlinePayment } from './orderPayments';
+import { transitionOrder } from './orderStateMachine';
+import { CartItem, cartItemSchema, priceOrder } from './pricing';
+
+interface CartData {
+  boxId: string;
+  items: CartItem[];
+  notes?: string;
+}
+
+interface CreateOrderRequest {
+  cartData: CartData;
+  paymentMethod: PaymentMethod;
+  couponCode?: string;
+  tipSmallestUnit?: number;
+  deliveryAddress?: string;
+  deliveryLocation?: LocationInput;
+  scheduledPickupTime?: string;
+  paymentMethodToken?: string;
+}
+
+const cartDataSchema = defineSchema<CartData>('CartData', {
+  boxId: id,
+  items: listOf(nested(cartItemSchema), { minLength: 1 }),
+  notes: optional(text({ maxLength: 500 })),
+});
+
+const requestSchema = defineSchema<CreateOrderRequest>('CreateOrderRequest', {
+  cartData: nested(cartDataSchema),
+  paymentMethod: oneOf(PaymentMethod),
+  couponCode: optional(text({ minLength: 1, maxLength: 32 })),
+  tipSmallestUnit: optional(amount),
+  deliveryAddress: optional(text({ minLength: 1, maxLength: 300 })),
+  deliveryLocation: optional(nested(locationInputSchema)),
+  scheduledPickupTime: optional(dateTime),
+  paymentMethodToken: optional(id),
+}, (request, issues) => {
+  if (isOnlinePayment(request.paymentMethod) && !request.paymentMethodToken) {
+    issues.push(`paymentMethodToken is required for ${request.paymentMethod}`);
+  }
+});
+
+/**
+ * Creates a `Pending` order for the caller.
+ * Prices, tax, discount and total are computed here from the catalog; the client only chooses
+ * products and quantities. The caller's VIP tier discount is applied automatically. In-app payment methods are authorized right away; a declined
+ * authorization fails the order.
+ */
+export const createOrder = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.OrderCreate);
+  const input = validate(requestSchema, request.data);
+  const { boxId, items: cartItems, notes } = input.cartData;
+  const [orderSettings, tipSettings] = await Promise.all([
+    getAppConfig('orderSettings'),
+    getAppConfig('tipSettings'),
+  ]);
+
+  const orderRef = collections.orders().doc();
+  const order = await db().runTransaction(async (transaction) => {
+    const box = (await transaction.get(collections.boxes().doc(boxId))).data();
+    if (!box || !box.isActive) {
+      throw new AppError('failed-precondition', 'error.order.boxUnavailable');
+    }
+    const productRefs = [...new Set(cartItems.map((item) => item.productId))]
+      .map((productId) => collections.products().doc(productId));
+    const productSnapshots = await transaction.getAll(...productRefs);
+    const products = new Map(productSnapshots
+      .filter((snapshot) => snapshot.exists)
+      .map((snapshot) => [snapshot.id, snapshot.data()!]));
+
+    const promo = input.couponCode ?
+      await getPromoForRedemption(transaction, input.couponCode) :
+      undefined;
+    const { benefits } = await getVipBenefits(transaction, actor.userId);
+
+    const now = admin.firestore.Timestamp.now();
+    const pricing = priceOrder({
+      box,
+      products,
+      cartItems,
+      promo,
+      vipDiscountBasisPoints: benefits.discountBasisPoints,
+      tipSmallestUnit: input.tipSmallestUnit,
+      orderSettings,
+      tipSettings,
+      now,
+    });
+
+    const newOrder: Order = {
+      orderId: orderRef.id,
+      customerId: actor.userId,
+      boxId,
+      orderStatus: OrderStatus.Pending,
+      ...pricing,
+      promoCode: promo?.code,
+      paymentMethod: input.paymentMethod,
+      paymentStatus: PaymentStatus.Pending,
+      notes,
+      deliveryAddress: input.deliveryAddress,
+      deliveryLocation: input.deliveryLocation && toGeoPoint(input.deliveryLocation),
+      scheduledPickupTime: input.scheduledPickupTime ? toTimestamp(input.scheduledPickupTime) : undefined,
+      createdAt: now,
+      updatedAt: now,
+      lastModifiedBy: modifiedBy(actor, now),
+    };
+    transaction.set(orderRef, newOrder);
+    if (promo) {
+      recordPromoRedemption(transaction, promo, actor);
+    }
+    return newOrder;
+  });
+
+  let paymentStatus = order.paymentStatus;
+  if (isOnlinePayment(order.paymentMethod) && order.totalSmallestUnit > 0) {
+    const payment = await authorizeEntityPayment(PayableType.Order, order.orderId, input.paymentMethodToken!);
+    paymentStatus = payment.status;
+    if (payment.status !== PaymentStatus.Authorized) {
+      await transitionOrder(order.orderId, OrderStatus.Failed, systemActor, { reason: payment.errorCode });
+      throw new AppError('failed-precondition', 'error.payment.authorizationFailed', {
+        orderId: order.orderId,
+        gatewayErrorCode: payment.errorCode,
+      });
+    }
+  }
+
+  return {
+    success: true,
+    orderId: order.orderId,
+    paymentStatus,
+    totalSmallestUnit: order.totalSmallestUnit,
+    currencyCode: order.currencyCode,
+  };
+});
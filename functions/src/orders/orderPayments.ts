@@ -0,0 +1,39 @@
+import { logger } from 'firebase-functions/v2';
+import { Order, OrderStatus, PaymentMethod, PaymentStatus } from '../models';
+import {
+  captureEntityPayment,
+  PayableType,
+  refundCancelledEntity,
+  voidEntityPayment,
+} from '../payments/paymentService';
+
+/** Payment methods charged through the payment gateway when the order is placed. */
+export const ONLINE_PAYMENT_METHODS: readonly PaymentMethod[] = [PaymentMethod.CreditCardApp, PaymentMethod.BitApp];
+
+/** Returns true when the order is paid through the gateway rather than at the box. */
+export const isOnlinePayment = (method: PaymentMethod | undefined): boolean =>
+  method !== undefined && ONLINE_PAYMENT_METHODS.includes(method);
+
+/**
+ * Moves the order's payment along with its status: the hold is captured on delivery and voided
+ * when the order is cancelled or fails. A cancelled order then records its refund (see
+ * `refundCancelledEntity`). Gateway failures are recorded on the order (`CaptureFailed`/`VoidFailed`)
+ * and do not undo the status change.
+ */
+export async function settleOrderPayment(order: Order): Promise<void> {
+  const { orderStatus, paymentStatus } = order;
+  try {
+    if (orderStatus === OrderStatus.Delivered &&
+      [PaymentStatus.Authorized, PaymentStatus.CaptureFailed].includes(paymentStatus)) {
+      await captureEntityPayment(PayableType.Order, order.orderId);
+    } else if ([OrderStatus.Cancelled, OrderStatus.Failed].includes(orderStatus) &&
+      [PaymentStatus.Authorized, PaymentStatus.VoidFailed].includes(paymentStatus)) {
+      await voidEntityPayment(PayableType.Order, order.orderId);
+    }
+    if (orderStatus === OrderStatus.Cancelled) {
+      await refundCancelledEntity(PayableType.Order, order.orderId);
+    }
+  } catch (error) {
+    logger.error('Failed to settle order payment', { orderId: order.orderId, orderStatus, error });
+  }
+}
@@ -0,0 +1,196 @@
+import * as admin from 'firebase-admin';
+import { modifiedBy } from '../audit/modificationStamp';
+import { Actor, ActorRole, SYSTEM_ROLE } from '../common/actor';
+import { applyCancellationPolicy } from '../cancellations/cancellationPolicy';
+import { AppError } from '../common/errors';
+import { getAppConfig } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import {
+  CancellationInitiator,
+  NotificationType,
+  Order,
+  OrderStatus,
+  UserRole,
+} from '../models';
+import { createNotification } from '../notifications/notificationService';
+import { NotificationTemplateId } from '../notifications/notificationTemplates';
+import { getPromoForRelease, releasePromoRedemption } from '../promos/promoService';
+import { settleOrderPayment } from './orderPayments';
+
+const { Admin, Manager, Courier, Customer } = UserRole;
+const STAFF: readonly ActorRole[] = [Admin, Manager, Courier];
+
+/**
+ * Legal order status transitions and the roles allowed to perform each one.
+ * Statuses without outgoing transitions are terminal.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, readonly ActorRole[]>>> = {
+  [OrderStatus.Pending]: {
+    [OrderStatus.Confirmed]: [...STAFF, SYSTEM_ROLE],
+    [OrderStatus.Cancelled]: [Admin, Manager, Customer, SYSTEM_ROLE],
+    [OrderStatus.Failed]: [Admin, Manager, SYSTEM_ROLE],
+  },
+  [OrderStatus.Confirmed]: {
+    [OrderStatus.Preparing]: STAFF,
+    [OrderStatus.Cancelled]: [Admin, Manager, Customer, SYSTEM_ROLE],
+    [OrderStatus.Failed]: [Admin, Manager, SYSTEM_ROLE],
+  },
+  [OrderStatus.Preparing]: {
+    [OrderStatus.ReadyForPickup]: STAFF,
+    [OrderStatus.Cancelled]: [Admin, Manager, SYSTEM_ROLE],
+    [OrderStatus.Failed]: [Admin, Manager, SYSTEM_ROLE],
+  },
+  [OrderStatus.ReadyForPickup]: {
+    [OrderStatus.OutForDelivery]: STAFF,
+    [OrderStatus.Delivered]: STAFF,
+    [OrderStatus.Cancelled]: [Admin, Manager, SYSTEM_ROLE],
+    [OrderStatus.Failed]: [Admin, Manager, SYSTEM_ROLE],
+  },
+  [OrderStatus.OutForDelivery]: {
+    [OrderStatus.Delivered]: STAFF,
+    [OrderStatus.Failed]: [Admin, Manager, SYSTEM_ROLE],
+  },
+  [OrderStatus.Delivered]: {},
+  [OrderStatus.Cancelled]: {},
+  [OrderStatus.Failed]: {},
+};
+
+/** Customer-facing notification template for each status an order can move to. */
+const STATUS_NOTIFICATIONS: Record<OrderStatus, NotificationTemplateId> = {
+  [OrderStatus.Pending]: 'order.Pending',
+  [OrderStatus.Confirmed]: 'order.Confirmed',
+  [OrderStatus.Preparing]: 'order.Preparing',
+  [OrderStatus.ReadyForPickup]: 'order.ReadyForPickup',
+  [OrderStatus.OutForDelivery]: 'order.OutForDelivery',
+  [OrderStatus.Delivered]: 'order.Delivered',
+  [OrderStatus.Cancelled]: 'order.Cancelled',
+  [OrderStatus.Failed]: 'order.Failed',
+};
+
+/** Optional details supplied with a status change. */
+export interface OrderTransitionDetails {
+  /** Reason for the change, stored on cancellation. */
+  reason?: string;
+}
+
+/** Returns true when the order is delivered to an address rather than picked up at the box. */
+export const isDeliveryOrder = (order: Order): boolean =>
+  order.deliveryLocation !== undefined || order.deliveryAddress !== undefined;
+
+/** Maps the role of an actor to the `CancellationInitiator` recorded on the order. */
+export function cancellationInitiatorFor(role: ActorRole): CancellationInitiator {
+  if (role === Customer) return CancellationInitiator.Customer;
+  if (role === SYSTEM_ROLE) return CancellationInitiator.System;
+  return CancellationInitiator.Staff;
+}
+
+/** Throws unless `actor` may move `order` to `newStatus`. */
+export function assertOrderTransition(order: Order, newStatus: OrderStatus, actor: Actor): void {
+  const allowedRoles = ORDER_TRANSITIONS[order.orderStatus][newStatus];
+  if (!allowedRoles) {
+    throw new AppError('failed-precondition', 'error.order.invalidTransition', {
+      from: order.orderStatus,
+      to: newStatus,
+    });
+  }
+  if (!allowedRoles.includes(actor.role)) {
+    throw new AppError('permission-denied', 'error.order.transitionNotAllowedForRole', {
+      from: order.orderStatus,
+      to: newStatus,
+      role: actor.role,
+    });
+  }
+  if (actor.role === Customer && order.customerId !== actor.userId) {
+    throw new AppError('permission-denied', 'error.order.notOwner');
+  }
+  if (actor.role === Courier && order.courierId && order.courierId !== actor.userId) {
+    throw new AppError('permission-denied', 'error.order.assignedToAnotherCourier');
+  }
+  if (newStatus === OrderStatus.OutForDelivery && !isDeliveryOrder(order)) {
+    throw new AppError('failed-precondition', 'error.order.notADeliveryOrder');
+  }
+  if (order.orderStatus === OrderStatus.ReadyForPickup && newStatus === OrderStatus.Delivered && isDeliveryOrder(order)) {
+    throw new AppError('failed-precondition', 'error.order.mustGoOutForDelivery');
+  }
+}
+
+/** Returns a copy of `order` moved to `newStatus`, after checking the transition is allowed. */
+export function applyOrderTransition(
+  order: Order,
+  newStatus: OrderStatus,
+  actor: Actor,
+  details: OrderTransitionDetails = {},
+  now: admin.firestore.Timestamp = admin.firestore.Timestamp.now(),
+): Order {
+  assertOrderTransition(order, newStatus, actor);
+  const next: Order = { ...order, orderStatus: newStatus, updatedAt: now, lastModifiedBy: modifiedBy(actor, now) };
+  const leavesBox = order.orderStatus === OrderStatus.ReadyForPickup &&
+    (newStatus === OrderStatus.OutForDelivery || newStatus === OrderStatus.Delivered);
+  if (leavesBox && !order.actualPickupTime) {
+    next.actualPickupTime = now;
+  }
+  const handsOver = newStatus === OrderStatus.OutForDelivery || newStatus === OrderStatus.Delivered;
+  if (handsOver && actor.role === Courier) {
+    next.courierId = actor.userId;
+  }
+  if (newStatus === OrderStatus.Delivered) {
+    next.deliveredTimestamp = now;
+  }
+  if (newStatus === OrderStatus.Cancelled) {
+    next.cancellationDetails = {
+      cancelledBy: cancellationInitiatorFor(actor.role),
+      cancellationReason: details.reason,
+      cancellationTimestamp: now,
+      refundProcessed: false,
+    };
+  }
+  return next;
+}
+
+/**
+ * Moves an order to `newStatus` in a transaction, notifies the customer, then captures, voids or
+ * refunds the payment as the new status requires. Cancellations must be allowed by the `orders`
+ * rules of `appConfig/cancellationPolicy`, which also set the refund. A cancelled or failed order
+ * gives back the use of its promo code.
+ * @return The updated order.
+ */
+export async function transitionOrder(
+  orderId: string,
+  newStatus: OrderStatus,
+  actor: Actor,
+  details: OrderTransitionDetails = {},
+): Promise<Order> {
+  const ref = collections.orders().doc(orderId);
+  const policy = newStatus === OrderStatus.Cancelled ? await getAppConfig('cancellationPolicy') : undefined;
+  const updated = await db().runTransaction(async (transaction) => {
+    const order = (await transaction.get(ref)).data();
+    if (!order) {
+      throw new AppError('not-found', 'error.order.notFound');
+    }
+    const next = applyOrderTransition(order, newStatus, actor, details);
+    const releasesPromo = order.promoCode && [OrderStatus.Cancelled, OrderStatus.Failed].includes(newStatus);
+    const promo = releasesPromo ? await getPromoForRelease(transaction, order.promoCode!) : undefined;
+    if (policy && next.cancellationDetails) {
+      next.cancellationDetails = applyCancellationPolicy(
+        policy.orders,
+        order.orderStatus,
+        order.scheduledPickupTime,
+        next.cancellationDetails,
+      );
+    }
+    transaction.set(ref, next);
+    if (promo) {
+      releasePromoRedemption(transaction, promo, actor);
+    }
+    createNotification(transaction, {
+      userId: order.customerId,
+      template: STATUS_NOTIFICATIONS[newStatus],
+      type: NotificationType.OrderUpdate,
+      relatedEntityId: orderId,
+      relatedEntityType: 'Order',
+    });
+    return next;
+  });
+  await settleOrderPayment(updated);
+  return updated;
+}
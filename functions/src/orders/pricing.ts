@@ -0,0 +1,149 @@
+import * as admin from 'firebase-admin';
+import { AppError } from '../common/errors';
+import { OrderSettings, TipSettings } from '../config/appConfig';
+import { Box, OrderItem, Product, PromoCode } from '../models';
+import { defineSchema, id, int } from '../models/validation';
+import { evaluatePromo, PromoContext, PromoTargetKind } from '../promos/promoEngine';
+
+/** A cart line as sent by the client: only the product and quantity are trusted. */
+export interface CartItem {
+  productId: string;
+  quantity: number;
+}
+
+export const cartItemSchema = defineSchema<CartItem>('CartItem', {
+  productId: id,
+  quantity: int({ positive: true }),
+});
+
+/** Everything needed to price an order. */
+export interface PricingInput {
+  box: Box;
+  /** Products referenced by the cart, keyed by product ID. */
+  products: Map<string, Product>;
+  cartItems: CartItem[];
+  promo?: PromoCode;
+  /** Discount of the customer's VIP tier, in basis points (optional). */
+  vipDiscountBasisPoints?: number;
+  tipSmallestUnit?: number;
+  orderSettings: OrderSettings;
+  tipSettings: TipSettings;
+  now?: admin.firestore.Timestamp;
+}
+
+/** Server-computed order amounts, all in the box currency's smallest unit. */
+export interface OrderPricing {
+  items: OrderItem[];
+  currencyCode: string;
+  subtotalSmallestUnit: number;
+  /** Promo and VIP discounts together. */
+  discountSmallestUnit: number;
+  vipDiscountSmallestUnit: number;
+  taxSmallestUnit: number;
+  tipSmallestUnit: number;
+  totalSmallestUnit: number;
+}
+
+/** Merges cart lines that refer to the same product. */
+export function mergeCartItems(cartItems: CartItem[]): CartItem[] {
+  const quantities = new Map<string, number>();
+  for (const { productId, quantity } of cartItems) {
+    quantities.set(productId, (quantities.get(productId) ?? 0) + quantity);
+  }
+  return [...quantities].map(([productId, quantity]) => ({ productId, quantity }));
+}
+
+/** Builds an order line from the catalog, rejecting products that can't be sold at `box`. */
+export function toOrderItem(box: Box, product: Product | undefined, item: CartItem): OrderItem {
+  if (!product || !product.isActive) {
+    throw new AppError('failed-precondition', 'error.order.productUnavailable', { productId: item.productId });
+  }
+  if (!product.availableAtBoxes?.includes(box.boxId)) {
+    throw new AppError('failed-precondition', 'error.order.productNotAtBox', { productId: item.productId });
+  }
+  if (product.currencyCode !== box.currencyCode) {
+    throw new AppError('failed-precondition', 'error.order.mixedCurrencies', {
+      productId: item.productId,
+      productCurrency: product.currencyCode,
+      boxCurrency: box.currencyCode,
+    });
+  }
+  return {
+    productId: product.productId,
+    productName: product.name,
+    quantity: item.quantity,
+    unitPriceSmallestUnit: product.priceSmallestUnit,
+  };
+}
+
+/** Checks the tip against `tipSettings`. */
+function validateTip(tip: number, subtotal: number, tipSettings: TipSettings): void {
+  if (tip === 0) return;
+  if (!tipSettings.tipEnabled) {
+    throw new AppError('invalid-argument', 'error.order.tipDisabled');
+  }
+  const offered = tipSettings.tipOptionsPercentage.map((percentage) => Math.round((subtotal * percentage) / 100));
+  if (!tipSettings.allowCustomTip && !offered.includes(tip)) {
+    throw new AppError('invalid-argument', 'error.order.customTipNotAllowed');
+  }
+}
+
+/** Merges, checks and prices the cart lines against the catalog. */
+export function buildOrderItems(
+  box: Box,
+  products: Map<string, Product>,
+  cartItems: CartItem[],
+  orderSettings: OrderSettings,
+): OrderItem[] {
+  const merged = mergeCartItems(cartItems);
+  if (merged.length === 0) {
+    throw new AppError('invalid-argument', 'error.order.emptyCart');
+  }
+  if (merged.length > orderSettings.maxItemsPerOrder) {
+    throw new AppError('invalid-argument', 'error.order.tooManyItems');
+  }
+  if (merged.some((item) => item.quantity > orderSettings.maxQuantityPerItem)) {
+    throw new AppError('invalid-argument', 'error.order.quantityTooLarge');
+  }
+  return merged.map((item) => toOrderItem(box, products.get(item.productId), item));
+}
+
+/** Promo context for a set of order lines. */
+export const orderPromoContext = (items: OrderItem[], currencyCode: string): PromoContext => ({
+  kind: PromoTargetKind.Order,
+  currencyCode,
+  lines: items.map((item) => ({
+    itemId: item.productId,
+    amountSmallestUnit: item.unitPriceSmallestUnit * item.quantity,
+  })),
+});
+
+/**
+ * Prices an order from catalog data only.
+ * The VIP discount applies to the subtotal after the promo discount. Tax is applied to the
+ * subtotal after both discounts; the tip is neither taxed nor discounted.
+ */
+export function priceOrder(input: PricingInput): OrderPricing {
+  const { box } = input;
+  const items = buildOrderItems(box, input.products, input.cartItems, input.orderSettings);
+  const subtotal = items.reduce((sum, item) => sum + item.unitPriceSmallestUnit * item.quantity, 0);
+  const promoDiscount = input.promo ?
+    evaluatePromo(input.promo, orderPromoContext(items, box.currencyCode), input.now).discountSmallestUnit :
+    0;
+  const vipDiscount = Math.round(((subtotal - promoDiscount) * (input.vipDiscountBasisPoints ?? 0)) / 10000);
+  const discount = promoDiscount + vipDiscount;
+  const tax = Math.round(((subtotal - discount) * input.orderSettings.taxRateBasisPoints) / 10000);
+  const tip = input.tipSmallestUnit ?? 0;
+  validateTip(tip, subtotal, input.tipSettings);
+
+  return {
+    items,
+    currencyCode: box.currencyCode,
+    subtotalSmallestUnit: subtotal,
+    discountSmallestUnit: discount,
+    vipDiscountSmallestUnit: vipDiscount,
+    taxSmallestUnit: tax,
+    tipSmallestUnit: tip,
+    totalSmallestUnit: subtotal - discount + tax + tip,
+  };
+}
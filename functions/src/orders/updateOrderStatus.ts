@@ -0,0 +1,36 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { resolveActor } from '../common/actor';
+import { requirePermission } from '../common/permissions';
+import { OrderStatus, PermissionKey } from '../models';
+import { defineSchema, id, nested, oneOf, optional, text, validate } from '../models/validation';
+import { transitionOrder } from './orderStateMachine';
+
+interface UpdateOrderStatusRequest {
+  orderId: string;
+  newStatus: OrderStatus;
+  details?: { reason?: string };
+}
+
+const detailsSchema = defineSchema<{ reason?: string }>('UpdateOrderStatusDetails', {
+  reason: optional(text({ maxLength: 500 })),
+});
+
+const requestSchema = defineSchema<UpdateOrderStatusRequest>('UpdateOrderStatusRequest', {
+  orderId: id,
+  newStatus: oneOf(OrderStatus),
+  details: optional(nested(detailsSchema)),
+});
+
+/**
+ * Moves an order along its lifecycle on behalf of the caller (see `ORDER_TRANSITIONS`).
+ * Requires `order:updateStatus`, except for cancelling, which customers may do on their own orders.
+ */
+export const updateOrderStatus = onCall(async (request) => {
+  const actor = await resolveActor(request);
+  const { orderId, newStatus, details } = validate(requestSchema, request.data);
+  if (newStatus !== OrderStatus.Cancelled) {
+    await requirePermission(actor, PermissionKey.OrderUpdateStatus);
+  }
+  await transitionOrder(orderId, newStatus, actor, { reason: details?.reason });
+  return { success: true };
+});
@@ -0,0 +1,99 @@
+import { randomBytes } from 'crypto';
+import { AuthorizeRequest, AuthorizeResult, PaymentGateway, PaymentGatewayError } from './gateway';
+
+/**
+ * Payment method tokens that make the fake gateway fail a given step.
+ * Any other token succeeds.
+ */
+export const FakeTokens = {
+  DeclineAuthorization: 'tok_decline',
+  FailCapture: 'tok_fail_capture',
+  FailVoid: 'tok_fail_void',
+  FailRefund: 'tok_fail_refund',
+} as const;
+
+/** What an authorization or capture ID carries: the failing token, if any, and the amount it holds. */
+interface FakeHold {
+  failingToken?: string;
+  amountSmallestUnit: number;
+}
+
+const FAILING_TOKENS: readonly string[] = Object.values(FakeTokens);
+
+/** A unique ID for `prefix`, carrying `hold` when given. */
+function newId(prefix: string, hold?: FakeHold): string {
+  const id = `fake_${prefix}_${randomBytes(8).toString('hex')}`;
+  return hold ? `${id}.${Buffer.from(JSON.stringify(hold)).toString('base64url')}` : id;
+}
+
+/** The hold carried by an ID issued by `newId(prefix, hold)`. */
+function readHold(prefix: string, id: string, notFoundCode: string): FakeHold {
+  const match = new RegExp(`^fake_${prefix}_[0-9a-f]{16}\\.([A-Za-z0-9_-]+)$`).exec(id);
+  let hold: Partial<FakeHold> | undefined;
+  try {
+    hold = match ? JSON.parse(Buffer.from(match[1], 'base64url').toString()) : undefined;
+  } catch {
+    hold = undefined;
+  }
+  if (!hold || typeof hold.amountSmallestUnit !== 'number') {
+    throw new PaymentGatewayError(notFoundCode, `Unknown ID ${id}`);
+  }
+  return { failingToken: hold.failingToken, amountSmallestUnit: hold.amountSmallestUnit };
+}
+
+/**
+ * Stateless gateway for the emulator and tests. It keeps nothing between calls, so any instance
+ * can capture, void or refund what another one authorized: authorization and capture IDs are
+ * random and carry the failing token and the amount held, and every step is decided from the ID.
+ * Captures above the hold and refunds above the captured amount are rejected; closing an
+ * authorization twice is left to the caller, which tracks it on the payment details.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake';
+
+  async authorize(request: AuthorizeRequest): Promise<AuthorizeResult> {
+    if (request.paymentMethodToken === FakeTokens.DeclineAuthorization) {
+      throw new PaymentGatewayError('card_declined', 'The card was declined.');
+    }
+    if (request.amountSmallestUnit <= 0) {
+      throw new PaymentGatewayError('invalid_amount', 'Amount must be positive.');
+    }
+    const failingToken = FAILING_TOKENS.includes(request.paymentMethodToken) ? request.paymentMethodToken : undefined;
+    return {
+      transactionId: newId('txn'),
+      authorizationId: newId('auth', { failingToken, amountSmallestUnit: request.amountSmallestUnit }),
+      paymentMethodType: 'card',
+      last4: '4242',
+    };
+  }
+
+  async capture(authorizationId: string, amountSmallestUnit: number): Promise<{ captureId: string }> {
+    const authorization = readHold('auth', authorizationId, 'authorization_not_found');
+    if (authorization.failingToken === FakeTokens.FailCapture) {
+      throw new PaymentGatewayError('capture_failed', 'The processor could not capture the payment.');
+    }
+    if (amountSmallestUnit <= 0 || amountSmallestUnit > authorization.amountSmallestUnit) {
+      throw new PaymentGatewayError('invalid_amount', 'Capture amount exceeds the authorized amount.');
+    }
+    return { captureId: newId('cap', { failingToken: authorization.failingToken, amountSmallestUnit }) };
+  }
+
+  async void(authorizationId: string): Promise<{ voidId: string }> {
+    const authorization = readHold('auth', authorizationId, 'authorization_not_found');
+    if (authorization.failingToken === FakeTokens.FailVoid) {
+      throw new PaymentGatewayError('void_failed', 'The processor could not void the authorization.');
+    }
+    return { voidId: newId('void') };
+  }
+
+  async refund(captureId: string, amountSmallestUnit: number): Promise<{ refundId: string }> {
+    const capture = readHold('cap', captureId, 'capture_not_found');
+    if (capture.failingToken === FakeTokens.FailRefund) {
+      throw new PaymentGatewayError('refund_failed', 'The processor could not refund the payment.');
+    }
+    if (amountSmallestUnit <= 0 || amountSmallestUnit > capture.amountSmallestUnit) {
+      throw new PaymentGatewayError('invalid_amount', 'Refund amount exceeds the captured amount.');
+    }
+    return { refundId: newId('ref') };
+  }
+}
@@ -0,0 +1,82 @@
+/** Request to place a hold on a customer's payment method. */
+export interface AuthorizeRequest {
+  amountSmallestUnit: number;
+  currencyCode: string;
+  /** Token identifying the payment method, produced by the client SDK of the processor. */
+  paymentMethodToken: string;
+  /** Processor-side customer ID, if the customer has one. */
+  customerId?: string;
+  /** Our reference for the charge, e.g. "Order/abc123"; also used as idempotency key. */
+  reference: string;
+}
+
+/** Result of a successful authorization. */
+export interface AuthorizeResult {
+  transactionId: string;
+  authorizationId: string;
+  paymentMethodType: string;
+  last4?: string;
+}
+
+/** Error reported by a gateway when the processor declines or fails an operation. */
+export class PaymentGatewayError extends Error {
+  /** Processor error code, stored in `PaymentDetails.errorCode`. */
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+/**
+ * A payment processor.
+ * Implementations throw `PaymentGatewayError` for declines and processor failures.
+ */
+export interface PaymentGateway {
+  /** Name stored in `PaymentDetails.gateway`, used to route follow-up operations. */
+  readonly name: string;
+  /** Places a hold for the full amount. */
+  authorize(request: AuthorizeRequest): Promise<AuthorizeResult>;
+  /** Captures up to the authorized amount; the rest of the hold is released. */
+  capture(authorizationId: string, amountSmallestUnit: number): Promise<{ captureId: string }>;
+  /** Releases a hold that was not captured. */
+  void(authorizationId: string): Promise<{ voidId: string }>;
+  /** Refunds part or all of a capture. */
+  refund(captureId: string, amountSmallestUnit: number): Promise<{ refundId: string }>;
+}
+
+const gatewayFactories = new Map<string, () => PaymentGateway>();
+const gatewayInstances = new Map<string, PaymentGateway>();
+
+/** Makes a gateway available under `name`. */
+export function registerPaymentGateway(name: string, factory: () => PaymentGateway): void {
+  gatewayFactories.set(name, factory);
+  gatewayInstances.delete(name);
+}
+
+/**
+ * The configured default gateway: the `PAYMENT_GATEWAY` environment variable, or "fake" when it is
+ * unset in the emulator. Outside the emulator an unset variable is a configuration error, so a
+ * missing setting never takes real orders through the fake gateway.
+ */
+function defaultGatewayName(): string {
+  const name = process.env.PAYMENT_GATEWAY;
+  if (name) return name;
+  if (process.env.FUNCTIONS_EMULATOR === 'true') return 'fake';
+  throw new Error('PAYMENT_GATEWAY must be set outside the emulator.');
+}
+
+/** Returns the gateway registered under `name`, or the configured default. */
+export function getPaymentGateway(name: string = defaultGatewayName()): PaymentGateway {
+  let gateway = gatewayInstances.get(name);
+  if (!gateway) {
+    const factory = gatewayFactories.get(name);
+    if (!factory) {
+      throw new Error(`Payment gateway "${name}" is not registered.`);
+    }
+    gateway = factory();
+    gatewayInstances.set(name, gateway);
+  }
+  return gateway;
+}
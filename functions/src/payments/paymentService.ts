@@ -0,0 +1,327 @@
+import * as admin from 'firebase-admin';
+import { modifiedBy } from '../audit/modificationStamp';
+import { systemActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { collections, db } from '../models/collections';
+import {
+  EventBooking,
+  Order,
+  PaymentDetails,
+  PaymentStatus,
+  RefundDetails,
+  RentalBooking,
+} from '../models';
+import { FakePaymentGateway } from './fakeGateway';
+import { AuthorizeRequest, getPaymentGateway, PaymentGatewayError, registerPaymentGateway } from './gateway';
+
+registerPaymentGateway('fake', () => new FakePaymentGateway());
+
+/** Entities that carry a `paymentStatus` and `paymentDetails`. */
+export enum PayableType {
+  Order = 'Order',
+  RentalBooking = 'RentalBooking',
+  EventBooking = 'EventBooking',
+}
+
+type Payable = Order | RentalBooking | EventBooking;
+
+const payableCollections = {
+  [PayableType.Order]: collections.orders,
+  [PayableType.RentalBooking]: collections.rentalBookings,
+  [PayableType.EventBooking]: collections.eventBookings,
+} as Record<PayableType, () => admin.firestore.CollectionReference<Payable>>;
+
+/** Amount to authorize for an entity: order total, rental deposit or event price. */
+export function payableAmount(type: PayableType, entity: Payable): number {
+  switch (type) {
+  case PayableType.Order:
+    return (entity as Order).totalSmallestUnit;
+  case PayableType.RentalBooking:
+    return (entity as RentalBooking).depositSmallestUnit;
+  case PayableType.EventBooking:
+    return (entity as EventBooking).totalPriceSmallestUnit;
+  }
+}
+
+/** Total refunded from a payment so far. */
+export const refundedAmount = (details: PaymentDetails): number =>
+  (details.refundDetails ?? []).reduce((sum, refund) => sum + refund.amountSmallestUnit, 0);
+
+const CAPTURED_STATUSES = [PaymentStatus.Captured, PaymentStatus.PartiallyRefunded, PaymentStatus.Refunded];
+
+/** Amount captured by a payment, refunded or not; 0 when nothing was captured. */
+export const capturedAmount = (details: PaymentDetails | undefined): number =>
+  details && CAPTURED_STATUSES.includes(details.status) ? details.amountSmallestUnit : 0;
+
+/** Amount captured by a payment less its refunds; 0 when nothing was captured. */
+export function netCapturedAmount(details: PaymentDetails | undefined): number {
+  const captured = capturedAmount(details);
+  return details && captured > 0 ? captured - refundedAmount(details) : 0;
+}
+
+function assertStatus(details: PaymentDetails, allowed: PaymentStatus[], operation: string): void {
+  if (!allowed.includes(details.status)) {
+    throw new AppError('failed-precondition', 'error.payment.invalidState', { operation, status: details.status });
+  }
+}
+
+const failure = (error: unknown): Pick<PaymentDetails, 'errorCode' | 'errorMessage'> =>
+  error instanceof PaymentGatewayError ?
+    { errorCode: error.code, errorMessage: error.message } :
+    { errorCode: 'gateway_error', errorMessage: String(error) };
+
+// --- Operations on PaymentDetails ---
+
+/**
+ * Places a hold with the default gateway.
+ * A decline is not thrown: it is returned as `AuthorizationFailed` details so it can be stored.
+ */
+export async function authorizePayment(request: AuthorizeRequest): Promise<PaymentDetails> {
+  const gateway = getPaymentGateway();
+  const base = {
+    gateway: gateway.name,
+    amountSmallestUnit: request.amountSmallestUnit,
+    currencyCode: request.currencyCode,
+    timestamp: admin.firestore.Timestamp.now(),
+  };
+  try {
+    const result = await gateway.authorize(request);
+    return {
+      ...base,
+      transactionId: result.transactionId,
+      authorizationId: result.authorizationId,
+      paymentMethodType: result.paymentMethodType,
+      last4: result.last4,
+      status: PaymentStatus.Authorized,
+    };
+  } catch (error) {
+    return {
+      ...base,
+      transactionId: request.reference,
+      paymentMethodType: 'unknown',
+      status: PaymentStatus.AuthorizationFailed,
+      ...failure(error),
+    };
+  }
+}
+
+/** Captures `amountSmallestUnit` (default: the full hold) of an authorization. */
+export async function capturePayment(
+  details: PaymentDetails,
+  amountSmallestUnit: number = details.amountSmallestUnit,
+): Promise<PaymentDetails> {
+  assertStatus(details, [PaymentStatus.Authorized, PaymentStatus.CaptureFailed], 'capture');
+  if (amountSmallestUnit <= 0 || amountSmallestUnit > details.amountSmallestUnit) {
+    throw new AppError('invalid-argument', 'error.payment.invalidAmount');
+  }
+  const timestamp = admin.firestore.Timestamp.now();
+  try {
+    const { captureId } = await getPaymentGateway(details.gateway).capture(details.authorizationId!, amountSmallestUnit);
+    return {
+      ...details,
+      captureId,
+      amountSmallestUnit,
+      status: PaymentStatus.Captured,
+      timestamp,
+      errorCode: undefined,
+      errorMessage: undefined,
+    };
+  } catch (error) {
+    return { ...details, status: PaymentStatus.CaptureFailed, timestamp, ...failure(error) };
+  }
+}
+
+/** Releases an authorization that was not captured. */
+export async function voidPayment(details: PaymentDetails): Promise<PaymentDetails> {
+  assertStatus(details, [PaymentStatus.Authorized, PaymentStatus.VoidFailed], 'void');
+  const timestamp = admin.firestore.Timestamp.now();
+  try {
+    const { voidId } = await getPaymentGateway(details.gateway).void(details.authorizationId!);
+    return {
+      ...details,
+      voidId,
+      status: PaymentStatus.Voided,
+      timestamp,
+      errorCode: undefined,
+      errorMessage: undefined,
+    };
+  } catch (error) {
+    return { ...details, status: PaymentStatus.VoidFailed, timestamp, ...failure(error) };
+  }
+}
+
+/**
+ * Refunds part or all of a captured payment.
+ * The status becomes `Refunded` once refunds cover the captured amount, `PartiallyRefunded` before.
+ * A failed refund changes nothing and is thrown.
+ */
+export async function refundPayment(
+  details: PaymentDetails,
+  amountSmallestUnit: number,
+  reason?: string,
+): Promise<PaymentDetails> {
+  assertStatus(details, [PaymentStatus.Captured, PaymentStatus.PartiallyRefunded], 'refund');
+  const remaining = details.amountSmallestUnit - refundedAmount(details);
+  if (amountSmallestUnit <= 0 || amountSmallestUnit > remaining) {
+    throw new AppError('invalid-argument', 'error.payment.invalidAmount', { refundableSmallestUnit: remaining });
+  }
+  let refundId: string;
+  try {
+    ({ refundId } = await getPaymentGateway(details.gateway).refund(details.captureId!, amountSmallestUnit));
+  } catch (error) {
+    throw new AppError('aborted', 'error.payment.refundFailed', failure(error));
+  }
+  const refund: RefundDetails = {
+    refundId,
+    amountSmallestUnit,
+    currencyCode: details.currencyCode,
+    timestamp: admin.firestore.Timestamp.now(),
+    reason,
+  };
+  const refundDetails = [...(details.refundDetails ?? []), refund];
+  const fullyRefunded = amountSmallestUnit === remaining;
+  return {
+    ...details,
+    refundDetails,
+    status: fullyRefunded ? PaymentStatus.Refunded : PaymentStatus.PartiallyRefunded,
+  };
+}
+
+// --- Operations on entities ---
+
+async function getPayable(type: PayableType, id: string): Promise<Payable> {
+  const entity = (await payableCollections[type]().doc(id).get()).data();
+  if (!entity) {
+    throw new AppError('not-found', 'error.payment.entityNotFound', { type, id });
+  }
+  return entity;
+}
+
+function requirePaymentDetails(entity: Payable): PaymentDetails {
+  if (!entity.paymentDetails) {
+    throw new AppError('failed-precondition', 'error.payment.notAuthorized');
+  }
+  return entity.paymentDetails;
+}
+
+/**
+ * Stores the outcome of a gateway call on the entity.
+ * Gateway calls happen outside transactions (they must not be retried), so the entity is re-read
+ * here and only its payment fields are replaced. `paymentStatus` follows `paymentDetails`; the
+ * rental final charge is stored without touching it.
+ */
+export async function savePaymentDetails(
+  type: PayableType,
+  id: string,
+  details: PaymentDetails,
+  field: 'paymentDetails' | 'finalChargePaymentDetails' = 'paymentDetails',
+): Promise<void> {
+  const ref = payableCollections[type]().doc(id);
+  await db().runTransaction(async (transaction) => {
+    const latest = (await transaction.get(ref)).data();
+    if (!latest) {
+      throw new AppError('not-found', 'error.payment.entityNotFound', { type, id });
+    }
+    const now = admin.firestore.Timestamp.now();
+    transaction.set(ref, {
+      ...latest,
+      ...(field === 'paymentDetails' ? { paymentStatus: details.status } : {}),
+      [field]: details,
+      updatedAt: now,
+      lastModifiedBy: modifiedBy(systemActor, now),
+    });
+  });
+}
+
+/** Authorizes the entity's amount on the customer's payment method. */
+export async function authorizeEntityPayment(
+  type: PayableType,
+  id: string,
+  paymentMethodToken: string,
+): Promise<PaymentDetails> {
+  const entity = await getPayable(type, id);
+  if (![PaymentStatus.Pending, PaymentStatus.AuthorizationFailed].includes(entity.paymentStatus)) {
+    throw new AppError('failed-precondition', 'error.payment.invalidState', {
+      operation: 'authorize',
+      status: entity.paymentStatus,
+    });
+  }
+  const details = await authorizePayment({
+    amountSmallestUnit: payableAmount(type, entity),
+    currencyCode: entity.currencyCode,
+    paymentMethodToken,
+    reference: `${type}/${id}`,
+  });
+  await savePaymentDetails(type, id, details);
+  return details;
+}
+
+/** Captures the entity's authorization (fully unless `amountSmallestUnit` is given). */
+export async function captureEntityPayment(
+  type: PayableType,
+  id: string,
+  amountSmallestUnit?: number,
+): Promise<PaymentDetails> {
+  const details = await capturePayment(requirePaymentDetails(await getPayable(type, id)), amountSmallestUnit);
+  await savePaymentDetails(type, id, details);
+  return details;
+}
+
+/** Voids the entity's authorization. */
+export async function voidEntityPayment(type: PayableType, id: string): Promise<PaymentDetails> {
+  const details = await voidPayment(requirePaymentDetails(await getPayable(type, id)));
+  await savePaymentDetails(type, id, details);
+  return details;
+}
+
+/** Statuses of a payment whose hold is neither captured nor released yet. */
+const OPEN_HOLD_STATUSES = [PaymentStatus.Authorized, PaymentStatus.CaptureFailed, PaymentStatus.VoidFailed];
+
+/**
+ * Refunds the captured payment of a cancelled entity by the `refundPercentage` its cancellation
+ * policy set, then records `refundProcessed` with the refund. Nothing happens while a hold is still
+ * open (it is voided instead) or once the refund was processed. A failed refund is thrown and leaves
+ * `refundProcessed` unset.
+ */
+export async function refundCancelledEntity(type: PayableType, id: string): Promise<void> {
+  const { cancellationDetails: cancellation, paymentDetails: payment } = await getPayable(type, id);
+  if (!cancellation || cancellation.refundProcessed) return;
+  if (payment && OPEN_HOLD_STATUSES.includes(payment.status)) return;
+  const amount = Math.min(
+    netCapturedAmount(payment),
+    Math.floor((capturedAmount(payment) * (cancellation.refundPercentage ?? 0)) / 100),
+  );
+  const refunded = payment && amount > 0 ?
+    await refundPayment(payment, amount, cancellation.cancellationReason) :
+    undefined;
+
+  const ref = payableCollections[type]().doc(id);
+  await db().runTransaction(async (transaction) => {
+    const latest = (await transaction.get(ref)).data();
+    if (!latest?.cancellationDetails) return;
+    const now = admin.firestore.Timestamp.now();
+    transaction.set(ref, {
+      ...latest,
+      ...(refunded ? { paymentStatus: refunded.status, paymentDetails: refunded } : {}),
+      cancellationDetails: {
+        ...latest.cancellationDetails,
+        refundProcessed: true,
+        refundDetails: refunded?.refundDetails?.[refunded.refundDetails.length - 1],
+      },
+      updatedAt: now,
+      lastModifiedBy: modifiedBy(systemActor, now),
+    });
+  });
+}
+
+/** Refunds part or all of the entity's captured payment. */
+export async function refundEntityPayment(
+  type: PayableType,
+  id: string,
+  amountSmallestUnit: number,
+  reason?: string,
+): Promise<PaymentDetails> {
+  const details = await refundPayment(requirePaymentDetails(await getPayable(type, id)), amountSmallestUnit, reason);
+  await savePaymentDetails(type, id, details);
+  return details;
+}
@@ -0,0 +1,161 @@
+import * as admin from 'firebase-admin';
+import { logger } from 'firebase-functions/v2';
+import { onCall } from 'firebase-functions/v2/https';
+import { AuditChanges, redactChanges } from '../audit/auditDiff';
+import { modifiedBy } from '../audit/modificationStamp';
+import { requireAuth, resolveActor, systemActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { collections, db } from '../models/collections';
+import { AuditLog, UserRole } from '../models';
+import { PayableType } from '../payments/paymentService';
+import {
+  ANONYMIZED_USER_ID,
+  anonymizeEventBooking,
+  anonymizeOrder,
+  anonymizeRentalBooking,
+  findDeletionBlockers,
+  loadCustomerRecords,
+  PERSONAL_FIELDS,
+} from './userData';
+
+/** Most writes Firestore accepts in one batch. */
+const MAX_BATCH_WRITES = 500;
+
+/** Most values Firestore accepts in one `in` filter. */
+const MAX_IN_VALUES = 30;
+
+/** Entity type of the audit logs of `users` documents. */
+const USER_ENTITY_TYPE = 'User';
+
+type BatchWrite = (batch: admin.firestore.WriteBatch) => void;
+
+/** Audit logs of the given entities, queried in chunks. */
+async function loadAuditLogsOf(entityIds: string[]): Promise<AuditLog[]> {
+  const chunks: string[][] = [];
+  for (let start = 0; start < entityIds.length; start += MAX_IN_VALUES) {
+    chunks.push(entityIds.slice(start, start + MAX_IN_VALUES));
+  }
+  const snapshots = await Promise.all(chunks.map((chunk) =>
+    collections.auditLogs().where('entityId', 'in', chunk).get()));
+  return snapshots.flatMap((snapshot) => snapshot.docs.map((doc) => doc.data()));
+}
+
+/** `log` with the deleted user's identity removed and, for their own records, their personal data redacted. */
+function anonymizeAuditLog(log: AuditLog, userId: string, ownEntityIds: Set<string>): AuditLog {
+  const changes = log.changes as AuditChanges;
+  const personalFields = log.entityType === USER_ENTITY_TYPE ?
+    Object.keys(changes) :
+    PERSONAL_FIELDS[log.entityType as PayableType] ?? [];
+  const actedByUser = log.userId === userId;
+  return {
+    ...log,
+    userId: actedByUser ? ANONYMIZED_USER_ID : log.userId,
+    userEmail: actedByUser ? undefined : log.userEmail,
+    ipAddress: actedByUser ? undefined : log.ipAddress,
+    changes: ownEntityIds.has(log.entityId) ? redactChanges(changes, personalFields) : changes,
+  };
+}
+
+async function commitInBatches(writes: BatchWrite[]): Promise<void> {
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    const batch = db().batch();
+    writes.slice(start, start + MAX_BATCH_WRITES).forEach((write) => write(batch));
+    await batch.commit();
+  }
+}
+
+async function disableAuthUser(userId: string): Promise<void> {
+  await admin.auth().updateUser(userId, { disabled: true });
+  await admin.auth().revokeRefreshTokens(userId);
+}
+
+/**
+ * Deletes the caller's account. Refused while any of their orders, rentals or events is in
+ * progress or has a payment to settle. Orders and bookings are kept for the books with the
+ * customer's personal data erased; feedback and audit logs are anonymized; notifications,
+ * notification preferences, OTPs and the MFA configuration are deleted. The profile is blanked and
+ * deactivated, and the Auth user is disabled. Staff accounts are removed by an admin instead.
+ * The steps run in an order that lets a retry finish an interrupted deletion: audit logs and the
+ * other data are handled while the orders and bookings still name the customer, the profile is
+ * blanked after them, and a retry on a blanked profile only disables the Auth user.
+ */
+export const deleteMyAccount = onCall(async (request) => {
+  const profile = (await collections.users().doc(requireAuth(request)).get()).data();
+  if (profile?.anonymizedAt) {
+    await disableAuthUser(profile.userId);
+    return { success: true };
+  }
+  const actor = await resolveActor(request);
+  if (actor.role !== UserRole.Customer) {
+    throw new AppError('failed-precondition', 'error.account.staffAccount');
+  }
+  const userId = actor.userId;
+  const records = await loadCustomerRecords(userId);
+  const blockers = findDeletionBlockers(records);
+  if (blockers.length > 0) {
+    throw new AppError('failed-precondition', 'error.account.deletionBlocked', { blockers });
+  }
+
+  const ownEntityIds = new Set([
+    userId,
+    ...records.orders.map((order) => order.orderId),
+    ...records.rentalBookings.map((booking) => booking.bookingId),
+    ...records.eventBookings.map((event) => event.eventBookingId),
+  ]);
+  const [feedback, notifications, otps, actedLogs, entityLogs] = await Promise.all([
+    collections.userFeedback().where('customerId', '==', userId).get(),
+    collections.notifications().where('userId', '==', userId).get(),
+    collections.otps().where('userId', '==', userId).get(),
+    collections.auditLogs().where('userId', '==', userId).get(),
+    loadAuditLogsOf([...ownEntityIds]),
+  ]);
+  const auditLogs = new Map<string, AuditLog>([
+    ...actedLogs.docs.map((doc): [string, AuditLog] => [doc.id, doc.data()]),
+    ...entityLogs.map((log): [string, AuditLog] => [log.logId, log]),
+  ]);
+
+  const now = admin.firestore.Timestamp.now();
+  const stamp = { updatedAt: now, lastModifiedBy: modifiedBy(systemActor, now) };
+  const cleanup: BatchWrite[] = [
+    ...feedback.docs.map((doc): BatchWrite => (batch) =>
+      batch.set(doc.ref, { ...doc.data(), customerId: ANONYMIZED_USER_ID, comments: undefined })),
+    ...[...auditLogs.values()].map((log): BatchWrite => (batch) =>
+      batch.set(collections.auditLogs().doc(log.logId), anonymizeAuditLog(log, userId, ownEntityIds))),
+    ...notifications.docs.map((doc): BatchWrite => (batch) => batch.delete(doc.ref)),
+    ...otps.docs.map((doc): BatchWrite => (batch) => batch.delete(doc.ref)),
+    (batch) => batch.delete(collections.notificationPreferences().doc(userId)),
+    (batch) => batch.delete(collections.mfaConfigs().doc(userId)),
+  ];
+  const anonymizations: BatchWrite[] = [
+    ...records.orders.map((order): BatchWrite => (batch) =>
+      batch.set(collections.orders().doc(order.orderId), { ...anonymizeOrder(order, now), ...stamp })),
+    ...records.rentalBookings.map((booking): BatchWrite => (batch) => batch.set(
+      collections.rentalBookings().doc(booking.bookingId),
+      { ...anonymizeRentalBooking(booking, now), ...stamp },
+    )),
+    ...records.eventBookings.map((event): BatchWrite => (batch) => batch.set(
+      collections.eventBookings().doc(event.eventBookingId),
+      { ...anonymizeEventBooking(event, now), ...stamp },
+    )),
+  ];
+  await commitInBatches(cleanup);
+  await commitInBatches(anonymizations);
+
+  if (profile) {
+    await collections.users().doc(userId).set({
+      userId,
+      email: '',
+      firstName: '',
+      lastName: '',
+      role: profile.role,
+      isActive: false,
+      mfaEnabled: false,
+      createdAt: profile.createdAt,
+      anonymizedAt: now,
+      ...stamp,
+    });
+  }
+  await disableAuthUser(userId);
+  logger.info('Deleted account on request', { userId });
+  return { success: true };
+});
@@ -0,0 +1,58 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { consumeRateLimit } from '../auth/rateLimiter';
+import { resolveActor } from '../common/actor';
+import { getAppConfig } from '../config/appConfig';
+import { collections } from '../models/collections';
+import { loadCustomerRecords, toExportValue } from './userData';
+
+/** Rate limit scope of data exports. */
+const EXPORT_SCOPE = 'dataExport';
+
+/** Version of the archive layout, raised when fields are renamed or removed. */
+const ARCHIVE_FORMAT_VERSION = 1;
+
+/**
+ * Assembles everything stored about the caller as JSON: profile, orders, bookings, feedback,
+ * notifications and preferences, sign-in codes, MFA status and the audit trail of their own
+ * changes. Secrets (OTP codes, the MFA secret and backup codes) are left out.
+ */
+export const exportMyData = onCall(async (request) => {
+  const actor = await resolveActor(request);
+  const settings = await getAppConfig('privacySettings');
+  await consumeRateLimit(EXPORT_SCOPE, actor.userId, settings.exportLimit);
+
+  const userId = actor.userId;
+  const [user, records, feedback, notifications, preferences, otps, mfaConfig, auditLogs] = await Promise.all([
+    collections.users().doc(userId).get(),
+    loadCustomerRecords(userId),
+    collections.userFeedback().where('customerId', '==', userId).get(),
+    collections.notifications().where('userId', '==', userId).get(),
+    collections.notificationPreferences().doc(userId).get(),
+    collections.otps().where('userId', '==', userId).get(),
+    collections.mfaConfigs().doc(userId).get(),
+    collections.auditLogs().where('userId', '==', userId).get(),
+  ]);
+  const mfa = mfaConfig.data();
+  const exportedAt = admin.firestore.Timestamp.now();
+  const archive = toExportValue({
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    userId,
+    exportedAt,
+    profile: user.data(),
+    orders: records.orders,
+    rentalBookings: records.rentalBookings,
+    eventBookings: records.eventBookings,
+    feedback: feedback.docs.map((doc) => doc.data()),
+    notifications: notifications.docs.map((doc) => doc.data()),
+    notificationPreferences: preferences.data(),
+    otps: otps.docs.map((doc) => ({ ...doc.data(), code: undefined })),
+    mfa: mfa && { confirmed: mfa.confirmed },
+    auditLogs: auditLogs.docs.map((doc) => doc.data()),
+  });
+  return {
+    success: true,
+    fileName: `my-data-${exportedAt.toDate().toISOString().slice(0, 10)}.json`,
+    archive,
+  };
+});
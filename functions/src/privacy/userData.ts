@@ -0,0 +1,139 @@
+import * as admin from 'firebase-admin';
+import { collections } from '../models/collections';
+import {
+  EventBooking,
+  EventStatus,
+  Order,
+  OrderStatus,
+  PaymentStatus,
+  RentalBooking,
+  RentalBookingStatus,
+} from '../models';
+import { PayableType } from '../payments/paymentService';
+
+/** `customerId` written on the records kept after their customer deleted their account. */
+export const ANONYMIZED_USER_ID = 'anonymized';
+
+/** Written in place of required text fields holding personal data. */
+export const ERASED = '[ERASED]';
+
+/** Statuses after which an order, rental or event needs nothing more from its customer. */
+const CLOSED_ORDER_STATUSES = [OrderStatus.Delivered, OrderStatus.Cancelled, OrderStatus.Failed];
+const CLOSED_RENTAL_STATUSES = [RentalBookingStatus.Completed, RentalBookingStatus.Cancelled];
+const CLOSED_EVENT_STATUSES = [EventStatus.Completed, EventStatus.Cancelled];
+
+/** Payment statuses of money still held, being collected or failed to settle. */
+const UNSETTLED_PAYMENT_STATUSES = [
+  PaymentStatus.AuthorizationPending,
+  PaymentStatus.ActionRequired,
+  PaymentStatus.Authorized,
+  PaymentStatus.CaptureFailed,
+  PaymentStatus.VoidFailed,
+];
+
+/** Orders and bookings placed by one customer. */
+export interface CustomerRecords {
+  orders: Order[];
+  rentalBookings: RentalBooking[];
+  eventBookings: EventBooking[];
+}
+
+/** A record that keeps a customer's account from being deleted. */
+export interface DeletionBlocker {
+  entityType: PayableType;
+  entityId: string;
+  /** `open` while the record is in progress, `paymentPending` while its payment is not settled. */
+  reason: 'open' | 'paymentPending';
+}
+
+/** Loads every order and booking of `customerId`. */
+export async function loadCustomerRecords(customerId: string): Promise<CustomerRecords> {
+  const [orders, rentalBookings, eventBookings] = await Promise.all([
+    collections.orders().where('customerId', '==', customerId).get(),
+    collections.rentalBookings().where('customerId', '==', customerId).get(),
+    collections.eventBookings().where('customerId', '==', customerId).get(),
+  ]);
+  return {
+    orders: orders.docs.map((doc) => doc.data()),
+    rentalBookings: rentalBookings.docs.map((doc) => doc.data()),
+    eventBookings: eventBookings.docs.map((doc) => doc.data()),
+  };
+}
+
+/**
+ * Records that must be finished before the account can be deleted: orders, rentals (including
+ * `Active` and `Overdue` ones) and events still in progress, and payments not settled yet, such as
+ * a deposit hold or a rental final charge that failed.
+ */
+export function findDeletionBlockers(records: CustomerRecords): DeletionBlocker[] {
+  const blockers: DeletionBlocker[] = [];
+  const check = (entityType: PayableType, entityId: string, closed: boolean, paymentSettled: boolean) => {
+    if (!closed) blockers.push({ entityType, entityId, reason: 'open' });
+    else if (!paymentSettled) blockers.push({ entityType, entityId, reason: 'paymentPending' });
+  };
+  const settled = (status: PaymentStatus) => !UNSETTLED_PAYMENT_STATUSES.includes(status);
+  for (const order of records.orders) {
+    check(PayableType.Order, order.orderId, CLOSED_ORDER_STATUSES.includes(order.orderStatus),
+      settled(order.paymentStatus));
+  }
+  for (const booking of records.rentalBookings) {
+    const finalCharge = booking.finalChargePaymentDetails?.status;
+    check(PayableType.RentalBooking, booking.bookingId, CLOSED_RENTAL_STATUSES.includes(booking.bookingStatus),
+      settled(booking.paymentStatus) && (finalCharge === undefined || finalCharge === PaymentStatus.Captured));
+  }
+  for (const event of records.eventBookings) {
+    check(PayableType.EventBooking, event.eventBookingId, CLOSED_EVENT_STATUSES.includes(event.eventStatus),
+      settled(event.paymentStatus));
+  }
+  return blockers;
+}
+
+/** `order` with the customer's personal data removed; amounts and payments are kept for the books. */
+export const anonymizeOrder = (order: Order, now: admin.firestore.Timestamp): Order => ({
+  ...order,
+  customerId: ANONYMIZED_USER_ID,
+  notes: undefined,
+  deliveryAddress: undefined,
+  deliveryLocation: undefined,
+  anonymizedAt: now,
+});
+
+/** `booking` with the customer's personal data removed. */
+export const anonymizeRentalBooking = (booking: RentalBooking, now: admin.firestore.Timestamp): RentalBooking => ({
+  ...booking,
+  customerId: ANONYMIZED_USER_ID,
+  anonymizedAt: now,
+});
+
+/** `event` with the customer's personal data removed. */
+export const anonymizeEventBooking = (event: EventBooking, now: admin.firestore.Timestamp): EventBooking => ({
+  ...event,
+  customerId: ANONYMIZED_USER_ID,
+  location: ERASED,
+  specialRequests: undefined,
+  agreement: event.agreement && { ...event.agreement, agreementUrl: undefined },
+  anonymizedAt: now,
+});
+
+/** Fields of each entity type holding the customer's personal data, redacted from its audit logs. */
+export const PERSONAL_FIELDS: Record<PayableType, readonly string[]> = {
+  [PayableType.Order]: ['customerId', 'notes', 'deliveryAddress', 'deliveryLocation'],
+  [PayableType.RentalBooking]: ['customerId'],
+  [PayableType.EventBooking]: ['customerId', 'location', 'specialRequests', 'agreement'],
+};
+
+/**
+ * Converts Firestore values for a JSON export or response: timestamps to ISO strings and geo points to
+ * coordinates.
+ */
+export function toExportValue(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+  if (value instanceof admin.firestore.GeoPoint) return { latitude: value.latitude, longitude: value.longitude };
+  if (Array.isArray(value)) return value.map(toExportValue);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .map(([key, field]) => [key, toExportValue(field)]));
+  }
+  return value;
+}
@@ -0,0 +1,100 @@
+import * as admin from 'firebase-admin';
+import { AppError } from '../common/errors';
+import { DiscountType, PromoCode } from '../models';
+
+/** What a promo code is being applied to. */
+export enum PromoTargetKind {
+  Order = 'Order',
+  Rental = 'Rental',
+}
+
+/** A priced line of an order or rental quote. */
+export interface PromoLine {
+  /** Product ID for orders, rental item ID for rentals. */
+  itemId: string;
+  /** Line total (unit price × quantity, or rental fee) in smallest unit. */
+  amountSmallestUnit: number;
+}
+
+/** Order or rental quote a promo code is evaluated against. */
+export interface PromoContext {
+  kind: PromoTargetKind;
+  currencyCode: string;
+  lines: PromoLine[];
+}
+
+/** Result of a successful promo evaluation. */
+export interface PromoEvaluation {
+  code: string;
+  /** Sum of the lines the promo applies to. */
+  eligibleSmallestUnit: number;
+  /** Discount to deduct; never more than `eligibleSmallestUnit`. */
+  discountSmallestUnit: number;
+}
+
+/** Normalizes a code typed by a customer to the document ID format. */
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Returns the IDs the promo is restricted to for `kind`, `undefined` when it applies to every line,
+ * or an empty list when it is restricted to the other kind only.
+ */
+function applicableIds(promo: PromoCode, kind: PromoTargetKind): string[] | undefined {
+  const own = kind === PromoTargetKind.Order ? promo.applicableProductIds : promo.applicableRentalItemIds;
+  const other = kind === PromoTargetKind.Order ? promo.applicableRentalItemIds : promo.applicableProductIds;
+  if (own) return own;
+  return other ? [] : undefined;
+}
+
+/**
+ * Checks every constraint of `promo` against `context` and computes the discount.
+ * Does not change the promo; use `recordPromoRedemption` once the order or booking is written.
+ */
+export function evaluatePromo(
+  promo: PromoCode,
+  context: PromoContext,
+  now: admin.firestore.Timestamp = admin.firestore.Timestamp.now(),
+): PromoEvaluation {
+  if (!promo.isActive) {
+    throw new AppError('failed-precondition', 'error.promo.inactive');
+  }
+  if (now.toMillis() < promo.validFrom.toMillis()) {
+    throw new AppError('failed-precondition', 'error.promo.notYetValid');
+  }
+  if (now.toMillis() > promo.validUntil.toMillis()) {
+    throw new AppError('failed-precondition', 'error.promo.expired');
+  }
+  if (promo.maxUses !== undefined && promo.usesCount >= promo.maxUses) {
+    throw new AppError('resource-exhausted', 'error.promo.exhausted');
+  }
+  if (promo.currencyCode !== undefined && promo.currencyCode !== context.currencyCode) {
+    throw new AppError('failed-precondition', 'error.promo.currencyMismatch', {
+      promoCurrency: promo.currencyCode,
+      currencyCode: context.currencyCode,
+    });
+  }
+
+  const total = context.lines.reduce((sum, line) => sum + line.amountSmallestUnit, 0);
+  if (promo.minOrderValueSmallestUnit !== undefined && total < promo.minOrderValueSmallestUnit) {
+    throw new AppError('failed-precondition', 'error.promo.minOrderValueNotMet', {
+      minOrderValueSmallestUnit: promo.minOrderValueSmallestUnit,
+    });
+  }
+
+  const restrictedTo = applicableIds(promo, context.kind);
+  const eligible = context.lines
+    .filter((line) => !restrictedTo || restrictedTo.includes(line.itemId))
+    .reduce((sum, line) => sum + line.amountSmallestUnit, 0);
+  if (eligible === 0) {
+    throw new AppError('failed-precondition', 'error.promo.notApplicable');
+  }
+
+  const discount = promo.discountType === DiscountType.Percentage ?
+    Math.round((eligible * promo.discountValue) / 100) :
+    promo.discountValue;
+  return {
+    code: promo.code,
+    eligibleSmallestUnit: eligible,
+    discountSmallestUnit: Math.min(discount, eligible),
+  };
+}
@@ -0,0 +1,62 @@
+import * as admin from 'firebase-admin';
+import { modifiedBy } from '../audit/modificationStamp';
+import { Actor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { collections } from '../models/collections';
+import { PromoCode } from '../models';
+import { normalizePromoCode } from './promoEngine';
+
+/**
+ * Reads a promo code inside `transaction`.
+ * Reading it in the same transaction that records the redemption is what keeps concurrent checkouts
+ * from going over `maxUses`: the loser of the race is retried and sees the updated `usesCount`.
+ */
+export async function getPromoForRedemption(
+  transaction: admin.firestore.Transaction,
+  code: string,
+): Promise<PromoCode> {
+  const promo = (await transaction.get(collections.promoCodes().doc(normalizePromoCode(code)))).data();
+  if (!promo) {
+    throw new AppError('not-found', 'error.promo.notFound');
+  }
+  return promo;
+}
+
+/** Counts one use of `promo`, which must have been read with `getPromoForRedemption` in `transaction`. */
+export function recordPromoRedemption(
+  transaction: admin.firestore.Transaction,
+  promo: PromoCode,
+  actor: Actor,
+): void {
+  transaction.set(collections.promoCodes().doc(promo.code), {
+    usesCount: promo.usesCount + 1,
+    lastModifiedBy: modifiedBy(actor),
+  }, { merge: true });
+}
+
+/**
+ * Reads the promo code applied to an order or booking that is being cancelled or failed, inside
+ * `transaction`. A promo deleted since then has no use to give back and reads as undefined.
+ */
+export async function getPromoForRelease(
+  transaction: admin.firestore.Transaction,
+  code: string,
+): Promise<PromoCode | undefined> {
+  return (await transaction.get(collections.promoCodes().doc(normalizePromoCode(code)))).data();
+}
+
+/**
+ * Gives back the use of `promo` counted by `recordPromoRedemption` when the order or booking it was
+ * applied to is cancelled or failed. `promo` must have been read with `getPromoForRelease` in
+ * `transaction`.
+ */
+export function releasePromoRedemption(
+  transaction: admin.firestore.Transaction,
+  promo: PromoCode,
+  actor: Actor,
+): void {
+  transaction.set(collections.promoCodes().doc(promo.code), {
+    usesCount: Math.max(0, promo.usesCount - 1),
+    lastModifiedBy: modifiedBy(actor),
+  }, { merge: true });
+}
@@ -0,0 +1,116 @@
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { requireAuth } from '../common/actor';
+import { AppError } from '../common/errors';
+import { getAppConfig } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import { Product } from '../models';
+import {
+  dateTime,
+  defineSchema,
+  id,
+  listOf,
+  nested,
+  optional,
+  text,
+  toTimestamp,
+  validate,
+} from '../models/validation';
+import { buildOrderItems, CartItem, cartItemSchema, orderPromoContext } from '../orders/pricing';
+import { calculateRentalFee, rentalPromoContext } from '../rentals/rentalPricing';
+import { evaluatePromo, normalizePromoCode, PromoContext } from './promoEngine';
+
+interface OrderQuote {
+  boxId: string;
+  items: CartItem[];
+}
+
+interface RentalQuote {
+  rentalItemId: string;
+  pickupTimestamp: string;
+  expectedReturnTimestamp: string;
+}
+
+interface QuotePromoCodeRequest {
+  code: string;
+  order?: OrderQuote;
+  rental?: RentalQuote;
+}
+
+const orderQuoteSchema = defineSchema<OrderQuote>('OrderQuote', {
+  boxId: id,
+  items: listOf(nested(cartItemSchema), { minLength: 1 }),
+});
+
+const rentalQuoteSchema = defineSchema<RentalQuote>('RentalQuote', {
+  rentalItemId: id,
+  pickupTimestamp: dateTime,
+  expectedReturnTimestamp: dateTime,
+});
+
+const requestSchema = defineSchema<QuotePromoCodeRequest>('QuotePromoCodeRequest', {
+  code: text({ minLength: 1, maxLength: 32 }),
+  order: optional(nested(orderQuoteSchema)),
+  rental: optional(nested(rentalQuoteSchema)),
+}, (request, issues) => {
+  if (!request.order === !request.rental) {
+    issues.push('exactly one of order or rental is required');
+  }
+});
+
+/** Prices the order lines the same way `createOrder` does. */
+async function orderContext(quote: OrderQuote): Promise<PromoContext> {
+  const box = (await collections.boxes().doc(quote.boxId).get()).data();
+  if (!box || !box.isActive) {
+    throw new AppError('failed-precondition', 'error.order.boxUnavailable');
+  }
+  const productRefs = [...new Set(quote.items.map((item) => item.productId))]
+    .map((productId) => collections.products().doc(productId));
+  const snapshots = await db().getAll(...productRefs);
+  const products = new Map<string, Product>(snapshots
+    .filter((snapshot) => snapshot.exists)
+    .map((snapshot) => [snapshot.id, snapshot.data() as Product]));
+  const items = buildOrderItems(box, products, quote.items, await getAppConfig('orderSettings'));
+  return orderPromoContext(items, box.currencyCode);
+}
+
+/** Prices the rental fee for the requested period. */
+async function rentalContext(quote: RentalQuote): Promise<PromoContext> {
+  const item = (await collections.rentalItems().doc(quote.rentalItemId).get()).data();
+  if (!item || !item.isActive) {
+    throw new AppError('failed-precondition', 'error.rental.itemUnavailable');
+  }
+  const fee = calculateRentalFee(item, toTimestamp(quote.pickupTimestamp), toTimestamp(quote.expectedReturnTimestamp));
+  return rentalPromoContext(item, fee);
+}
+
+/**
+ * Dry run of a promo code against an order cart or a rental period, for previewing the discount
+ * before checkout. Never counts a use of the code.
+ * A code that does not apply is reported with `valid: false` and the i18n key of the reason.
+ */
+export const quotePromoCode = onCall(async (request) => {
+  requireAuth(request);
+  const input = validate(requestSchema, request.data);
+  const context = input.order ? await orderContext(input.order) : await rentalContext(input.rental!);
+
+  const promo = (await collections.promoCodes().doc(normalizePromoCode(input.code)).get()).data();
+  if (!promo) {
+    return { success: true, valid: false, reason: 'error.promo.notFound' };
+  }
+  try {
+    const evaluation = evaluatePromo(promo, context);
+    return {
+      success: true,
+      valid: true,
+      code: evaluation.code,
+      currencyCode: context.currencyCode,
+      eligibleSmallestUnit: evaluation.eligibleSmallestUnit,
+      discountSmallestUnit: evaluation.discountSmallestUnit,
+    };
+  } catch (error) {
+    if (error instanceof HttpsError) {
+      return { success: true, valid: false, reason: error.message };
+    }
+    throw error;
+  }
+});
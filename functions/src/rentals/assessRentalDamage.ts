@@ -0,0 +1,84 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { getPendingQuarantine } from '../inventory/rentalQuarantine';
+import { collections } from '../models/collections';
+import { PermissionKey, QuarantinedUnit, QuarantineReason, QuarantineStatus, RentalBookingStatus } from '../models';
+import { amount, bool, defineSchema, id, optional, text, validate } from '../models/validation';
+import { transitionRental } from './rentalLifecycle';
+
+interface AssessRentalDamageRequest {
+  quarantineId: string;
+  damageChargeSmallestUnit: number;
+  notes?: string;
+  /** The unit cannot be repaired and leaves the box's stock for good. */
+  writeOff?: boolean;
+}
+
+const requestSchema = defineSchema<AssessRentalDamageRequest>('AssessRentalDamageRequest', {
+  quarantineId: id,
+  damageChargeSmallestUnit: amount,
+  notes: optional(text({ maxLength: 1000 })),
+  writeOff: optional(bool),
+});
+
+/**
+ * Assesses a unit returned damaged and completes its booking: the damage charge is added to the
+ * final charge taken from the deposit hold. A damage charge may not take the final charge, late
+ * fees included, above the deposit; when a VIP tier waived the deposit, the item's deposit is the limit and the charge
+ * goes to the customer's saved payment method. The unit is written off or moves on to the cleaning
+ * queue. Requires `rental:manage`.
+ */
+export const assessRentalDamage = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.RentalManage);
+  const input = validate(requestSchema, request.data);
+  const unit = (await collections.rentalQuarantine().doc(input.quarantineId).get()).data();
+  if (!unit) {
+    throw new AppError('not-found', 'error.quarantine.notFound');
+  }
+  let assessed: QuarantinedUnit | undefined;
+  const booking = await transitionRental(unit.bookingId, RentalBookingStatus.Completed, actor,
+    async (current, now, transaction) => {
+      const latest = await getPendingQuarantine(transaction, input.quarantineId);
+      if (latest.reason !== QuarantineReason.Damage) {
+        throw new AppError('failed-precondition', 'error.quarantine.notDamaged');
+      }
+      const item = current.depositWaived ?
+        (await transaction.get(collections.rentalItems().doc(current.rentalItemId))).data() :
+        undefined;
+      const depositSmallestUnit = item?.depositSmallestUnit ?? current.depositSmallestUnit;
+      const finalChargeSmallestUnit = (current.finalChargeSmallestUnit ?? 0) + input.damageChargeSmallestUnit;
+      if (input.damageChargeSmallestUnit > 0 && finalChargeSmallestUnit > depositSmallestUnit) {
+        throw new AppError('invalid-argument', 'error.rental.damageChargeExceedsDeposit', {
+          depositSmallestUnit,
+          maxDamageChargeSmallestUnit: Math.max(0, depositSmallestUnit - (current.finalChargeSmallestUnit ?? 0)),
+        });
+      }
+      assessed = {
+        ...latest,
+        reason: input.writeOff ? latest.reason : QuarantineReason.Cleaning,
+        status: input.writeOff ? QuarantineStatus.WrittenOff : QuarantineStatus.Pending,
+        damageChargeSmallestUnit: input.damageChargeSmallestUnit,
+        assessedBy: actor.userId,
+        assessedAt: now,
+        resolvedBy: input.writeOff ? actor.userId : undefined,
+        resolvedAt: input.writeOff ? now : undefined,
+        notes: input.notes,
+        updatedAt: now,
+        lastModifiedBy: modifiedBy(actor, now),
+      };
+      transaction.set(collections.rentalQuarantine().doc(latest.quarantineId), assessed);
+      return {
+        damageChargeSmallestUnit: input.damageChargeSmallestUnit,
+        finalChargeSmallestUnit,
+      };
+    });
+  return {
+    success: true,
+    bookingId: booking.bookingId,
+    finalChargeSmallestUnit: booking.finalChargeSmallestUnit,
+    currencyCode: booking.currencyCode,
+    quarantineStatus: assessed!.status,
+  };
+});
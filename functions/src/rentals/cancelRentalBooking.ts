@@ -0,0 +1,34 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { resolveActor } from '../common/actor';
+import { RentalBookingStatus } from '../models';
+import { defineSchema, id, text, validate } from '../models/validation';
+import { cancellationInitiatorFor } from '../orders/orderStateMachine';
+import { transitionRental } from './rentalLifecycle';
+
+interface CancelRentalBookingRequest {
+  bookingId: string;
+  reason: string;
+}
+
+const requestSchema = defineSchema<CancelRentalBookingRequest>('CancelRentalBookingRequest', {
+  bookingId: id,
+  reason: text({ minLength: 1, maxLength: 500 }),
+});
+
+/**
+ * Cancels a booking before pickup on behalf of its customer or staff (see `RENTAL_TRANSITIONS`).
+ * The deposit hold is released, subject to the `rentalBookings` rules of `appConfig/cancellationPolicy`.
+ */
+export const cancelRentalBooking = onCall(async (request) => {
+  const actor = await resolveActor(request);
+  const { bookingId, reason } = validate(requestSchema, request.data);
+  await transitionRental(bookingId, RentalBookingStatus.Cancelled, actor, (_, now) => ({
+    cancellationDetails: {
+      cancelledBy: cancellationInitiatorFor(actor.role),
+      cancellationReason: reason,
+      cancellationTimestamp: now,
+      refundProcessed: false,
+    },
+  }));
+  return { success: true };
+});
@@ -0,0 +1,47 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { getBoxForUpdate, recordRentalInventoryChange } from '../inventory/rentalInventory';
+import { InventoryLogAction, PaymentStatus, PermissionKey, RentalBookingStatus } from '../models';
+import { defineSchema, id, validate } from '../models/validation';
+import { transitionRental } from './rentalLifecycle';
+
+interface ConfirmRentalPickupRequest {
+  bookingId: string;
+}
+
+const requestSchema = defineSchema<ConfirmRentalPickupRequest>('ConfirmRentalPickupRequest', {
+  bookingId: id,
+});
+
+/**
+ * Hands a booked item to the customer: the booking becomes `Active`, the rental period starts now
+ * and the unit leaves the pickup box's stock. Requires the deposit to be held, unless the item has
+ * no deposit.
+ */
+export const confirmRentalPickup = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.RentalConfirmPickup);
+  const { bookingId } = validate(requestSchema, request.data);
+  const booking = await transitionRental(bookingId, RentalBookingStatus.Active, actor,
+    async (current, now, transaction) => {
+      if (current.depositSmallestUnit > 0 && current.paymentStatus !== PaymentStatus.Authorized) {
+        throw new AppError('failed-precondition', 'error.rental.depositNotHeld', {
+          paymentStatus: current.paymentStatus,
+        });
+      }
+      const box = await getBoxForUpdate(transaction, current.pickupBoxId);
+      recordRentalInventoryChange(transaction, box, {
+        rentalItemId: current.rentalItemId,
+        action: InventoryLogAction.RentalPickup,
+        quantityChange: -1,
+        relatedBookingId: current.bookingId,
+      }, actor, now);
+      return { pickupCourierId: actor.userId, pickupTimestamp: now };
+    });
+  return {
+    success: true,
+    bookingId,
+    pickupTimestamp: booking.pickupTimestamp!.toDate().toISOString(),
+    expectedReturnTimestamp: booking.expectedReturnTimestamp?.toDate().toISOString(),
+  };
+});
@@ -0,0 +1,80 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { getBoxForUpdate, recordRentalInventoryChange } from '../inventory/rentalInventory';
+import { quarantineReturnedUnit } from '../inventory/rentalQuarantine';
+import { collections } from '../models/collections';
+import { InventoryLogAction, PermissionKey, QuarantinedUnit, QuarantineReason, RentalBookingStatus } from '../models';
+import { bool, defineSchema, id, optional, text, validate } from '../models/validation';
+import { calculateFinalCharge, transitionRental } from './rentalLifecycle';
+
+interface ConfirmRentalReturnRequest {
+  bookingId: string;
+  returnBoxId: string;
+  returnedCondition?: string;
+  courierNotesOnReturn?: string;
+  returnedConditionPhotoUrl?: string;
+  /** The item came back damaged and must be assessed before the booking is settled. */
+  damaged?: boolean;
+}
+
+const requestSchema = defineSchema<ConfirmRentalReturnRequest>('ConfirmRentalReturnRequest', {
+  bookingId: id,
+  returnBoxId: id,
+  returnedCondition: optional(text({ maxLength: 100 })),
+  courierNotesOnReturn: optional(text({ maxLength: 1000 })),
+  returnedConditionPhotoUrl: optional(text({ maxLength: 2048 })),
+  damaged: optional(bool),
+});
+
+/**
+ * Takes back a rented item at a box and completes the booking; the unit joins the return box's stock.
+ * The final charge covers every started fee interval since pickup, less the promo discount; it is
+ * then taken from the deposit hold, which is voided when nothing is owed.
+ * Items that require cleaning are quarantined at the box until staff clear them. A `damaged` item is
+ * quarantined too, and the booking waits in `PendingReturn`, deposit still held, for
+ * `assessRentalDamage`.
+ */
+export const confirmRentalReturn = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.RentalConfirmReturn);
+  const input = validate(requestSchema, request.data);
+  const newStatus = input.damaged ? RentalBookingStatus.PendingReturn : RentalBookingStatus.Completed;
+  let quarantined: QuarantinedUnit | undefined;
+  const booking = await transitionRental(input.bookingId, newStatus, actor,
+    async (current, now, transaction) => {
+      const returnBox = await getBoxForUpdate(transaction, input.returnBoxId);
+      if (!returnBox.isActive) {
+        throw new AppError('failed-precondition', 'error.rental.returnBoxUnavailable');
+      }
+      const item = (await transaction.get(collections.rentalItems().doc(current.rentalItemId))).data();
+      const changes = {
+        actualReturnTimestamp: now,
+        returnBoxId: input.returnBoxId,
+        returnCourierId: actor.userId,
+        returnedCondition: input.returnedCondition,
+        courierNotesOnReturn: input.courierNotesOnReturn,
+        returnedConditionPhotoUrl: input.returnedConditionPhotoUrl,
+        finalChargeSmallestUnit: calculateFinalCharge(current, now),
+      };
+      const box = recordRentalInventoryChange(transaction, returnBox, {
+        rentalItemId: current.rentalItemId,
+        action: InventoryLogAction.RentalReturn,
+        quantityChange: 1,
+        relatedBookingId: current.bookingId,
+      }, actor, now);
+      const reason = input.damaged ? QuarantineReason.Damage :
+        item?.requiresCleaning ? QuarantineReason.Cleaning : undefined;
+      if (reason) {
+        [, quarantined] = quarantineReturnedUnit(transaction, box, { ...current, ...changes }, reason, actor, now);
+      }
+      return changes;
+    });
+  return {
+    success: true,
+    bookingId: booking.bookingId,
+    bookingStatus: booking.bookingStatus,
+    finalChargeSmallestUnit: booking.finalChargeSmallestUnit,
+    currencyCode: booking.currencyCode,
+    quarantineId: quarantined?.quarantineId,
+  };
+});
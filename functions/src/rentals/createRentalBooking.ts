@@ -0,0 +1,161 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { systemActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { collections, db } from '../models/collections';
+import {
+  CancellationInitiator,
+  PaymentStatus,
+  PermissionKey,
+  RentalBooking,
+  RentalBookingStatus,
+} from '../models';
+import { dateTime, defineSchema, id, optional, text, toTimestamp, validate } from '../models/validation';
+import { authorizeEntityPayment, PayableType } from '../payments/paymentService';
+import { evaluatePromo } from '../promos/promoEngine';
+import { getPromoForRedemption, recordPromoRedemption } from '../promos/promoService';
+import { getVipBenefits } from '../vip/vipTiers';
+import { availableUnits, getStockHoldingBookings } from './rentalAvailability';
+import { transitionRental } from './rentalLifecycle';
+import { calculateRentalFee, rentalPromoContext } from './rentalPricing';
+
+interface CreateRentalBookingRequest {
+  rentalItemId: string;
+  pickupBoxId: string;
+  pickupTimestamp: string;
+  expectedReturnTimestamp: string;
+  returnBoxId?: string;
+  paymentMethodToken?: string;
+  couponCode?: string;
+}
+
+const requestSchema = defineSchema<CreateRentalBookingRequest>('CreateRentalBookingRequest', {
+  rentalItemId: id,
+  pickupBoxId: id,
+  pickupTimestamp: dateTime,
+  expectedReturnTimestamp: dateTime,
+  returnBoxId: optional(id),
+  paymentMethodToken: optional(id),
+  couponCode: optional(text({ minLength: 1, maxLength: 32 })),
+}, (request, issues) => {
+  if (Date.parse(request.expectedReturnTimestamp) <= Date.parse(request.pickupTimestamp)) {
+    issues.push('expectedReturnTimestamp must be after pickupTimestamp');
+  }
+});
+
+/**
+ * Books a rental item for pickup at a box.
+ * The item's fee and fee interval are copied onto the booking so the final charge is computed with
+ * the prices the customer saw. The deposit is held on the customer's payment method right away; a
+ * declined hold cancels the booking. VIP tiers that waive the deposit skip the hold for customers
+ * with a saved payment method, which the final charge is then taken from.
+ */
+export const createRentalBooking = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.RentalCreate);
+  const input = validate(requestSchema, request.data);
+  const pickupTimestamp = toTimestamp(input.pickupTimestamp);
+  const expectedReturnTimestamp = toTimestamp(input.expectedReturnTimestamp);
+
+  const bookingRef = collections.rentalBookings().doc();
+  const booking = await db().runTransaction(async (transaction) => {
+    const item = (await transaction.get(collections.rentalItems().doc(input.rentalItemId))).data();
+    const box = (await transaction.get(collections.boxes().doc(input.pickupBoxId))).data();
+    if (!item || !item.isActive) {
+      throw new AppError('failed-precondition', 'error.rental.itemUnavailable');
+    }
+    if (!box || !box.isActive) {
+      throw new AppError('failed-precondition', 'error.rental.boxUnavailable');
+    }
+    const bookings = await getStockHoldingBookings(item.rentalItemId, transaction);
+    const window = { start: pickupTimestamp, end: expectedReturnTimestamp };
+    if (availableUnits(box, item.rentalItemId, bookings, window) <= 0) {
+      throw new AppError('failed-precondition', 'error.rental.outOfStock');
+    }
+    if (item.currencyCode !== box.currencyCode) {
+      throw new AppError('failed-precondition', 'error.rental.currencyMismatch');
+    }
+    const { customer, benefits } = await getVipBenefits(transaction, actor.userId);
+    const depositWaived = item.depositSmallestUnit > 0 && benefits.waiveRentalDeposit === true &&
+      customer?.paymentGatewayCustomerId !== undefined;
+    const deposit = depositWaived ? 0 : item.depositSmallestUnit;
+    if (deposit > 0 && !input.paymentMethodToken) {
+      throw new AppError('invalid-argument', 'error.payment.methodRequired');
+    }
+    if (input.returnBoxId && input.returnBoxId !== box.boxId) {
+      const returnBox = (await transaction.get(collections.boxes().doc(input.returnBoxId))).data();
+      if (!returnBox || !returnBox.isActive) {
+        throw new AppError('failed-precondition', 'error.rental.returnBoxUnavailable');
+      }
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const promo = input.couponCode ?
+      await getPromoForRedemption(transaction, input.couponCode) :
+      undefined;
+    const expectedFee = calculateRentalFee(item, pickupTimestamp, expectedReturnTimestamp);
+    const discount = promo ?
+      evaluatePromo(promo, rentalPromoContext(item, expectedFee), now).discountSmallestUnit :
+      undefined;
+
+    const newBooking: RentalBooking = {
+      bookingId: bookingRef.id,
+      customerId: actor.userId,
+      rentalItemId: item.rentalItemId,
+      bookingStatus: RentalBookingStatus.PendingPickup,
+      pickupBoxId: box.boxId,
+      returnBoxId: input.returnBoxId,
+      pickupTimestamp,
+      expectedReturnTimestamp,
+      depositSmallestUnit: deposit,
+      depositWaived: depositWaived || undefined,
+      rentalFeeSmallestUnit: item.rentalFeeSmallestUnit,
+      feeInterval: item.feeInterval,
+      promoCode: promo?.code,
+      discountSmallestUnit: discount,
+      currencyCode: item.currencyCode,
+      paymentStatus: PaymentStatus.Pending,
+      createdAt: now,
+      updatedAt: now,
+      lastModifiedBy: modifiedBy(actor, now),
+    };
+    transaction.set(bookingRef, newBooking);
+    if (promo) {
+      recordPromoRedemption(transaction, promo, actor);
+    }
+    return newBooking;
+  });
+
+  let paymentStatus = booking.paymentStatus;
+  if (booking.depositSmallestUnit > 0) {
+    const payment = await authorizeEntityPayment(
+      PayableType.RentalBooking,
+      booking.bookingId,
+      input.paymentMethodToken!,
+    );
+    paymentStatus = payment.status;
+    if (payment.status !== PaymentStatus.Authorized) {
+      await transitionRental(booking.bookingId, RentalBookingStatus.Cancelled, systemActor, (_, now) => ({
+        cancellationDetails: {
+          cancelledBy: CancellationInitiator.System,
+          cancellationReason: payment.errorCode,
+          cancellationTimestamp: now,
+          refundProcessed: false,
+        },
+      }));
+      throw new AppError('failed-precondition', 'error.payment.authorizationFailed', {
+        bookingId: booking.bookingId,
+        gatewayErrorCode: payment.errorCode,
+      });
+    }
+  }
+
+  return {
+    success: true,
+    bookingId: booking.bookingId,
+    paymentStatus,
+    depositSmallestUnit: booking.depositSmallestUnit,
+    currencyCode: booking.currencyCode,
+  };
+});
@@ -0,0 +1,95 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { findNearbyBoxes } from '../boxes/nearbyBoxes';
+import { requireAuth } from '../common/actor';
+import { getAppConfig } from '../config/appConfig';
+import { collections } from '../models/collections';
+import {
+  dateTime,
+  defineSchema,
+  id,
+  LocationInput,
+  locationInputSchema,
+  nested,
+  num,
+  optional,
+  toTimestamp,
+  validate,
+} from '../models/validation';
+import { availableUnits, getStockHoldingBookingsAt } from './rentalAvailability';
+import { calculateRentalFee } from './rentalPricing';
+
+interface GetAvailableRentalItemsRequest {
+  location: LocationInput;
+  radiusKm?: number;
+  pickupTimestamp: string;
+  expectedReturnTimestamp: string;
+  category?: string;
+}
+
+const requestSchema = defineSchema<GetAvailableRentalItemsRequest>('GetAvailableRentalItemsRequest', {
+  location: nested(locationInputSchema),
+  radiusKm: optional(num({ positive: true })),
+  pickupTimestamp: dateTime,
+  expectedReturnTimestamp: dateTime,
+  category: optional(id),
+}, (request, issues) => {
+  if (Date.parse(request.expectedReturnTimestamp) <= Date.parse(request.pickupTimestamp)) {
+    issues.push('expectedReturnTimestamp must be after pickupTimestamp');
+  }
+});
+
+/**
+ * Lists the rental items that can be picked up near `location` for the requested window, with the
+ * boxes that have them (nearest first) and the deposit and fee the customer would pay.
+ * Units waiting for cleaning or damage assessment are out of box stock until cleared, so only
+ * ready units are counted.
+ */
+export const getAvailableRentalItems = onCall(async (request) => {
+  requireAuth(request);
+  const input = validate(requestSchema, request.data);
+  const searchSettings = await getAppConfig('searchSettings');
+  const radiusKm = Math.min(input.radiusKm ?? searchSettings.defaultRadiusKm, searchSettings.maxRadiusKm);
+  const window = { start: toTimestamp(input.pickupTimestamp), end: toTimestamp(input.expectedReturnTimestamp) };
+
+  let itemQuery = collections.rentalItems().where('isActive', '==', true);
+  if (input.category) {
+    itemQuery = itemQuery.where('category', '==', input.category);
+  }
+  const [boxes, itemSnapshot] = await Promise.all([
+    findNearbyBoxes(input.location, radiusKm),
+    itemQuery.get(),
+  ]);
+  const bookings = await getStockHoldingBookingsAt(boxes.map(({ box }) => box.boxId));
+
+  const rentalItems = itemSnapshot.docs
+    .map((doc) => doc.data())
+    .map((item) => ({
+      item,
+      boxes: boxes
+        .filter(({ box }) => box.currencyCode === item.currencyCode)
+        .map(({ box, distanceKm }) => ({
+          boxId: box.boxId,
+          name: box.name,
+          address: box.address,
+          distanceKm,
+          availableQuantity: availableUnits(box, item.rentalItemId, bookings, window),
+        }))
+        .filter((box) => box.availableQuantity > 0),
+    }))
+    .filter(({ boxes }) => boxes.length > 0)
+    .map(({ item, boxes }) => ({
+      rentalItemId: item.rentalItemId,
+      name: item.name,
+      description: item.description,
+      category: item.category,
+      imageUrl: item.imageUrl,
+      currencyCode: item.currencyCode,
+      depositSmallestUnit: item.depositSmallestUnit,
+      rentalFeeSmallestUnit: item.rentalFeeSmallestUnit,
+      feeInterval: item.feeInterval,
+      estimatedFeeSmallestUnit: calculateRentalFee(item, window.start, window.end),
+      boxes,
+    }));
+
+  return { success: true, rentalItems };
+});
@@ -0,0 +1,23 @@
+import * as admin from 'firebase-admin';
+import { logger } from 'firebase-functions/v2';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { systemActor } from '../common/actor';
+import { collections } from '../models/collections';
+import { RentalBookingStatus } from '../models';
+import { transitionRental } from './rentalLifecycle';
+
+/**
+ * Moves active bookings past their expected return time to `Overdue` and notifies the customer.
+ * Each booking is transitioned on its own so one failure does not block the rest.
+ */
+export const markOverdueRentals = onSchedule('every 15 minutes', async () => {
+  const snapshot = await collections.rentalBookings()
+    .where('bookingStatus', '==', RentalBookingStatus.Active)
+    .where('expectedReturnTimestamp', '<', admin.firestore.Timestamp.now())
+    .get();
+  const results = await Promise.allSettled(snapshot.docs.map((doc) =>
+    transitionRental(doc.id, RentalBookingStatus.Overdue, systemActor)));
+  const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+  failed.forEach((result) => logger.error('Failed to mark rental overdue', { reason: result.reason }));
+  logger.info('Overdue rentals processed', { found: snapshot.size, failed: failed.length });
+});
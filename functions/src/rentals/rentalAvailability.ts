@@ -0,0 +1,83 @@
+import * as admin from 'firebase-admin';
+import { collections } from '../models/collections';
+import { Box, RentalBooking, RentalBookingStatus } from '../models';
+
+/** Booking statuses that hold a unit of stock, either booked or out with a customer. */
+export const STOCK_HOLDING_STATUSES = [RentalBookingStatus.PendingPickup, RentalBookingStatus.Active];
+
+/** Most values Firestore accepts in one `in` filter. */
+const MAX_IN_VALUES = 30;
+
+/** Pickup and return times a customer wants an item for. */
+export interface RentalWindow {
+  start: admin.firestore.Timestamp;
+  end: admin.firestore.Timestamp;
+}
+
+const overlaps = (booking: RentalBooking, window: RentalWindow): boolean =>
+  booking.pickupTimestamp !== undefined && booking.expectedReturnTimestamp !== undefined &&
+  booking.pickupTimestamp.toMillis() < window.end.toMillis() &&
+  booking.expectedReturnTimestamp.toMillis() > window.start.toMillis();
+
+/**
+ * Units of `rentalItemId` that can be picked up at `box` for `window`.
+ * Starts from the stock on hand, adds active rentals due back at this box before the window starts
+ * and takes away units booked for pickup here during the window. `bookings` may contain bookings of
+ * other boxes, items or statuses; they are ignored.
+ */
+export function availableUnits(
+  box: Box,
+  rentalItemId: string,
+  bookings: RentalBooking[],
+  window: RentalWindow,
+): number {
+  let units = box.rentalInventory[rentalItemId] ?? 0;
+  for (const booking of bookings) {
+    if (booking.rentalItemId !== rentalItemId) continue;
+    const returnsHere = (booking.returnBoxId ?? booking.pickupBoxId) === box.boxId;
+    if (booking.bookingStatus === RentalBookingStatus.Active && returnsHere &&
+      booking.expectedReturnTimestamp !== undefined &&
+      booking.expectedReturnTimestamp.toMillis() <= window.start.toMillis()) {
+      units += 1;
+    } else if (booking.bookingStatus === RentalBookingStatus.PendingPickup && booking.pickupBoxId === box.boxId &&
+      overlaps(booking, window)) {
+      units -= 1;
+    }
+  }
+  return Math.max(0, units);
+}
+
+/** Bookings that hold stock of `rentalItemId` (all items when omitted), read in `transaction` when given. */
+export async function getStockHoldingBookings(
+  rentalItemId?: string,
+  transaction?: admin.firestore.Transaction,
+): Promise<RentalBooking[]> {
+  let query = collections.rentalBookings().where('bookingStatus', 'in', STOCK_HOLDING_STATUSES);
+  if (rentalItemId) {
+    query = query.where('rentalItemId', '==', rentalItemId);
+  }
+  const snapshot = transaction ? await transaction.get(query) : await query.get();
+  return snapshot.docs.map((doc) => doc.data());
+}
+
+/**
+ * Bookings that can change the stock of `boxIds` as `availableUnits` counts it: bookings waiting
+ * for pickup there, and active rentals picked up or due back there. Boxes are queried in chunks.
+ */
+export async function getStockHoldingBookingsAt(boxIds: string[]): Promise<RentalBooking[]> {
+  const queries: admin.firestore.Query<RentalBooking>[] = [];
+  for (let start = 0; start < boxIds.length; start += MAX_IN_VALUES) {
+    const chunk = boxIds.slice(start, start + MAX_IN_VALUES);
+    const withStatus = (status: RentalBookingStatus) =>
+      collections.rentalBookings().where('bookingStatus', '==', status);
+    queries.push(
+      withStatus(RentalBookingStatus.PendingPickup).where('pickupBoxId', 'in', chunk),
+      withStatus(RentalBookingStatus.Active).where('pickupBoxId', 'in', chunk),
+      withStatus(RentalBookingStatus.Active).where('returnBoxId', 'in', chunk),
+    );
+  }
+  const snapshots = await Promise.all(queries.map((query) => query.get()));
+  const bookings = new Map<string, RentalBooking>();
+  snapshots.forEach((snapshot) => snapshot.docs.forEach((doc) => bookings.set(doc.id, doc.data())));
+  return [...bookings.values()];
+}
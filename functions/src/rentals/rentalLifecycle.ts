@@ -0,0 +1,158 @@
+import * as admin from 'firebase-admin';
+import { modifiedBy } from '../audit/modificationStamp';
+import { Actor, ActorRole, SYSTEM_ROLE } from '../common/actor';
+import { applyCancellationPolicy } from '../cancellations/cancellationPolicy';
+import { AppError } from '../common/errors';
+import { getAppConfig } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import { NotificationType, RentalBooking, RentalBookingStatus, UserRole } from '../models';
+import { createNotification } from '../notifications/notificationService';
+import { NotificationTemplateId } from '../notifications/notificationTemplates';
+import { cancellationInitiatorFor } from '../orders/orderStateMachine';
+import { getPromoForRelease, releasePromoRedemption } from '../promos/promoService';
+import { settleRentalPayment } from './rentalPayments';
+import { countFeeIntervals } from './rentalPricing';
+
+const { Admin, Manager, Courier, Customer } = UserRole;
+const HANDLERS: readonly ActorRole[] = [Admin, Manager, Courier];
+
+/**
+ * Legal rental booking status transitions and the roles allowed to perform each one.
+ * Statuses without outgoing transitions are terminal.
+ */
+export const RENTAL_TRANSITIONS: Record<
+  RentalBookingStatus,
+  Partial<Record<RentalBookingStatus, readonly ActorRole[]>>
+> = {
+  [RentalBookingStatus.PendingPickup]: {
+    [RentalBookingStatus.Active]: HANDLERS,
+    [RentalBookingStatus.Cancelled]: [Admin, Manager, Customer, SYSTEM_ROLE],
+  },
+  [RentalBookingStatus.Active]: {
+    [RentalBookingStatus.Completed]: HANDLERS,
+    [RentalBookingStatus.PendingReturn]: HANDLERS,
+    [RentalBookingStatus.Overdue]: [SYSTEM_ROLE],
+  },
+  [RentalBookingStatus.Overdue]: {
+    [RentalBookingStatus.Completed]: HANDLERS,
+    [RentalBookingStatus.PendingReturn]: HANDLERS,
+  },
+  [RentalBookingStatus.PendingReturn]: {
+    [RentalBookingStatus.Completed]: [Admin, Manager],
+  },
+  [RentalBookingStatus.Completed]: {},
+  [RentalBookingStatus.Cancelled]: {},
+};
+
+/** Customer-facing notification template for each status a booking can move to. */
+const STATUS_NOTIFICATIONS: Partial<Record<RentalBookingStatus, NotificationTemplateId>> = {
+  [RentalBookingStatus.Active]: 'rental.Active',
+  [RentalBookingStatus.PendingReturn]: 'rental.PendingReturn',
+  [RentalBookingStatus.Completed]: 'rental.Completed',
+  [RentalBookingStatus.Cancelled]: 'rental.Cancelled',
+  [RentalBookingStatus.Overdue]: 'rental.Overdue',
+};
+
+/** Throws unless `actor` may move `booking` to `newStatus`. */
+export function assertRentalTransition(booking: RentalBooking, newStatus: RentalBookingStatus, actor: Actor): void {
+  const allowedRoles = RENTAL_TRANSITIONS[booking.bookingStatus][newStatus];
+  if (!allowedRoles) {
+    throw new AppError('failed-precondition', 'error.rental.invalidTransition', {
+      from: booking.bookingStatus,
+      to: newStatus,
+    });
+  }
+  if (!allowedRoles.includes(actor.role)) {
+    throw new AppError('permission-denied', 'error.rental.transitionNotAllowedForRole', {
+      from: booking.bookingStatus,
+      to: newStatus,
+      role: actor.role,
+    });
+  }
+  if (actor.role === Customer && booking.customerId !== actor.userId) {
+    throw new AppError('permission-denied', 'error.rental.notOwner');
+  }
+}
+
+/**
+ * Rental fee owed for a returned booking: the fee per interval times the number of started
+ * intervals between pickup and return, less the promo discount.
+ */
+export function calculateFinalCharge(booking: RentalBooking, returnedAt: admin.firestore.Timestamp): number {
+  if (!booking.pickupTimestamp || booking.rentalFeeSmallestUnit === undefined || !booking.feeInterval) {
+    throw new AppError('failed-precondition', 'error.rental.missingPricing');
+  }
+  const fee = booking.rentalFeeSmallestUnit *
+    countFeeIntervals(booking.feeInterval, booking.pickupTimestamp, returnedAt);
+  return Math.max(0, fee - (booking.discountSmallestUnit ?? 0));
+}
+
+/**
+ * Moves a booking to `newStatus` in a transaction, notifies the customer, then settles the deposit
+ * and final charge as the new status requires. Cancellations must be allowed by the
+ * `rentalBookings` rules of `appConfig/cancellationPolicy`, timed against `pickupTimestamp`, and
+ * give back the use of the booking's promo code.
+ * `apply` returns the other fields to change; it runs inside the transaction with the current
+ * booking, after the transition has been checked, and may read and write through `transaction`.
+ * @return The updated booking.
+ */
+export async function transitionRental(
+  bookingId: string,
+  newStatus: RentalBookingStatus,
+  actor: Actor,
+  apply: (
+    booking: RentalBooking,
+    now: admin.firestore.Timestamp,
+    transaction: admin.firestore.Transaction,
+  ) => Partial<RentalBooking> | Promise<Partial<RentalBooking>> = () => ({}),
+): Promise<RentalBooking> {
+  const ref = collections.rentalBookings().doc(bookingId);
+  const policy = newStatus === RentalBookingStatus.Cancelled ? await getAppConfig('cancellationPolicy') : undefined;
+  const updated = await db().runTransaction(async (transaction) => {
+    const booking = (await transaction.get(ref)).data();
+    if (!booking) {
+      throw new AppError('not-found', 'error.rental.notFound');
+    }
+    assertRentalTransition(booking, newStatus, actor);
+    const releasesPromo = booking.promoCode && newStatus === RentalBookingStatus.Cancelled;
+    const promo = releasesPromo ? await getPromoForRelease(transaction, booking.promoCode!) : undefined;
+    const now = admin.firestore.Timestamp.now();
+    const changes = await apply(booking, now, transaction);
+    const next: RentalBooking = {
+      ...booking,
+      ...changes,
+      bookingStatus: newStatus,
+      updatedAt: now,
+      lastModifiedBy: modifiedBy(actor, now),
+    };
+    if (policy) {
+      next.cancellationDetails = applyCancellationPolicy(
+        policy.rentalBookings,
+        booking.bookingStatus,
+        booking.pickupTimestamp,
+        next.cancellationDetails ?? {
+          cancelledBy: cancellationInitiatorFor(actor.role),
+          cancellationTimestamp: now,
+          refundProcessed: false,
+        },
+      );
+    }
+    transaction.set(ref, next);
+    if (promo) {
+      releasePromoRedemption(transaction, promo, actor);
+    }
+    const template = STATUS_NOTIFICATIONS[newStatus];
+    if (template) {
+      createNotification(transaction, {
+        userId: booking.customerId,
+        template,
+        type: NotificationType.RentalUpdate,
+        relatedEntityId: bookingId,
+        relatedEntityType: 'RentalBooking',
+      });
+    }
+    return next;
+  });
+  await settleRentalPayment(updated);
+  return updated;
+}
@@ -0,0 +1,87 @@
+import * as admin from 'firebase-admin';
+import { logger } from 'firebase-functions/v2';
+import { collections } from '../models/collections';
+import { PaymentDetails, PaymentStatus, RentalBooking, RentalBookingStatus } from '../models';
+import {
+  authorizePayment,
+  capturePayment,
+  PayableType,
+  refundCancelledEntity,
+  savePaymentDetails,
+  voidPayment,
+} from '../payments/paymentService';
+
+/** Releases or captures the deposit hold so that `finalCharge` of it is taken. */
+async function settleDeposit(booking: RentalBooking, finalCharge: number): Promise<void> {
+  const deposit = booking.paymentDetails;
+  if (!deposit) return;
+  let settled: PaymentDetails;
+  if (finalCharge === 0 && [PaymentStatus.Authorized, PaymentStatus.VoidFailed].includes(deposit.status)) {
+    settled = await voidPayment(deposit);
+  } else if (finalCharge > 0 && [PaymentStatus.Authorized, PaymentStatus.CaptureFailed].includes(deposit.status)) {
+    settled = await capturePayment(deposit, Math.min(finalCharge, deposit.amountSmallestUnit));
+  } else {
+    return;
+  }
+  await savePaymentDetails(PayableType.RentalBooking, booking.bookingId, settled);
+}
+
+/** Charges what the deposit did not cover to the customer's saved payment method. */
+async function chargeRemainder(booking: RentalBooking, remainder: number): Promise<void> {
+  const reference = `${PayableType.RentalBooking}/${booking.bookingId}/finalCharge`;
+  const customer = (await collections.users().doc(booking.customerId).get()).data();
+  const savedMethod = customer?.paymentGatewayCustomerId;
+  let details: PaymentDetails;
+  if (!savedMethod) {
+    details = {
+      transactionId: reference,
+      gateway: 'none',
+      amountSmallestUnit: remainder,
+      currencyCode: booking.currencyCode,
+      status: PaymentStatus.Failed,
+      timestamp: admin.firestore.Timestamp.now(),
+      paymentMethodType: 'unknown',
+      errorCode: 'no_saved_payment_method',
+    };
+  } else {
+    details = await authorizePayment({
+      amountSmallestUnit: remainder,
+      currencyCode: booking.currencyCode,
+      paymentMethodToken: savedMethod,
+      customerId: savedMethod,
+      reference,
+    });
+    if (details.status === PaymentStatus.Authorized) {
+      details = await capturePayment(details);
+    }
+  }
+  await savePaymentDetails(PayableType.RentalBooking, booking.bookingId, details, 'finalChargePaymentDetails');
+}
+
+/**
+ * Moves the booking's payments along with its status.
+ * A cancelled booking releases its deposit hold and records its refund. A completed booking takes
+ * its final charge from the hold (voiding it when nothing is owed); any amount above the deposit is
+ * charged to the customer's saved payment method and stored in `finalChargePaymentDetails`.
+ * Gateway failures are recorded on the booking and do not undo the status change.
+ */
+export async function settleRentalPayment(booking: RentalBooking): Promise<void> {
+  const { bookingStatus, paymentDetails } = booking;
+  try {
+    if (bookingStatus === RentalBookingStatus.Cancelled) {
+      if (paymentDetails && [PaymentStatus.Authorized, PaymentStatus.VoidFailed].includes(paymentDetails.status)) {
+        await savePaymentDetails(PayableType.RentalBooking, booking.bookingId, await voidPayment(paymentDetails));
+      }
+      await refundCancelledEntity(PayableType.RentalBooking, booking.bookingId);
+    } else if (bookingStatus === RentalBookingStatus.Completed) {
+      const finalCharge = booking.finalChargeSmallestUnit ?? 0;
+      await settleDeposit(booking, finalCharge);
+      const remainder = finalCharge - booking.depositSmallestUnit;
+      if (remainder > 0 && !booking.finalChargePaymentDetails) {
+        await chargeRemainder(booking, remainder);
+      }
+    }
+  } catch (error) {
+    logger.error('Failed to settle rental payment', { bookingId: booking.bookingId, bookingStatus, error });
+  }
+}
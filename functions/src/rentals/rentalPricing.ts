@@ -0,0 +1,38 @@
+import * as admin from 'firebase-admin';
+import { FeeInterval, RentalItem } from '../models';
+import { PromoContext, PromoTargetKind } from '../promos/promoEngine';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Length of each `FeeInterval` in milliseconds. */
+export const FEE_INTERVAL_MS: Record<FeeInterval, number> = {
+  [FeeInterval.Hourly]: HOUR_MS,
+  [FeeInterval.Daily]: 24 * HOUR_MS,
+  [FeeInterval.Weekly]: 7 * 24 * HOUR_MS,
+};
+
+/** Number of started fee intervals between `start` and `end`; at least one. */
+export function countFeeIntervals(
+  feeInterval: FeeInterval,
+  start: admin.firestore.Timestamp,
+  end: admin.firestore.Timestamp,
+): number {
+  const elapsed = Math.max(0, end.toMillis() - start.toMillis());
+  return Math.max(1, Math.ceil(elapsed / FEE_INTERVAL_MS[feeInterval]));
+}
+
+/** Rental fee for keeping `item` from `start` to `end` (in smallest unit). */
+export function calculateRentalFee(
+  item: RentalItem,
+  start: admin.firestore.Timestamp,
+  end: admin.firestore.Timestamp,
+): number {
+  return item.rentalFeeSmallestUnit * countFeeIntervals(item.feeInterval, start, end);
+}
+
+/** Promo context for a rental fee of `feeSmallestUnit` on `item`. */
+export const rentalPromoContext = (item: RentalItem, feeSmallestUnit: number): PromoContext => ({
+  kind: PromoTargetKind.Rental,
+  currencyCode: item.currencyCode,
+  lines: [{ itemId: item.rentalItemId, amountSmallestUnit: feeSmallestUnit }],
+});
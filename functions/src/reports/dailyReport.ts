@@ -0,0 +1,243 @@
+import * as admin from 'firebase-admin';
+import { Actor } from '../common/actor';
+import { ReportSettings } from '../config/appConfig';
+import { collections } from '../models/collections';
+import {
+  Box,
+  BoxReport,
+  DailyReport,
+  InventoryLog,
+  OrderStatus,
+  PaymentDetails,
+  RentalBooking,
+  RentalBookingStatus,
+  RentalUtilization,
+  ReportAmounts,
+} from '../models';
+import { isOnlinePayment } from '../orders/orderPayments';
+import { capturedAmount, refundedAmount } from '../payments/paymentService';
+import { ReportPeriod, reportPeriod } from './reportPeriod';
+
+/** Statuses of bookings whose item is out with the customer. */
+const RENTED_OUT_STATUSES = [
+  RentalBookingStatus.Active,
+  RentalBookingStatus.Overdue,
+  RentalBookingStatus.PendingReturn,
+];
+
+/** Fields of `ReportAmounts` that are added up. */
+export const AMOUNT_FIELDS = [
+  'grossRevenueSmallestUnit',
+  'refundsSmallestUnit',
+  'netRevenueSmallestUnit',
+  'promoDiscountsSmallestUnit',
+  'vipDiscountsSmallestUnit',
+  'courierEarningsSmallestUnit',
+] as const;
+
+/** Figures of one box, or of the whole report, while they are being added up. */
+interface Tally {
+  ordersByStatus: Partial<Record<OrderStatus, number>>;
+  amounts: Map<string, ReportAmounts>;
+}
+
+const newTally = (): Tally => ({ ordersByStatus: {}, amounts: new Map() });
+
+function amountsIn(tally: Tally, currencyCode: string): ReportAmounts {
+  let amounts = tally.amounts.get(currencyCode);
+  if (!amounts) {
+    amounts = { currencyCode, ...Object.fromEntries(AMOUNT_FIELDS.map((field) => [field, 0])) } as ReportAmounts;
+    tally.amounts.set(currencyCode, amounts);
+  }
+  return amounts;
+}
+
+/** Adds what was captured and refunded on `details` to the revenue of `amounts`. */
+function addPayment(amounts: ReportAmounts, details: PaymentDetails | undefined): void {
+  const captured = capturedAmount(details);
+  if (!details || captured === 0) return;
+  const refunded = refundedAmount(details);
+  amounts.grossRevenueSmallestUnit += captured;
+  amounts.refundsSmallestUnit += refunded;
+  amounts.netRevenueSmallestUnit += captured - refunded;
+}
+
+/** Units per rental item, keyed by `${boxId}/${rentalItemId}`. */
+function countUnits(bookings: RentalBooking[]): Map<string, number> {
+  const units = new Map<string, number>();
+  for (const booking of bookings) {
+    const key = `${booking.pickupBoxId}/${booking.rentalItemId}`;
+    units.set(key, (units.get(key) ?? 0) + 1);
+  }
+  return units;
+}
+
+/**
+ * Rental stock of each box at the end of the period, keyed like `countUnits`: the current stock
+ * less the changes logged since then.
+ */
+function stockAtEnd(boxes: Map<string, Box>, changesSinceEnd: InventoryLog[]): Map<string, number> {
+  const stock = new Map<string, number>();
+  for (const [boxId, box] of boxes) {
+    for (const [rentalItemId, units] of Object.entries(box.rentalInventory)) {
+      stock.set(`${boxId}/${rentalItemId}`, units);
+    }
+  }
+  for (const log of changesSinceEnd) {
+    const key = `${log.boxId}/${log.rentalItemId}`;
+    stock.set(key, (stock.get(key) ?? 0) - log.quantityChange);
+  }
+  return stock;
+}
+
+/** Utilization of each rental item stocked at or rented from `boxId` at the end of the period. */
+function rentalUtilization(
+  boxId: string,
+  stock: Map<string, number>,
+  rentedDuringDay: Map<string, number>,
+  rentedOutAtEnd: Map<string, number>,
+): RentalUtilization[] {
+  const itemIds = new Set<string>();
+  for (const key of [...stock.keys(), ...rentedDuringDay.keys()]) {
+    if (key.startsWith(`${boxId}/`)) itemIds.add(key.slice(boxId.length + 1));
+  }
+  return [...itemIds].sort().map((rentalItemId) => {
+    const unitsInStock = Math.max(0, stock.get(`${boxId}/${rentalItemId}`) ?? 0);
+    const unitsRented = rentedDuringDay.get(`${boxId}/${rentalItemId}`) ?? 0;
+    const fleet = unitsInStock + (rentedOutAtEnd.get(`${boxId}/${rentalItemId}`) ?? 0);
+    return {
+      rentalItemId,
+      unitsInStock,
+      unitsRented,
+      utilizationBasisPoints: fleet > 0 ? Math.min(10000, Math.round((unitsRented * 10000) / fleet)) : 0,
+    };
+  });
+}
+
+const sortedAmounts = (tally: Tally): ReportAmounts[] =>
+  [...tally.amounts.values()].sort((a, b) => a.currencyCode.localeCompare(b.currencyCode));
+
+/** Loads everything that happened in `period` that the report covers. */
+async function loadActivity(period: ReportPeriod) {
+  const { start, end } = period;
+  const [orders, returnedSinceStart, rentedOutNow, events, shifts, boxes, changesSinceEnd] = await Promise.all([
+    collections.orders().where('createdAt', '>=', start).where('createdAt', '<', end).get(),
+    collections.rentalBookings().where('actualReturnTimestamp', '>=', start).get(),
+    collections.rentalBookings().where('bookingStatus', 'in', RENTED_OUT_STATUSES).get(),
+    collections.eventBookings().where('eventDate', '>=', start).where('eventDate', '<', end).get(),
+    collections.shifts().where('endTimestamp', '>=', start).where('endTimestamp', '<', end).get(),
+    collections.boxes().get(),
+    collections.inventoryLogs().where('timestamp', '>=', end).get(),
+  ]);
+  const returned = returnedSinceStart.docs.map((doc) => doc.data());
+  const outNow = rentedOutNow.docs.map((doc) => doc.data());
+  const pickedUpBefore = (booking: RentalBooking, time: admin.firestore.Timestamp) =>
+    booking.pickupTimestamp !== undefined && booking.pickupTimestamp.toMillis() < time.toMillis();
+  return {
+    orders: orders.docs.map((doc) => doc.data()),
+    returnedDuringDay: returned.filter((booking) => booking.actualReturnTimestamp!.toMillis() < end.toMillis()),
+    rentedDuringDay: [...new Map([...returned, ...outNow].map((booking) => [booking.bookingId, booking])).values()]
+      .filter((booking) => pickedUpBefore(booking, end)),
+    rentedOutAtEnd: [
+      ...outNow,
+      ...returned.filter((booking) => booking.actualReturnTimestamp!.toMillis() >= end.toMillis()),
+    ].filter((booking) => pickedUpBefore(booking, end)),
+    rentalStockChangesSinceEnd: changesSinceEnd.docs
+      .map((doc) => doc.data())
+      .filter((log) => log.rentalItemId !== undefined),
+    events: events.docs.map((doc) => doc.data()),
+    shifts: shifts.docs.map((doc) => doc.data()),
+    boxes: new Map(boxes.docs.map((doc) => [doc.id, doc.data()])),
+  };
+}
+
+/**
+ * Adds up the activity of local day `date` per box and per currency.
+ * - Orders placed that day are counted by their current status. Their revenue is the captured
+ *   payment, or the total of a delivered order paid on delivery. Orders without a box count
+ *   towards the totals only.
+ * - Rentals returned that day count at their pickup box, with the deposit capture and final charge.
+ * - Events held that day count towards the totals only, as they belong to no box.
+ * - Courier earnings are those of shifts that ended that day, at the box they ended at.
+ * - Rental utilization compares the units rented that day with the fleet at the end of the day:
+ *   the stock then, rebuilt from the inventory logs written since, plus the units still out.
+ * Refunds are those made on the payments counted, whenever they happened.
+ */
+export async function buildDailyReport(date: string, settings: ReportSettings, actor: Actor): Promise<DailyReport> {
+  const period = reportPeriod(date, settings.timeZone);
+  const activity = await loadActivity(period);
+  const tallies = new Map<string, Tally>([...activity.boxes.keys()].map((boxId) => [boxId, newTally()]));
+  const tallyOf = (boxId: string): Tally => {
+    if (!tallies.has(boxId)) tallies.set(boxId, newTally());
+    return tallies.get(boxId)!;
+  };
+  const totals = newTally();
+
+  for (const order of activity.orders) {
+    const tally = order.boxId ? tallyOf(order.boxId) : totals;
+    tally.ordersByStatus[order.orderStatus] = (tally.ordersByStatus[order.orderStatus] ?? 0) + 1;
+    const amounts = amountsIn(tally, order.currencyCode);
+    if (isOnlinePayment(order.paymentMethod)) {
+      addPayment(amounts, order.paymentDetails);
+    } else if (order.orderStatus === OrderStatus.Delivered) {
+      amounts.grossRevenueSmallestUnit += order.totalSmallestUnit;
+      amounts.netRevenueSmallestUnit += order.totalSmallestUnit;
+    }
+    const vipDiscount = order.vipDiscountSmallestUnit ?? 0;
+    amounts.promoDiscountsSmallestUnit += (order.discountSmallestUnit ?? 0) - vipDiscount;
+    amounts.vipDiscountsSmallestUnit += vipDiscount;
+  }
+  for (const booking of activity.returnedDuringDay) {
+    const amounts = amountsIn(tallyOf(booking.pickupBoxId), booking.currencyCode);
+    addPayment(amounts, booking.paymentDetails);
+    addPayment(amounts, booking.finalChargePaymentDetails);
+    amounts.promoDiscountsSmallestUnit += booking.discountSmallestUnit ?? 0;
+  }
+  for (const shift of activity.shifts) {
+    const boxId = shift.endBoxId ?? shift.startBoxId;
+    const box = activity.boxes.get(boxId);
+    if (!box || !shift.totalEarningsSmallestUnit) continue;
+    amountsIn(tallyOf(boxId), box.currencyCode).courierEarningsSmallestUnit += shift.totalEarningsSmallestUnit;
+  }
+  for (const event of activity.events) {
+    addPayment(amountsIn(totals, event.currencyCode), event.paymentDetails);
+  }
+
+  const rentedDuringDay = countUnits(activity.rentedDuringDay);
+  const rentedOutAtEnd = countUnits(activity.rentedOutAtEnd);
+  const stock = stockAtEnd(activity.boxes, activity.rentalStockChangesSinceEnd);
+  const boxes: BoxReport[] = [...tallies].sort(([a], [b]) => a.localeCompare(b)).map(([boxId, tally]) => {
+    for (const [status, count] of Object.entries(tally.ordersByStatus) as [OrderStatus, number][]) {
+      totals.ordersByStatus[status] = (totals.ordersByStatus[status] ?? 0) + count;
+    }
+    for (const amounts of tally.amounts.values()) {
+      const total = amountsIn(totals, amounts.currencyCode);
+      AMOUNT_FIELDS.forEach((field) => total[field] += amounts[field]);
+    }
+    return {
+      boxId,
+      ordersByStatus: tally.ordersByStatus,
+      amounts: sortedAmounts(tally),
+      rentalUtilization: rentalUtilization(boxId, stock, rentedDuringDay, rentedOutAtEnd),
+    };
+  });
+
+  return {
+    reportId: date,
+    timeZone: settings.timeZone,
+    periodStart: period.start,
+    periodEnd: period.end,
+    boxes,
+    ordersByStatus: totals.ordersByStatus,
+    totals: sortedAmounts(totals),
+    generatedAt: admin.firestore.Timestamp.now(),
+    generatedBy: actor.userId,
+  };
+}
+
+/** Builds the report of `date` and stores it in `dailyReports`, replacing any earlier version. */
+export async function saveDailyReport(date: string, settings: ReportSettings, actor: Actor): Promise<DailyReport> {
+  const report = await buildDailyReport(date, settings, actor);
+  await collections.dailyReports().doc(date).set(report);
+  return report;
+}
@@ -0,0 +1,99 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { authorize } from '../common/permissions';
+import { getAppConfig } from '../config/appConfig';
+import { DailyReport, OrderStatus, PermissionKey } from '../models';
+import { defineSchema, localDate, oneOf, optional, validate } from '../models/validation';
+import { AMOUNT_FIELDS } from './dailyReport';
+import { loadDailyReports, ReportRangeRequest } from './getDailyReports';
+import { datesBetween } from './reportPeriod';
+
+/** Box ID written on the rows of report totals. */
+const TOTALS_ROW = 'ALL';
+
+/** Parts of a daily report that can be exported, one CSV each. */
+export enum ReportCsvSection {
+  /** Revenue, refunds, discounts and courier earnings per box and currency. */
+  Amounts = 'amounts',
+  /** Order counts per box and status. */
+  Orders = 'orders',
+  /** Rental utilization per box and rental item. */
+  RentalUtilization = 'rentalUtilization',
+}
+
+interface ExportDailyReportsCsvRequest extends ReportRangeRequest {
+  section?: ReportCsvSection;
+}
+
+const requestSchema = defineSchema<ExportDailyReportsCsvRequest>('ExportDailyReportsCsvRequest', {
+  from: localDate,
+  to: localDate,
+  section: optional(oneOf(ReportCsvSection)),
+});
+
+/** Quotes `value` when it contains a comma, quote or line break. */
+const csvField = (value: string | number): string =>
+  /[",\r\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value);
+
+const toCsv = (rows: (string | number)[][]): string =>
+  rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+
+/** Header and rows of `section` for `reports`; every box is followed by a row of the report totals. */
+function sectionRows(section: ReportCsvSection, reports: DailyReport[]): (string | number)[][] {
+  const statuses = Object.values(OrderStatus);
+  switch (section) {
+  case ReportCsvSection.Amounts:
+    return [
+      ['date', 'boxId', 'currencyCode', ...AMOUNT_FIELDS],
+      ...reports.flatMap((report) => [
+        ...report.boxes.map((box) => ({ boxId: box.boxId, amounts: box.amounts })),
+        { boxId: TOTALS_ROW, amounts: report.totals },
+      ].flatMap(({ boxId, amounts }) => amounts.map((row) => [
+        report.reportId,
+        boxId,
+        row.currencyCode,
+        ...AMOUNT_FIELDS.map((field) => row[field]),
+      ]))),
+    ];
+  case ReportCsvSection.Orders:
+    return [
+      ['date', 'boxId', ...statuses],
+      ...reports.flatMap((report) => [
+        ...report.boxes.map((box) => ({ boxId: box.boxId, ordersByStatus: box.ordersByStatus })),
+        { boxId: TOTALS_ROW, ordersByStatus: report.ordersByStatus },
+      ].map(({ boxId, ordersByStatus }) => [
+        report.reportId,
+        boxId,
+        ...statuses.map((status) => ordersByStatus[status] ?? 0),
+      ])),
+    ];
+  case ReportCsvSection.RentalUtilization:
+    return [
+      ['date', 'boxId', 'rentalItemId', 'unitsInStock', 'unitsRented', 'utilizationBasisPoints'],
+      ...reports.flatMap((report) => report.boxes.flatMap((box) => box.rentalUtilization.map((item) => [
+        report.reportId,
+        box.boxId,
+        item.rentalItemId,
+        item.unitsInStock,
+        item.unitsRented,
+        item.utilizationBasisPoints,
+      ]))),
+    ];
+  }
+}
+
+/**
+ * Exports one section of the stored daily reports from `from` to `to` as CSV, amounts in smallest
+ * units. Dates without a report are listed in `missingDates`. Requires `report:view`.
+ */
+export const exportDailyReportsCsv = onCall(async (request) => {
+  await authorize(request, PermissionKey.ReportView);
+  const { from, to, section = ReportCsvSection.Amounts } = validate(requestSchema, request.data);
+  const settings = await getAppConfig('reportSettings');
+  const { reports, missingDates } = await loadDailyReports(datesBetween(from, to, settings.maxRangeDays));
+  return {
+    success: true,
+    fileName: `daily-reports-${section}-${from}-${to}.csv`,
+    csv: toCsv(sectionRows(section, reports)),
+    missingDates,
+  };
+});
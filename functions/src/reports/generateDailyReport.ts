@@ -0,0 +1,42 @@
+import { logger } from 'firebase-functions/v2';
+import { onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { systemActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { getAppConfig } from '../config/appConfig';
+import { PermissionKey } from '../models';
+import { defineSchema, localDate, optional, validate } from '../models/validation';
+import { saveDailyReport } from './dailyReport';
+import { localDateOf, previousDate } from './reportPeriod';
+
+interface GenerateDailyReportRequest {
+  /** Local date, "YYYY-MM-DD"; defaults to yesterday. */
+  date?: string;
+}
+
+const requestSchema = defineSchema<GenerateDailyReportRequest>('GenerateDailyReportRequest', {
+  date: optional(localDate),
+});
+
+/** Builds the report of the previous day once it is complete. */
+export const generateDailyReportNightly = onSchedule('every day 02:00', async () => {
+  const settings = await getAppConfig('reportSettings');
+  const report = await saveDailyReport(previousDate(settings.timeZone), settings, systemActor);
+  logger.info('Daily report generated', { reportId: report.reportId, boxes: report.boxes.length });
+});
+
+/**
+ * Builds (or rebuilds) the report of `date` on demand. A report of today covers the day so far and
+ * is replaced by the nightly run. Requires `report:view`.
+ */
+export const generateDailyReport = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.ReportView);
+  const input = validate(requestSchema, request.data);
+  const settings = await getAppConfig('reportSettings');
+  const date = input.date ?? previousDate(settings.timeZone);
+  if (date > localDateOf(new Date(), settings.timeZone)) {
+    throw new AppError('invalid-argument', 'error.report.futureDate', { date });
+  }
+  return { success: true, report: await saveDailyReport(date, settings, actor) };
+});
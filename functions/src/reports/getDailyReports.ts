@@ -0,0 +1,39 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { authorize } from '../common/permissions';
+import { getAppConfig } from '../config/appConfig';
+import { collections } from '../models/collections';
+import { DailyReport, PermissionKey } from '../models';
+import { defineSchema, localDate, validate } from '../models/validation';
+import { datesBetween } from './reportPeriod';
+
+/** Dates from `from` to `to`, both included, "YYYY-MM-DD". */
+export interface ReportRangeRequest {
+  from: string;
+  to: string;
+}
+
+export const reportRangeSchema = defineSchema<ReportRangeRequest>('ReportRangeRequest', {
+  from: localDate,
+  to: localDate,
+});
+
+/** Stored reports of `dates`, oldest first, and the dates that have none. */
+export async function loadDailyReports(dates: string[]): Promise<{ reports: DailyReport[]; missingDates: string[] }> {
+  const snapshots = await Promise.all(dates.map((date) => collections.dailyReports().doc(date).get()));
+  const reports: DailyReport[] = [];
+  const missingDates: string[] = [];
+  snapshots.forEach((snapshot, index) => {
+    const report = snapshot.data();
+    if (report) reports.push(report);
+    else missingDates.push(dates[index]);
+  });
+  return { reports, missingDates };
+}
+
+/** Returns the stored daily reports from `from` to `to`. Requires `report:view`. */
+export const getDailyReports = onCall(async (request) => {
+  await authorize(request, PermissionKey.ReportView);
+  const { from, to } = validate(reportRangeSchema, request.data);
+  const settings = await getAppConfig('reportSettings');
+  return { success: true, ...(await loadDailyReports(datesBetween(from, to, settings.maxRangeDays))) };
+});
@@ -0,0 +1,70 @@
+import * as admin from 'firebase-admin';
+import { AppError } from '../common/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A local calendar day as a half-open range of instants. */
+export interface ReportPeriod {
+  /** "YYYY-MM-DD". */
+  date: string;
+  start: admin.firestore.Timestamp;
+  end: admin.firestore.Timestamp;
+}
+
+/** Difference between wall-clock time in `timeZone` and UTC at `instant`, in milliseconds. */
+function zoneOffsetMs(instant: number, timeZone: string): number {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(instant)).map((part) => [part.type, Number(part.value)]));
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - (instant - (instant % 1000));
+}
+
+/** Instant of local midnight starting `date` in `timeZone`. */
+function startOfDay(date: string, timeZone: string): number {
+  const midnightUtc = Date.parse(`${date}T00:00:00Z`);
+  const estimate = midnightUtc - zoneOffsetMs(midnightUtc, timeZone);
+  return midnightUtc - zoneOffsetMs(estimate, timeZone);
+}
+
+/** The date after `date`. */
+export const nextDate = (date: string): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + DAY_MS).toISOString().slice(0, 10);
+
+/** Local date of `instant` in `timeZone`, "YYYY-MM-DD". */
+export const localDateOf = (instant: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+
+/** The day before today in `timeZone`: the last complete day. */
+export const previousDate = (timeZone: string, now: Date = new Date()): string =>
+  localDateOf(new Date(startOfDay(localDateOf(now, timeZone), timeZone) - 1), timeZone);
+
+/** Start and end of `date` in `timeZone`; days with a DST change are 23 or 25 hours long. */
+export function reportPeriod(date: string, timeZone: string): ReportPeriod {
+  return {
+    date,
+    start: admin.firestore.Timestamp.fromMillis(startOfDay(date, timeZone)),
+    end: admin.firestore.Timestamp.fromMillis(startOfDay(nextDate(date), timeZone)),
+  };
+}
+
+/** Dates from `from` to `to`, both included; throws when the range is reversed or longer than `maxDays`. */
+export function datesBetween(from: string, to: string, maxDays: number): string[] {
+  const days = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+  if (days < 1) {
+    throw new AppError('invalid-argument', 'error.report.invalidRange');
+  }
+  if (days > maxDays) {
+    throw new AppError('invalid-argument', 'error.report.rangeTooLong', { maxDays });
+  }
+  const dates = [from];
+  while (dates.length < days) dates.push(nextDate(dates[dates.length - 1]));
+  return dates;
+}
@@ -0,0 +1,93 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { Actor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { authorize, DEFAULT_ROLE_PERMISSIONS } from '../common/permissions';
+import { collections, db } from '../models/collections';
+import { PermissionKey, Role, UserRole } from '../models';
+import { defineSchema, id, oneOf, validate } from '../models/validation';
+
+/** Role every user falls back to when their role is removed. */
+const BASE_ROLE = UserRole.Customer;
+
+interface AssignRoleRequest {
+  userId: string;
+  roleId: UserRole;
+}
+
+const assignRoleSchema = defineSchema<AssignRoleRequest>('AssignRoleRequest', {
+  userId: id,
+  roleId: oneOf(UserRole),
+});
+
+const removeRoleSchema = defineSchema<{ userId: string }>('RemoveRoleRequest', {
+  userId: id,
+});
+
+/** Sets a user's role; custom claims follow through `syncRoleClaims`. */
+async function setUserRole(userId: string, role: UserRole, actor: Actor): Promise<void> {
+  if (userId === actor.userId) {
+    throw new AppError('failed-precondition', 'error.role.cannotChangeOwnRole');
+  }
+  const ref = collections.users().doc(userId);
+  await db().runTransaction(async (transaction) => {
+    const user = (await transaction.get(ref)).data();
+    if (!user) {
+      throw new AppError('not-found', 'error.user.notFound');
+    }
+    const now = admin.firestore.Timestamp.now();
+    transaction.set(ref, { ...user, role, updatedAt: now, lastModifiedBy: modifiedBy(actor, now) });
+  });
+}
+
+/** Roles with their permissions, from the `roles` collection or else the default matrix. */
+async function listAllRoles(): Promise<Role[]> {
+  const stored = new Map((await collections.roles().get()).docs.map((doc) => [doc.id, doc.data()]));
+  return Object.values(UserRole).map((roleId) => stored.get(roleId) ?? {
+    roleId,
+    displayName: roleId,
+    permissions: [...DEFAULT_ROLE_PERMISSIONS[roleId]],
+  });
+}
+
+/** Gives a user a role. Requires `role:manage`; callers cannot change their own role. */
+export const assignRole = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.RoleManage);
+  const { userId, roleId } = validate(assignRoleSchema, request.data);
+  await setUserRole(userId, roleId, actor);
+  return { success: true };
+});
+
+/** Takes a user's role away, leaving them a Customer. Requires `role:manage`. */
+export const removeRole = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.RoleManage);
+  const { userId } = validate(removeRoleSchema, request.data);
+  await setUserRole(userId, BASE_ROLE, actor);
+  return { success: true };
+});
+
+/** Lists every role with the permissions it grants. Requires `role:manage`. */
+export const listRoles = onCall(async (request) => {
+  await authorize(request, PermissionKey.RoleManage);
+  return { success: true, roles: await listAllRoles() };
+});
+
+/**
+ * Writes the default permission matrix to the `roles` collection.
+ * Roles that already have a document are left as they are. Requires `role:manage`.
+ */
+export const seedRoles = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.RoleManage);
+  const existing = new Set((await collections.roles().get()).docs.map((doc) => doc.id));
+  const batch = db().batch();
+  const seeded = Object.values(UserRole).filter((roleId) => !existing.has(roleId));
+  seeded.forEach((roleId) => batch.set(collections.roles().doc(roleId), {
+    roleId,
+    displayName: roleId,
+    permissions: [...DEFAULT_ROLE_PERMISSIONS[roleId]],
+    lastModifiedBy: modifiedBy(actor),
+  }));
+  await batch.commit();
+  return { success: true, seededRoleIds: seeded };
+});
@@ -0,0 +1,28 @@
+import * as admin from 'firebase-admin';
+import { logger } from 'firebase-functions/v2';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { CollectionName } from '../models/collections';
+
+/**
+ * Mirrors `User.role` and `User.isActive` into the user's Firebase Auth custom claims, so clients
+ * and security rules see role changes. Tokens of deactivated users are revoked.
+ */
+export const syncRoleClaims = onDocumentWritten(`${CollectionName.Users}/{userId}`, async (event) => {
+  const { userId } = event.params;
+  const before = event.data?.before;
+  const after = event.data?.after;
+  const role = after?.exists ? after.get('role') : null;
+  const isActive = after?.exists ? after.get('isActive') === true : false;
+  if (before?.exists && after?.exists &&
+    before.get('role') === role && before.get('isActive') === after.get('isActive')) {
+    return;
+  }
+  try {
+    await admin.auth().setCustomUserClaims(userId, after?.exists ? { role, isActive } : null);
+    if (!isActive) {
+      await admin.auth().revokeRefreshTokens(userId);
+    }
+  } catch (error) {
+    logger.error('Failed to sync role claims', { userId, error });
+  }
+});
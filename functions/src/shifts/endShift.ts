@@ -0,0 +1,58 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { resolveActor } from '../common/actor';
+import { getAppConfig } from '../config/appConfig';
+import { db } from '../models/collections';
+import { amount, defineSchema, id, optional, text, validate } from '../models/validation';
+import {
+  calculateShiftEarnings,
+  closeShift,
+  getCourierForUpdate,
+  getCurrentShift,
+  requireAssignedBox,
+} from './shiftService';
+
+interface EndShiftRequest {
+  endBoxId: string;
+  endCashSmallestUnit: number;
+  notes?: string;
+}
+
+const requestSchema = defineSchema<EndShiftRequest>('EndShiftRequest', {
+  endBoxId: id,
+  endCashSmallestUnit: amount,
+  notes: optional(text({ maxLength: 1000 })),
+});
+
+/**
+ * Clocks the calling courier out, handing over at one of their assigned boxes.
+ * The shift's earnings are computed from the orders delivered, tips and rental returns since it
+ * started, and the cash handed over is reconciled against the cash the courier should hold.
+ */
+export const endShift = onCall(async (request) => {
+  const actor = await resolveActor(request);
+  const input = validate(requestSchema, request.data);
+  const settings = await getAppConfig('courierSettings');
+
+  const shift = await db().runTransaction(async (transaction) => {
+    const courier = await getCourierForUpdate(transaction, actor);
+    requireAssignedBox(courier, input.endBoxId);
+    const current = await getCurrentShift(transaction, courier);
+    const now = admin.firestore.Timestamp.now();
+    const settlement = await calculateShiftEarnings(transaction, current, now, settings);
+    return closeShift(transaction, current, courier, settlement, {
+      endBoxId: input.endBoxId,
+      endCashSmallestUnit: input.endCashSmallestUnit,
+      notes: input.notes,
+    }, actor, now);
+  });
+  return {
+    success: true,
+    shiftId: shift.shiftId,
+    earnings: shift.earnings,
+    totalEarningsSmallestUnit: shift.totalEarningsSmallestUnit,
+    expectedEndCashSmallestUnit: shift.expectedEndCashSmallestUnit,
+    cashDifferenceSmallestUnit: shift.cashDifferenceSmallestUnit,
+    currencyCode: shift.currencyCode,
+  };
+});
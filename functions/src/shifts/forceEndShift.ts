@@ -0,0 +1,65 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { getAppConfig } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import { NotificationType, PermissionKey, ShiftStatus } from '../models';
+import { defineSchema, id, text, validate } from '../models/validation';
+import { createNotification } from '../notifications/notificationService';
+import { calculateShiftEarnings, closeShift } from './shiftService';
+
+interface ForceEndShiftRequest {
+  shiftId: string;
+  reason: string;
+}
+
+const requestSchema = defineSchema<ForceEndShiftRequest>('ForceEndShiftRequest', {
+  shiftId: id,
+  reason: text({ minLength: 1, maxLength: 500 }),
+});
+
+/**
+ * Ends a shift the courier abandoned, computing its earnings as `endShift` would. No cash was handed
+ * over, so the cash is left unreconciled; the reason is added to the shift notes and the courier
+ * is notified.
+ */
+export const forceEndShift = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.CourierManageShifts);
+  const input = validate(requestSchema, request.data);
+  const settings = await getAppConfig('courierSettings');
+
+  const shift = await db().runTransaction(async (transaction) => {
+    const current = (await transaction.get(collections.shifts().doc(input.shiftId))).data();
+    if (!current) {
+      throw new AppError('not-found', 'error.shift.notFound');
+    }
+    if (current.status === ShiftStatus.Closed) {
+      throw new AppError('failed-precondition', 'error.shift.alreadyClosed');
+    }
+    const courier = (await transaction.get(collections.users().doc(current.courierId))).data();
+    if (!courier) {
+      throw new AppError('not-found', 'error.user.notFound', { userId: current.courierId });
+    }
+    const now = admin.firestore.Timestamp.now();
+    const settlement = await calculateShiftEarnings(transaction, current, now, settings);
+    const closed = closeShift(transaction, current, courier, settlement, {
+      notes: `Force-ended: ${input.reason}`,
+      forceEndedBy: actor.userId,
+    }, actor, now);
+    createNotification(transaction, {
+      userId: courier.userId,
+      template: 'shift.forceEnded',
+      type: NotificationType.Warning,
+      relatedEntityId: closed.shiftId,
+      relatedEntityType: 'Shift',
+    });
+    return closed;
+  });
+  return {
+    success: true,
+    shiftId: shift.shiftId,
+    totalEarningsSmallestUnit: shift.totalEarningsSmallestUnit,
+    expectedEndCashSmallestUnit: shift.expectedEndCashSmallestUnit,
+  };
+});
@@ -0,0 +1,50 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { Actor, resolveActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { collections, db } from '../models/collections';
+import { Shift, ShiftStatus } from '../models';
+import { endBreaks, getCourierForUpdate, getCurrentShift } from './shiftService';
+
+/** Moves the caller's current shift from `from` to `to`, changing its breaks with `apply`. */
+async function changeBreak(
+  actor: Actor,
+  from: ShiftStatus,
+  to: ShiftStatus,
+  apply: (shift: Shift, now: admin.firestore.Timestamp) => Shift['breaks'],
+): Promise<Shift> {
+  return db().runTransaction(async (transaction) => {
+    const courier = await getCourierForUpdate(transaction, actor);
+    const shift = await getCurrentShift(transaction, courier);
+    if (shift.status !== from) {
+      throw new AppError('failed-precondition', 'error.shift.invalidStatus', { status: shift.status });
+    }
+    const now = admin.firestore.Timestamp.now();
+    const next: Shift = {
+      ...shift,
+      status: to,
+      breaks: apply(shift, now),
+      lastModifiedBy: modifiedBy(actor, now),
+    };
+    transaction.set(collections.shifts().doc(shift.shiftId), next);
+    return next;
+  });
+}
+
+/** Puts the calling courier's shift on break; the box does not count as staffed meanwhile. */
+export const startShiftBreak = onCall(async (request) => {
+  const actor = await resolveActor(request);
+  const shift = await changeBreak(actor, ShiftStatus.Open, ShiftStatus.OnBreak, (current, now) => [
+    ...(current.breaks ?? []),
+    { startTimestamp: now },
+  ]);
+  return { success: true, shiftId: shift.shiftId };
+});
+
+/** Ends the calling courier's break. */
+export const endShiftBreak = onCall(async (request) => {
+  const actor = await resolveActor(request);
+  const shift = await changeBreak(actor, ShiftStatus.OnBreak, ShiftStatus.Open, endBreaks);
+  return { success: true, shiftId: shift.shiftId };
+});
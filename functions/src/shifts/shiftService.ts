@@ -0,0 +1,158 @@
+import * as admin from 'firebase-admin';
+import { modifiedBy } from '../audit/modificationStamp';
+import { Actor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { CourierSettings } from '../config/appConfig';
+import { collections } from '../models/collections';
+import {
+  OrderStatus,
+  PaymentMethod,
+  RentalBookingStatus,
+  Shift,
+  ShiftEarnings,
+  ShiftStatus,
+  User,
+  UserRole,
+} from '../models';
+
+/** Reads the courier behind `actor` in `transaction`, rejecting callers who are not couriers. */
+export async function getCourierForUpdate(transaction: admin.firestore.Transaction, actor: Actor): Promise<User> {
+  if (actor.role !== UserRole.Courier) {
+    throw new AppError('permission-denied', 'error.shift.couriersOnly');
+  }
+  const courier = (await transaction.get(collections.users().doc(actor.userId))).data();
+  if (!courier) {
+    throw new AppError('permission-denied', 'error.auth.userNotFound');
+  }
+  return courier;
+}
+
+/** Throws unless `boxId` is one of the boxes the courier is assigned to. */
+export function requireAssignedBox(courier: User, boxId: string): void {
+  if (!courier.assignedBoxIds?.includes(boxId)) {
+    throw new AppError('permission-denied', 'error.shift.boxNotAssigned', { boxId });
+  }
+}
+
+/** Reads the courier's current shift in `transaction`, throwing when they have none. */
+export async function getCurrentShift(transaction: admin.firestore.Transaction, courier: User): Promise<Shift> {
+  const shift = courier.currentShiftId ?
+    (await transaction.get(collections.shifts().doc(courier.currentShiftId))).data() :
+    undefined;
+  if (!shift || shift.status === ShiftStatus.Closed) {
+    throw new AppError('failed-precondition', 'error.shift.noOpenShift');
+  }
+  return shift;
+}
+
+/** Result of `calculateShiftEarnings`. */
+export interface ShiftSettlement {
+  earnings: ShiftEarnings;
+  totalEarningsSmallestUnit: number;
+  /** Cash taken for delivered cash-on-delivery orders. */
+  cashCollectedSmallestUnit: number;
+}
+
+/**
+ * Computes what the courier earned between the start of `shift` and `end`: a delivery fee and the
+ * tip for each order they delivered, and a fee for each rental return they confirmed. Only
+ * amounts in the shift's currency count. Reads through `transaction`.
+ */
+export async function calculateShiftEarnings(
+  transaction: admin.firestore.Transaction,
+  shift: Shift,
+  end: admin.firestore.Timestamp,
+  settings: CourierSettings,
+): Promise<ShiftSettlement> {
+  const [orderSnapshot, rentalSnapshot] = await Promise.all([
+    transaction.get(collections.orders()
+      .where('courierId', '==', shift.courierId)
+      .where('deliveredTimestamp', '>=', shift.startTimestamp)
+      .where('deliveredTimestamp', '<=', end)),
+    transaction.get(collections.rentalBookings()
+      .where('returnCourierId', '==', shift.courierId)
+      .where('actualReturnTimestamp', '>=', shift.startTimestamp)
+      .where('actualReturnTimestamp', '<=', end)),
+  ]);
+  const orders = orderSnapshot.docs
+    .map((doc) => doc.data())
+    .filter((order) => order.orderStatus === OrderStatus.Delivered && order.currencyCode === shift.currencyCode);
+  const rentals = rentalSnapshot.docs
+    .map((doc) => doc.data())
+    .filter((booking) => booking.bookingStatus === RentalBookingStatus.Completed);
+
+  const earnings: ShiftEarnings = {
+    deliveredOrders: orders.length,
+    completedRentals: rentals.length,
+    deliveryEarningsSmallestUnit: orders.length * settings.deliveryFeeSmallestUnit,
+    tipsSmallestUnit: orders.reduce((sum, order) => sum + (order.tipSmallestUnit ?? 0), 0),
+    rentalEarningsSmallestUnit: rentals.length * settings.rentalReturnFeeSmallestUnit,
+  };
+  return {
+    earnings,
+    totalEarningsSmallestUnit:
+      earnings.deliveryEarningsSmallestUnit + earnings.tipsSmallestUnit + earnings.rentalEarningsSmallestUnit,
+    cashCollectedSmallestUnit: orders
+      .filter((order) => order.paymentMethod === PaymentMethod.CashOnDelivery)
+      .reduce((sum, order) => sum + order.totalSmallestUnit, 0),
+  };
+}
+
+/** Breaks of `shift` with any ongoing break ended at `now`. */
+export const endBreaks = (shift: Shift, now: admin.firestore.Timestamp): Shift['breaks'] =>
+  shift.breaks?.map((shiftBreak) => shiftBreak.endTimestamp ? shiftBreak : { ...shiftBreak, endTimestamp: now });
+
+/** How a shift is being closed. */
+export interface ShiftClosing {
+  endBoxId?: string;
+  /** Cash handed over; without it the cash is not reconciled. */
+  endCashSmallestUnit?: number;
+  notes?: string;
+  /** Set when an admin ends the shift on the courier's behalf. */
+  forceEndedBy?: string;
+}
+
+/**
+ * Closes `shift` and frees its courier, both in `transaction`: ends an ongoing break, stores the
+ * earnings and reconciles the handed-over cash against the starting cash plus cash collected.
+ * `settlement` must have been computed in the same transaction.
+ * @return The closed shift.
+ */
+export function closeShift(
+  transaction: admin.firestore.Transaction,
+  shift: Shift,
+  courier: User,
+  settlement: ShiftSettlement,
+  closing: ShiftClosing,
+  actor: Actor,
+  now: admin.firestore.Timestamp,
+): Shift {
+  const expectedEndCash = (shift.startCashSmallestUnit ?? 0) + settlement.cashCollectedSmallestUnit;
+  const closed: Shift = {
+    ...shift,
+    status: ShiftStatus.Closed,
+    endTimestamp: now,
+    endBoxId: closing.endBoxId,
+    breaks: endBreaks(shift, now),
+    earnings: settlement.earnings,
+    totalEarningsSmallestUnit: settlement.totalEarningsSmallestUnit,
+    expectedEndCashSmallestUnit: expectedEndCash,
+    endCashSmallestUnit: closing.endCashSmallestUnit,
+    cashDifferenceSmallestUnit: closing.endCashSmallestUnit === undefined ?
+      undefined :
+      closing.endCashSmallestUnit - expectedEndCash,
+    forceEndedBy: closing.forceEndedBy,
+    notes: [shift.notes, closing.notes].filter(Boolean).join('\n') || undefined,
+    lastModifiedBy: modifiedBy(actor, now),
+  };
+  transaction.set(collections.shifts().doc(shift.shiftId), closed);
+  if (courier.currentShiftId === shift.shiftId) {
+    transaction.set(collections.users().doc(courier.userId), {
+      ...courier,
+      currentShiftId: undefined,
+      updatedAt: now,
+      lastModifiedBy: modifiedBy(actor, now),
+    });
+  }
+  return closed;
+}
@@ -0,0 +1,65 @@
+import * as admin from 'firebase-admin';
+import { onCall } from 'firebase-functions/v2/https';
+import { modifiedBy } from '../audit/modificationStamp';
+import { resolveActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { collections, db } from '../models/collections';
+import { Shift, ShiftStatus } from '../models';
+import { amount, defineSchema, id, validate } from '../models/validation';
+import { getCourierForUpdate, requireAssignedBox } from './shiftService';
+
+interface StartShiftRequest {
+  boxId: string;
+  startCashSmallestUnit: number;
+}
+
+const requestSchema = defineSchema<StartShiftRequest>('StartShiftRequest', {
+  boxId: id,
+  startCashSmallestUnit: amount,
+});
+
+/**
+ * Clocks the calling courier in at one of their assigned boxes with the cash they are holding.
+ * A courier can hold only one shift at a time; it is tracked on `User.currentShiftId`.
+ */
+export const startShift = onCall(async (request) => {
+  const actor = await resolveActor(request);
+  const input = validate(requestSchema, request.data);
+
+  const shift = await db().runTransaction(async (transaction) => {
+    const courier = await getCourierForUpdate(transaction, actor);
+    requireAssignedBox(courier, input.boxId);
+    const box = (await transaction.get(collections.boxes().doc(input.boxId))).data();
+    const current = courier.currentShiftId ?
+      (await transaction.get(collections.shifts().doc(courier.currentShiftId))).data() :
+      undefined;
+    if (current && current.status !== ShiftStatus.Closed) {
+      throw new AppError('failed-precondition', 'error.shift.alreadyOpen', { shiftId: current.shiftId });
+    }
+    if (!box || !box.isActive) {
+      throw new AppError('failed-precondition', 'error.shift.boxUnavailable', { boxId: input.boxId });
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const ref = collections.shifts().doc();
+    const newShift: Shift = {
+      shiftId: ref.id,
+      courierId: courier.userId,
+      startTimestamp: now,
+      status: ShiftStatus.Open,
+      startBoxId: box.boxId,
+      startCashSmallestUnit: input.startCashSmallestUnit,
+      currencyCode: box.currencyCode,
+      lastModifiedBy: modifiedBy(actor, now),
+    };
+    transaction.set(ref, newShift);
+    transaction.set(collections.users().doc(courier.userId), {
+      ...courier,
+      currentShiftId: ref.id,
+      updatedAt: now,
+      lastModifiedBy: modifiedBy(actor, now),
+    });
+    return newShift;
+  });
+  return { success: true, shiftId: shift.shiftId };
+});
@@ -0,0 +1,34 @@
+import { logger } from 'firebase-functions/v2';
+import { onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { systemActor } from '../common/actor';
+import { AppError } from '../common/errors';
+import { authorize } from '../common/permissions';
+import { collections } from '../models/collections';
+import { PermissionKey } from '../models';
+import { defineSchema, id, optional, validate } from '../models/validation';
+import { updateVipTiers } from './vipTiers';
+
+interface RecalculateVipTiersRequest {
+  userId?: string;
+}
+
+const requestSchema = defineSchema<RecalculateVipTiersRequest>('RecalculateVipTiersRequest', {
+  userId: optional(id),
+});
+
+/** Promotes and demotes every customer nightly as spend enters and leaves the window. */
+export const recalculateVipTiersNightly = onSchedule('every day 03:00', async () => {
+  const result = await updateVipTiers(systemActor);
+  logger.info('VIP tiers recalculated', result);
+});
+
+/** Recalculates the VIP tier of one customer, or of every customer when `userId` is omitted. Requires `user:update`. */
+export const recalculateVipTiers = onCall(async (request) => {
+  const actor = await authorize(request, PermissionKey.UserUpdate);
+  const { userId } = validate(requestSchema, request.data);
+  if (userId && !(await collections.users().doc(userId).get()).exists) {
+    throw new AppError('not-found', 'error.user.notFound', { userId });
+  }
+  return { success: true, ...(await updateVipTiers(actor, userId)) };
+});
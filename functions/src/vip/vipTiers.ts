@@ -0,0 +1,204 @@
+import * as admin from 'firebase-admin';
+import { logger } from 'firebase-functions/v2';
+import { modifiedBy } from '../audit/modificationStamp';
+import { Actor } from '../common/actor';
+import { getAppConfig } from '../config/appConfig';
+import { collections, db } from '../models/collections';
+import {
+  EventBooking,
+  NotificationType,
+  Order,
+  RentalBooking,
+  User,
+  UserRole,
+  VipTier,
+  VipTierBenefits,
+} from '../models';
+import { createNotification } from '../notifications/notificationService';
+import { NotificationTemplateId } from '../notifications/notificationTemplates';
+import { netCapturedAmount } from '../payments/paymentService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Documents read per page when summing spend or listing customers. */
+const PAGE_SIZE = 500;
+
+/** Customers whose tier is recalculated at the same time. */
+const UPDATE_BATCH_SIZE = 50;
+
+/** Net captured spend by currency code, in smallest units. */
+export type SpendByCurrency = Map<string, number>;
+
+/** An entity a customer pays for. */
+type SpendingEntity = Order | RentalBooking | EventBooking;
+
+/** What a customer paid for an entity: the captured payment, plus the final charge of a rental, less refunds. */
+const entitySpend = (entity: SpendingEntity): number =>
+  netCapturedAmount(entity.paymentDetails) +
+  ('finalChargePaymentDetails' in entity ? netCapturedAmount(entity.finalChargePaymentDetails) : 0);
+
+/** Reads `query` in pages of `PAGE_SIZE` documents, handing each page to `visit` before reading the next. */
+async function forEachPage<T>(
+  query: admin.firestore.Query<T>,
+  visit: (docs: admin.firestore.QueryDocumentSnapshot<T>[]) => void | Promise<void>,
+): Promise<void> {
+  let cursor: admin.firestore.QueryDocumentSnapshot<T> | undefined;
+  do {
+    const snapshot = await (cursor ? query.startAfter(cursor) : query).limit(PAGE_SIZE).get();
+    await visit(snapshot.docs);
+    cursor = snapshot.size === PAGE_SIZE ? snapshot.docs[snapshot.size - 1] : undefined;
+  } while (cursor);
+}
+
+/**
+ * Net captured spend per customer on orders, rentals and events created since `since`, read page
+ * by page so that only the totals are held in memory.
+ * Pass `customerId` to load the spend of one customer only.
+ */
+export async function loadCustomerSpend(
+  since: admin.firestore.Timestamp,
+  customerId?: string,
+): Promise<Map<string, SpendByCurrency>> {
+  const spend = new Map<string, SpendByCurrency>();
+  const add = (entity: SpendingEntity) => {
+    const amount = entitySpend(entity);
+    if (amount === 0) return;
+    const byCurrency = spend.get(entity.customerId) ?? new Map<string, number>();
+    byCurrency.set(entity.currencyCode, (byCurrency.get(entity.currencyCode) ?? 0) + amount);
+    spend.set(entity.customerId, byCurrency);
+  };
+  const sum = <T extends SpendingEntity>(collection: admin.firestore.CollectionReference<T>) => {
+    const recent = collection.where('createdAt', '>=', since).orderBy('createdAt');
+    return forEachPage(customerId ? recent.where('customerId', '==', customerId) : recent,
+      (docs) => docs.forEach((doc) => add(doc.data())));
+  };
+  await Promise.all([
+    sum(collections.orders()),
+    sum(collections.rentalBookings()),
+    sum(collections.eventBookings()),
+  ]);
+  return spend;
+}
+
+/**
+ * Returns true when `tier` is better than `other`: by `rank` when both have one, otherwise by
+ * `minSpendSmallestUnit`, as for tiers created before ranks existed.
+ */
+const isBetterTier = (tier: VipTier, other: VipTier): boolean =>
+  tier.rank !== undefined && other.rank !== undefined ?
+    tier.rank > other.rank :
+    tier.minSpendSmallestUnit > other.minSpendSmallestUnit;
+
+/** Best tier whose threshold `spend` reaches in the tier's currency, if any. */
+export function selectVipTier(tiers: VipTier[], spend: SpendByCurrency | undefined): VipTier | undefined {
+  return tiers
+    .filter((tier) => (spend?.get(tier.currencyCode) ?? 0) >= tier.minSpendSmallestUnit)
+    .reduce<VipTier | undefined>((best, tier) => (!best || isBetterTier(tier, best) ? tier : best), undefined);
+}
+
+/** Notification sent when a customer moves from `previous` to `next`. */
+function tierChangeTemplate(previous: VipTier | undefined, next: VipTier | undefined): NotificationTemplateId {
+  if (!next) return 'vip.removed';
+  return !previous || isBetterTier(next, previous) ? 'vip.promoted' : 'vip.demoted';
+}
+
+/**
+ * Sets the customer's `vipTier` to `tier` (or clears it) and notifies them, unless it is already set.
+ * `tiers` is used to tell a promotion from a demotion.
+ * @return True when the tier changed.
+ */
+export async function assignVipTier(
+  userId: string,
+  tier: VipTier | undefined,
+  tiers: VipTier[],
+  actor: Actor,
+): Promise<boolean> {
+  const ref = collections.users().doc(userId);
+  return db().runTransaction(async (transaction) => {
+    const user = (await transaction.get(ref)).data();
+    if (!user || user.vipTier === tier?.tierId) return false;
+    const now = admin.firestore.Timestamp.now();
+    const next: User = {
+      ...user,
+      vipTier: tier?.tierId,
+      vipTierUpdatedAt: now,
+      updatedAt: now,
+      lastModifiedBy: modifiedBy(actor, now),
+    };
+    transaction.set(ref, next);
+    createNotification(transaction, {
+      userId,
+      template: tierChangeTemplate(tiers.find((candidate) => candidate.tierId === user.vipTier), tier),
+      params: tier ? { tierName: tier.name } : undefined,
+      type: NotificationType.Info,
+      relatedEntityId: tier?.tierId,
+      relatedEntityType: tier ? 'VipTier' : undefined,
+    });
+    return true;
+  });
+}
+
+/** Start of the spend window counted towards VIP tiers. */
+export async function vipSpendWindowStart(now: number = Date.now()): Promise<admin.firestore.Timestamp> {
+  const { lookbackDays } = await getAppConfig('vipSettings');
+  return admin.firestore.Timestamp.fromMillis(now - lookbackDays * DAY_MS);
+}
+
+/** Outcome of a VIP tier recalculation. */
+export interface VipRecalculationResult {
+  evaluated: number;
+  changed: number;
+  failed: number;
+}
+
+/**
+ * Recalculates the VIP tier of one customer, or of every customer when `customerId` is not given,
+ * from their net spend in the window set by `appConfig/vipSettings`. Customers are read page by
+ * page and updated `UPDATE_BATCH_SIZE` at a time, each on their own so one failure does not block
+ * the rest.
+ */
+export async function updateVipTiers(actor: Actor, customerId?: string): Promise<VipRecalculationResult> {
+  const [tiers, since] = await Promise.all([
+    collections.vipTiers().get().then((snapshot) => snapshot.docs.map((doc) => doc.data())),
+    vipSpendWindowStart(),
+  ]);
+  const spend = await loadCustomerSpend(since, customerId);
+  const outcome: VipRecalculationResult = { evaluated: 0, changed: 0, failed: 0 };
+  const update = async (customerIds: string[]) => {
+    for (let start = 0; start < customerIds.length; start += UPDATE_BATCH_SIZE) {
+      const results = await Promise.allSettled(customerIds.slice(start, start + UPDATE_BATCH_SIZE).map((userId) =>
+        assignVipTier(userId, selectVipTier(tiers, spend.get(userId)), tiers, actor)));
+      const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      failed.forEach((result) => logger.error('Failed to update VIP tier', { reason: result.reason }));
+      outcome.evaluated += results.length;
+      outcome.changed += results.filter((result) => result.status === 'fulfilled' && result.value).length;
+      outcome.failed += failed.length;
+    }
+  };
+  if (customerId) {
+    await update([customerId]);
+  } else {
+    await forEachPage(collections.users().where('role', '==', UserRole.Customer),
+      (docs) => update(docs.map((doc) => doc.id)));
+  }
+  return outcome;
+}
+
+/** A customer and the benefits of their VIP tier, as read at checkout. */
+export interface CustomerBenefits {
+  customer?: User;
+  /** Empty when the customer has no tier or it no longer exists. */
+  benefits: VipTierBenefits;
+}
+
+/** Reads the customer and their VIP tier benefits in `transaction`. */
+export async function getVipBenefits(
+  transaction: admin.firestore.Transaction,
+  customerId: string,
+): Promise<CustomerBenefits> {
+  const customer = (await transaction.get(collections.users().doc(customerId))).data();
+  const tier = customer?.vipTier ?
+    (await transaction.get(collections.vipTiers().doc(customer.vipTier))).data() :
+    undefined;
+  return { customer, benefits: tier?.benefits ?? {} };
+}